@@ -27,7 +27,7 @@ function createVerifyButton(text) {
             const data = await response.json();
 
             if (data.status === 'success') {
-                showResult(btn, data.verdict);
+                showResult(btn, data.verdict, data.message);
             } else {
                 btn.innerHTML = "❌ Error";
                 setTimeout(() => btn.innerHTML = "🛡️ Verify", 2000);
@@ -44,17 +44,19 @@ function createVerifyButton(text) {
     return btn;
 }
 
-function showResult(targetBtn, verdict) {
+// verdict is the structured result ({ label, confidence, claimSummary, evidence, reasoning }),
+// message the same verdict as text
+function showResult(targetBtn, verdict, message) {
     // Create a tooltip/popup with the result
     const resultDiv = document.createElement('div');
     resultDiv.className = "hubguard-result-popup";
 
     // Color code based on verdict
-    if (verdict.includes("HOAX")) {
+    if (verdict.label === "HOAX") {
         resultDiv.style.borderLeft = "4px solid #dc3545"; // Red
         targetBtn.innerHTML = "🚨 HOAX";
         targetBtn.style.backgroundColor = "#dc3545";
-    } else if (verdict.includes("VERIFIED")) {
+    } else if (verdict.label === "VERIFIED") {
         resultDiv.style.borderLeft = "4px solid #28a745"; // Green
         targetBtn.innerHTML = "✅ VERIFIED";
         targetBtn.style.backgroundColor = "#28a745";
@@ -65,7 +67,7 @@ function showResult(targetBtn, verdict) {
         targetBtn.style.color = "#000";
     }
 
-    resultDiv.innerText = verdict;
+    resultDiv.innerText = message;
 
     // Add close button
     const close = document.createElement('span');
@@ -0,0 +1,60 @@
+import "dotenv/config";
+
+// Registers the commands the Discord trigger answers: "Verify" on a message's Apps menu, and
+// /verify for a claim or screenshot typed in directly. Run once, and again after changing them.
+const COMMANDS = [
+  { name: "Verify", type: 3 },
+  {
+    name: "verify",
+    type: 1,
+    description: "Check a university rumor against official sources",
+    options: [
+      {
+        name: "claim",
+        description: "The claim to check",
+        type: 3,
+        required: false,
+      },
+      {
+        name: "image",
+        description: "Screenshot of the notice or circular",
+        type: 11,
+        required: false,
+      },
+    ],
+  },
+];
+
+async function registerCommands() {
+  const applicationId = process.env.DISCORD_APPLICATION_ID;
+  const botToken = process.env.DISCORD_BOT_TOKEN;
+  if (!applicationId || !botToken) {
+    console.error("❌ Set DISCORD_APPLICATION_ID and DISCORD_BOT_TOKEN first.");
+    process.exit(1);
+  }
+
+  const response = await fetch(
+    `https://discord.com/api/v10/applications/${applicationId}/commands`,
+    {
+      method: "PUT",
+      headers: {
+        Authorization: `Bot ${botToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(COMMANDS),
+    },
+  );
+  const result = await response.json();
+  if (!response.ok) {
+    console.error(
+      "❌ Discord refused the commands:",
+      JSON.stringify(result, null, 2),
+    );
+    process.exit(1);
+  }
+  console.log(
+    `✅ Registered ${result.length} commands: ${result.map((command: any) => command.name).join(", ")}`,
+  );
+}
+
+registerCommands();
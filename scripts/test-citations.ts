@@ -0,0 +1,161 @@
+import { checkCitations, runSources } from "../src/mastra/verdicts/citations";
+import type { Evidence, Verdict } from "../src/mastra/verdicts/verdict";
+
+// One run's tool calls, in the shape the agent reports them in `response.toolResults`
+const TOOL_RESULTS = [
+  {
+    payload: {
+      toolName: "ragSearchTool",
+      result: {
+        results: [
+          {
+            source: "data/university_notices_sample.txt",
+            citation: "university_notices_sample.txt",
+            title: "Examination Schedule",
+            circularNumber: "MU/EXAM/2024/117",
+            relevanceScore: 0.82,
+          },
+          // Returned, but too far off the query to count as a source
+          {
+            source: "data/hostel_rules.txt",
+            citation: "hostel_rules.txt",
+            title: "Hostel Rules",
+            circularNumber: "MU/HOSTEL/2023/12",
+            relevanceScore: 0.12,
+          },
+        ],
+      },
+    },
+  },
+  {
+    payload: {
+      toolName: "universitySearchTool",
+      result: {
+        results: [
+          {
+            url: "https://www.mu.ac.in/notices/exam-schedule/",
+            title: "Exam schedule",
+            isOfficial: true,
+          },
+        ],
+      },
+    },
+  },
+];
+
+function verdictCiting(evidence: Evidence[]): Verdict {
+  return {
+    label: "HOAX",
+    confidence: 0.9,
+    claimSummary: "The semester exams are cancelled",
+    evidence,
+    reasoning: "No such notice exists.",
+  };
+}
+
+// Each case is the evidence a HOAX verdict cites and the label it must end up with
+const CASES: Array<{
+  name: string;
+  evidence: Evidence[];
+  expected: Verdict["label"];
+}> = [
+  {
+    name: "returned URL, cited with tracking slash and www",
+    evidence: [
+      {
+        source: "MU website",
+        url: "mu.ac.in/notices/exam-schedule",
+        stance: "refutes",
+      },
+    ],
+    expected: "HOAX",
+  },
+  {
+    name: "returned circular number",
+    evidence: [
+      {
+        source: "MU notice",
+        documentRef: "MU/EXAM/2024/117",
+        stance: "refutes",
+      },
+    ],
+    expected: "HOAX",
+  },
+  {
+    name: "invented page on a returned site",
+    evidence: [
+      {
+        source: "MU website",
+        url: "https://mu.ac.in/notices/exams-cancelled",
+        stance: "refutes",
+      },
+    ],
+    expected: "UNCERTAIN",
+  },
+  {
+    name: "invented circular number",
+    evidence: [
+      {
+        source: "MU notice",
+        documentRef: "MU/EXAM/2024/999",
+        stance: "refutes",
+      },
+    ],
+    expected: "UNCERTAIN",
+  },
+  {
+    name: "source that only mentions a returned document's title",
+    evidence: [
+      { source: "Examination Schedule revision 2", stance: "refutes" },
+    ],
+    expected: "UNCERTAIN",
+  },
+  {
+    name: "low-relevance passage",
+    evidence: [
+      {
+        source: "MU notice",
+        documentRef: "MU/HOSTEL/2023/12",
+        stance: "refutes",
+      },
+    ],
+    expected: "UNCERTAIN",
+  },
+  {
+    name: "tool that was never called",
+    evidence: [{ source: "Perplexity", stance: "refutes" }],
+    expected: "UNCERTAIN",
+  },
+];
+
+function testCitations() {
+  const sources = runSources(TOOL_RESULTS);
+  console.log(`Checking ${CASES.length} cited sources...`);
+  let failures = 0;
+
+  for (const { name, evidence, expected } of CASES) {
+    const checked = checkCitations(verdictCiting(evidence), sources);
+    if (checked.label !== expected) {
+      failures++;
+      console.log(`❌ ${name}: got ${checked.label}, expected ${expected}`);
+    }
+  }
+
+  // Nor may a dramatic-claim override cite it as the official source that stays silent
+  if (
+    sources.official.some(
+      (evidence) => evidence.documentRef === "MU/HOSTEL/2023/12",
+    )
+  ) {
+    failures++;
+    console.log("❌ low-relevance passage listed among the official sources");
+  }
+
+  if (failures > 0) {
+    console.error(`❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log("✅ Only sources the tools returned back a verdict");
+}
+
+testCitations();
@@ -0,0 +1,69 @@
+import { parseAddress, parseEmail } from "../src/mastra/channels/email/mime";
+import { sendEmail } from "../src/mastra/channels/email/smtp";
+
+function encodedWord(text: string): string {
+  return `=?UTF-8?B?${Buffer.from(text, "utf-8").toString("base64")}?=`;
+}
+
+// Each case is a From header and the address replies would go to, or undefined where it must be refused
+const CASES: Array<{ header: string; expected: string | undefined }> = [
+  { header: "Parent <Parent@Example.com>", expected: "parent@example.com" },
+  { header: "staff@uni.edu", expected: "staff@uni.edu" },
+  {
+    header: `${encodedWord("Ángela")} <angela@example.com>`,
+    expected: "angela@example.com",
+  },
+  // Encoded words decode to line breaks, which would add SMTP commands and headers to the reply
+  {
+    header: `Victim <${encodedWord("victim@a.com\r\nrcpt to:<spam@b.com")}>`,
+    expected: undefined,
+  },
+  {
+    header: encodedWord("victim@a.com\r\nBcc: spam@b.com"),
+    expected: undefined,
+  },
+  {
+    header: "Name <victim@a.com> extra <spam@b.com>",
+    expected: "victim@a.com",
+  },
+  { header: "<victim@a.com\tspam@b.com>", expected: undefined },
+  { header: "<not an address>", expected: undefined },
+];
+
+async function testEmailAddress() {
+  console.log(`Checking ${CASES.length} From headers...`);
+  let failures = 0;
+
+  for (const { header, expected } of CASES) {
+    const viaHeader = parseAddress(header)?.address;
+    const viaEmail = parseEmail(`From: ${header}\r\nSubject: test\r\n\r\nbody`)
+      .from?.address;
+    if (viaHeader !== expected || viaEmail !== expected) {
+      failures++;
+      console.log(
+        `❌ ${JSON.stringify(header)}: got ${JSON.stringify(viaHeader)}, expected ${JSON.stringify(expected)}`,
+      );
+    }
+  }
+
+  // The SMTP client refuses a line break in the recipient even if a caller lets one through
+  const refused = await sendEmail({
+    to: "victim@a.com\r\nRCPT TO:<spam@b.com>",
+    subject: "x",
+    text: "x",
+  })
+    .then(() => false)
+    .catch((error: Error) => error.message.startsWith("Refusing"));
+  if (!refused) {
+    failures++;
+    console.log("❌ sendEmail accepted a recipient with a line break");
+  }
+
+  if (failures > 0) {
+    console.error(`❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log("✅ Only well-formed addresses are replied to");
+}
+
+testEmailAddress();
@@ -0,0 +1,81 @@
+import { readFileSync } from "fs";
+import { DEFAULT_GATEKEEPER_RULES } from "../src/mastra/gatekeeper/gatekeeperRules";
+import { stem } from "../src/mastra/gatekeeper/keywordMatcher";
+import { tokenize } from "../src/mastra/gatekeeper/normalization";
+import { detectKeywords } from "../src/mastra/gatekeeper/riskModel";
+
+// Below either bar the script exits with an error, so a matcher change that regresses fails loudly
+const MIN_PRECISION = 0.95;
+const MIN_RECALL = 0.9;
+
+interface CorpusEntry {
+  text: string;
+  // Keywords the message should trigger; forms of one keyword ("exam" / "exams") are interchangeable
+  keywords: string[];
+}
+
+// "exams" and "exam" are one keyword for scoring purposes, as the matcher reports only one of them
+function canonical(keyword: string): string {
+  return (
+    tokenize(keyword).map(stem).join(" ") +
+    (keyword.trim().endsWith("?") ? "?" : "")
+  );
+}
+
+function testGatekeeperKeywords() {
+  const corpus: CorpusEntry[] = JSON.parse(
+    readFileSync(new URL("./gatekeeper-corpus.json", import.meta.url), "utf8"),
+  );
+  console.log(
+    `Checking keyword detection against ${corpus.length} group messages...`,
+  );
+
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  for (const entry of corpus) {
+    const matches = detectKeywords(entry.text, DEFAULT_GATEKEEPER_RULES);
+    const expected = new Set(entry.keywords.map(canonical));
+    const found = new Set(matches.map((match) => canonical(match.keyword)));
+
+    const extra = matches.filter(
+      (match) => !expected.has(canonical(match.keyword)),
+    );
+    const missing = entry.keywords.filter(
+      (keyword) => !found.has(canonical(keyword)),
+    );
+    truePositives +=
+      found.size - new Set(extra.map((match) => canonical(match.keyword))).size;
+    falsePositives += new Set(extra.map((match) => canonical(match.keyword)))
+      .size;
+    falseNegatives += missing.length;
+
+    if (extra.length > 0 || missing.length > 0) {
+      console.log(`❌ "${entry.text}"`);
+      if (extra.length > 0) {
+        console.log(
+          `   unexpected: ${extra.map((m) => `${m.surface} → ${m.keyword} (${m.kind})`).join(", ")}`,
+        );
+      }
+      if (missing.length > 0) console.log(`   missed: ${missing.join(", ")}`);
+    }
+  }
+
+  const precision = truePositives / (truePositives + falsePositives || 1);
+  const recall = truePositives / (truePositives + falseNegatives || 1);
+  console.log(
+    `Precision: ${precision.toFixed(3)} (${falsePositives} false positives)`,
+  );
+  console.log(`Recall:    ${recall.toFixed(3)} (${falseNegatives} missed)`);
+
+  if (precision < MIN_PRECISION || recall < MIN_RECALL) {
+    console.error(
+      `❌ Below the bar (precision ${MIN_PRECISION}, recall ${MIN_RECALL})`,
+    );
+    process.exit(1);
+  }
+  console.log("✅ Keyword detection meets the bar");
+}
+
+testGatekeeperKeywords();
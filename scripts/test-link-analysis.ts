@@ -0,0 +1,41 @@
+import { analyzeLinks } from "../src/mastra/gatekeeper/linkAnalysis";
+
+// Each case is a link and whether the gatekeeper must flag it; none is shortened, so nothing is fetched
+const CASES: Array<{ link: string; suspicious: boolean }> = [
+  { link: "https://mu.ac.in/exam-timetable", suspicious: false },
+  { link: "https://www.ugc.gov.in/notices", suspicious: false },
+  { link: "https://aicte.gov.in/circulars", suspicious: false },
+  // Other universities whose names contain "mu", and the real UGC and AICTE domains
+  { link: "https://amu.ac.in/results", suspicious: false },
+  { link: "https://mmu.ac.in/admissions", suspicious: false },
+  { link: "https://bamu.ac.in/exam", suspicious: false },
+  { link: "https://mu.edu/news", suspicious: false },
+  { link: "https://mu.ac.in.results.xyz/login", suspicious: true },
+  { link: "https://mu-ac-in.com/hall-ticket", suspicious: true },
+  { link: "https://rnu.ac.in/results", suspicious: true },
+  { link: "https://ugc-notice.com/circular", suspicious: true },
+];
+
+async function testLinkAnalysis() {
+  console.log(`Checking ${CASES.length} links...`);
+  let failures = 0;
+
+  for (const { link, suspicious } of CASES) {
+    const report = await analyzeLinks(`see ${link}`);
+    const flagged = report.suspicious[0];
+    if (!!flagged !== suspicious) {
+      failures++;
+      console.log(
+        `❌ ${link}: ${flagged ? `flagged as ${flagged.reason} of ${flagged.imitates}` : "not flagged"}`,
+      );
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log("✅ Only links imitating an official domain are flagged");
+}
+
+testLinkAnalysis();
@@ -12,22 +12,35 @@ import { ragSearchTool, reloadDocumentsTool } from "../tools/ragSearchTool";
 import { imageAnalysisTool } from "../tools/imageAnalysisTool";
 import { exaSearchTool, universitySearchTool } from "../tools/exaSearchTool";
 import { perplexitySearchTool } from "../tools/perplexitySearchTool";
-import { dataFolderCleanupTool, dataFolderStatusTool } from "../tools/dataManagementTool";
+import {
+  dataFolderCleanupTool,
+  dataFolderStatusTool,
+} from "../tools/dataManagementTool";
 import { youtubeVerificationTool } from "../tools/youtubeVerificationTool";
-import { logVerificationTool, getLearningInsightsTool } from "../tools/learningFeedbackTool";
+import {
+  logVerificationTool,
+  getLearningInsightsTool,
+} from "../tools/learningFeedbackTool";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 
 const apiKey = process.env.GOOGLE_API_KEY;
 
 if (!apiKey) {
-  console.error("❌ CRITICAL ERROR: GOOGLE_API_KEY is missing from environment variables!");
-  console.error("Please ensure your .env file exists in the root directory and contains GOOGLE_API_KEY.");
+  console.error(
+    "❌ CRITICAL ERROR: GOOGLE_API_KEY is missing from environment variables!",
+  );
+  console.error(
+    "Please ensure your .env file exists in the root directory and contains GOOGLE_API_KEY.",
+  );
 }
 
 const google = createGoogleGenerativeAI({
   apiKey: apiKey,
 });
 
+// Turns the agent's final answer into a structured Verdict (verdicts/verdict.ts) once its tools have run
+export const verdictModel = google("gemini-2.0-flash");
+
 export const truthSentinelAgent = new Agent({
   name: "Truth Sentinel",
 
@@ -59,6 +72,9 @@ CRITICAL VERIFICATION PROCESS (FOLLOW STRICTLY):
 
 STEP 1: GATEKEEPER CHECK
 - Use gatekeeper-filter to determine if message needs verification
+- Pass the chat ID from the message details as chatId so that group's own filtering rules apply, and the sender as senderId
+- The gatekeeper returns a riskScore with the signals behind it; high-risk messages deserve the most thorough check
+- If it reports suspiciousLinks (lookalikes of mu.ac.in, ugc.ac.in and other official domains), warn in your reply that the link is not an official source
 - If gatekeeper says SKIP → Return empty response (no message sent)
 - If gatekeeper says PROCESS → Continue to next steps
 
@@ -101,6 +117,9 @@ STEP 4: SELECTIVE LOCAL RAG SEARCH (Intelligent Routing)
   * "Subject list" or "Course modules"
   * "Academic rules" or "Grading scheme"
   * (Reason: These are static academic facts found in your data/ folder)
+- When a notice must be in force now, pass today's date as asOfDate so expired notices are left out, and never treat a result marked expired as confirming a current claim; a result marked validityUnknown does not say until when it applies, so check its dates against the claim
+- Pass the user's claim as claim: each passage comes back labelled SUPPORTS / REFUTES / NEUTRAL with the conflicting spans (e.g. claim "Dec 5" vs notice "December 15, 2024"). Quote those spans when a notice contradicts the claim
+- Results only come from the latest version of each document. Set includeSuperseded only when asked what an earlier or revised circular said, and say which version you are quoting
 
 STEP 5: EXTERNAL VERIFICATION (MANDATORY for all factual claims)
 **YOU MUST USE PERPLEXITY AND UNIVERSITY SEARCH - NO EXCEPTIONS**
@@ -137,6 +156,9 @@ STEP 6: CROSS-VERIFICATION
 
 STEP 7: RESPOND TO USER
 - Provide concise 1-2 line verdict with PRIMARY source
+- Name every source you relied on with its URL, or the circular number / document name for notices and local documents, exactly as the tool gave it
+- Cite Perplexity's own answer as source "Perplexity" and what the image analysis read off a picture as source "Image analysis"; cite a video by its URL
+- Only cite URLs and documents that your tools returned in this conversation; sources you did not look up are discarded and a verdict left without any becomes UNABLE TO VERIFY
 
 RESPONSE FORMAT (STRICT):
 
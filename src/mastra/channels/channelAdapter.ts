@@ -0,0 +1,43 @@
+import type { z } from "zod";
+import type { Verdict } from "../verdicts/verdict";
+import type { Channel, IncomingMessage } from "../verification/incomingMessage";
+
+export const ERROR_REPLY =
+  "⚠️ I encountered an error while verifying this information. Please try again later.";
+
+// Where a reply goes; an IncomingMessage is one, and tools sending on their own pass just the chat
+export interface ReplyTarget {
+  chatId: string;
+  // Message replied to (Telegram, email), if any
+  messageId?: string;
+  // Thread replied in (Slack thread_ts, email subject), if any
+  replyThread?: string;
+  // Token the reply is sent with (Discord interaction token), if any
+  replyToken?: string;
+}
+
+export interface DownloadedMedia {
+  bytes: Buffer;
+  mimeType: string;
+}
+
+/**
+ * Everything the verification pipeline needs from a chat platform. Adding a platform is one of
+ * these plus a trigger that hands its inbound payload to the pipeline.
+ */
+export interface ChannelAdapter<TInbound = any> {
+  channel: Channel;
+  // The message as the channel's trigger passes it on
+  inboundSchema: z.ZodType<TInbound>;
+  parseInbound(inbound: TInbound): IncomingMessage;
+  downloadMedia(message: IncomingMessage): Promise<DownloadedMedia>;
+  // Resolves to the platform's ID of the sent message; throws when the platform refuses it
+  sendReply(
+    target: ReplyTarget,
+    text: string,
+    options?: { markdown?: boolean },
+  ): Promise<string | undefined>;
+  // Plain-text apology, so the sender isn't left waiting for a reply
+  sendError(target: ReplyTarget, text?: string): Promise<void>;
+  formatVerdict(verdict: Verdict): string;
+}
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { renderVerdict } from "../verdicts/renderVerdict";
+import { ERROR_REPLY, type ChannelAdapter } from "./channelAdapter";
+
+const DISCORD_API = "https://discord.com/api/v10";
+
+// A message picked with the "Verify" command, or the claim given to /verify, as the trigger passes it on
+const inboundSchema = z.object({
+  interactionToken: z
+    .string()
+    .describe("Token of the interaction, for the deferred reply"),
+  channelId: z.string().describe("Discord channel ID"),
+  messageId: z
+    .string()
+    .describe("ID of the message verified, or of the interaction for /verify"),
+  userId: z.string().describe("Discord user ID of the message's author"),
+  userName: z.string().describe("Username of the message's author"),
+  content: z
+    .string()
+    .describe("Text message content, including the forwarded message's"),
+  isForwarded: z.boolean().describe("Whether the message forwards another one"),
+  attachments: z
+    .array(
+      z.object({
+        id: z.string(),
+        url: z.string(),
+        filename: z.string(),
+        contentType: z.string().optional(),
+      }),
+    )
+    .optional()
+    .describe("Attachments, including the forwarded message's"),
+});
+
+export type DiscordInbound = z.infer<typeof inboundSchema>;
+
+function applicationId(): string {
+  const id = process.env.DISCORD_APPLICATION_ID;
+  if (!id) throw new Error("DISCORD_APPLICATION_ID not configured");
+  return id;
+}
+
+function botToken(): string {
+  const token = process.env.DISCORD_BOT_TOKEN;
+  if (!token) throw new Error("DISCORD_BOT_TOKEN not configured");
+  return token;
+}
+
+function isVerifiable(contentType?: string): boolean {
+  return (
+    !!contentType &&
+    (contentType.startsWith("image/") || contentType === "application/pdf")
+  );
+}
+
+export const discordAdapter: ChannelAdapter<DiscordInbound> = {
+  channel: "discord",
+  inboundSchema,
+
+  parseInbound(inbound) {
+    // Only the first image or PDF is verified
+    const attachment = inbound.attachments?.find((candidate) =>
+      isVerifiable(candidate.contentType),
+    );
+
+    return {
+      channel: "discord",
+      chatId: inbound.channelId,
+      messageId: inbound.messageId,
+      senderId: inbound.userId,
+      senderName: `@${inbound.userName}`,
+      text: inbound.content,
+      isForwarded: inbound.isForwarded,
+      media: attachment
+        ? {
+            kind: attachment.contentType!.startsWith("image/")
+              ? "photo"
+              : "document",
+            ref: attachment.url,
+            uniqueId: attachment.id,
+            mimeType: attachment.contentType,
+          }
+        : undefined,
+      replyToken: inbound.interactionToken,
+      threadId: `discord-${inbound.channelId}-${Date.now()}`,
+    };
+  },
+
+  async downloadMedia(message) {
+    const media = message.media;
+    if (!media) throw new Error("Message has no media");
+    // Attachment URLs are signed, so they need no token
+    const response = await fetch(media.ref);
+    if (!response.ok)
+      throw new Error(
+        `Failed to download attachment from Discord: ${response.status}`,
+      );
+    return {
+      bytes: Buffer.from(await response.arrayBuffer()),
+      mimeType:
+        media.mimeType ||
+        response.headers.get("content-type") ||
+        "application/octet-stream",
+    };
+  },
+
+  // Answers the interaction when there is one (the first follow-up replaces its "thinking..."
+  // message), otherwise posts in the channel as the bot. Discord always renders markdown.
+  async sendReply(target, text) {
+    const body = { content: text, allowed_mentions: { parse: [] } };
+    const response = target.replyToken
+      ? await fetch(
+          `${DISCORD_API}/webhooks/${applicationId()}/${target.replyToken}?wait=true`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+          },
+        )
+      : await fetch(`${DISCORD_API}/channels/${target.chatId}/messages`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bot ${botToken()}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            ...body,
+            ...(target.messageId && {
+              message_reference: {
+                message_id: target.messageId,
+                fail_if_not_exists: false,
+              },
+            }),
+          }),
+        });
+    const responseData = await response.json();
+    if (!response.ok)
+      throw new Error(`Discord API Error: ${JSON.stringify(responseData)}`);
+    return responseData.id;
+  },
+
+  async sendError(target, text = ERROR_REPLY) {
+    await this.sendReply(target, text);
+  },
+
+  formatVerdict: (verdict) => renderVerdict(verdict, "discord"),
+};
@@ -0,0 +1,297 @@
+/**
+ * Just enough MIME (RFC 2045-2047) to read a forwarded email: headers with encoded words, nested
+ * multiparts, base64 and quoted-printable bodies, attachments and attached messages.
+ */
+
+export interface EmailAddress {
+  address: string;
+  name?: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface ParsedEmail {
+  // Lowercased header names; the first of repeated headers
+  headers: Record<string, string>;
+  from?: EmailAddress;
+  replyTo?: EmailAddress;
+  subject: string;
+  messageId?: string;
+  // The readable text: text/plain where there is one, otherwise the HTML without its markup
+  text: string;
+  attachments: EmailAttachment[];
+  // Emails forwarded as attachments (message/rfc822)
+  attachedMessages: ParsedEmail[];
+}
+
+interface ContentType {
+  type: string;
+  params: Record<string, string>;
+}
+
+// Bodies are kept as "binary" strings (one char per byte) until their charset is known
+function splitHeaderAndBody(raw: string): { headerText: string; body: string } {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) return { headerText: raw, body: "" };
+  return {
+    headerText: raw.slice(0, match.index),
+    body: raw.slice(match.index + match[0].length),
+  };
+}
+
+function decodeCharset(bytes: Buffer, charset = "utf-8"): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes: number[] = [];
+  const unfolded = text.replace(/=\r?\n/g, "");
+  for (let i = 0; i < unfolded.length; i++) {
+    const hex = unfolded.slice(i + 1, i + 3);
+    if (unfolded[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(unfolded.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// "=?utf-8?B?...?=" and "=?iso-8859-1?Q?...?=" words; whitespace between two of them is dropped
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(
+      /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+      (_word, charset: string, encoding: string, text: string) => {
+        const bytes =
+          encoding.toUpperCase() === "B"
+            ? Buffer.from(text, "base64")
+            : decodeQuotedPrintable(text.replace(/_/g, " "));
+        return decodeCharset(bytes, charset);
+      },
+    );
+}
+
+function parseHeaders(headerText: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  // Continuation lines start with whitespace
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+function parseContentType(
+  value: string | undefined,
+  fallback: string,
+): ContentType {
+  const [type, ...rest] = (value || fallback).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const equals = param.indexOf("=");
+    if (equals < 0) continue;
+    let key = param.slice(0, equals).trim().toLowerCase();
+    let paramValue = param
+      .slice(equals + 1)
+      .trim()
+      .replace(/^"(.*)"$/, "$1");
+    // RFC 2231: filename*=utf-8''%E2%80%A6
+    if (key.endsWith("*")) {
+      key = key.slice(0, -1);
+      const [, charset, encoded] = paramValue.match(/^([^']*)'[^']*'(.*)$/) ?? [
+        ,
+        "utf-8",
+        paramValue,
+      ];
+      const bytes = encoded!.replace(
+        /%([0-9A-Fa-f]{2})/g,
+        (_escape, hex: string) => String.fromCharCode(parseInt(hex, 16)),
+      );
+      paramValue = decodeCharset(
+        Buffer.from(bytes, "binary"),
+        charset || "utf-8",
+      );
+    }
+    params[key] = decodeEncodedWords(paramValue);
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBody(
+  body: string,
+  transferEncoding: string | undefined,
+): Buffer {
+  const encoding = (transferEncoding || "7bit").toLowerCase();
+  if (encoding === "base64")
+    return Buffer.from(body.replace(/\s+/g, ""), "base64");
+  if (encoding === "quoted-printable") return decodeQuotedPrintable(body);
+  return Buffer.from(body, "binary");
+}
+
+// A plain addr-spec: dot-atom local part and a dotted host name. Quoted local parts and address
+// literals are legal but never seen from real senders, and this is what goes into the SMTP envelope.
+const ADDR_SPEC =
+  /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)+$/i;
+
+/**
+ * The first address in a From/Reply-To header. Encoded words are decoded before the address is
+ * found, so control characters anywhere and anything that is not a strict addr-spec are refused:
+ * the address is replied to, and must not be able to smuggle in recipients or headers.
+ */
+export function parseAddress(
+  value: string | undefined,
+): EmailAddress | undefined {
+  if (!value) return undefined;
+  const decoded = decodeEncodedWords(value);
+  // Unfolded headers keep no line breaks, so control characters here came out of an encoded word
+  if (/[\x00-\x08\x0a-\x1f\x7f]/.test(decoded)) return undefined;
+  const angle = decoded.match(/^\s*"?([^"<]*?)"?\s*<([^>]*)>/);
+  const address = angle
+    ? angle[2]
+    : decoded.match(/[^\s<>,;"]+@[^\s<>,;"]+/)?.[0];
+  if (!address || !ADDR_SPEC.test(address)) return undefined;
+  return {
+    address: address.toLowerCase(),
+    name: angle?.[1].trim() || undefined,
+  };
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li|h[1-6]|blockquote)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#(\d+);/g, (_entity, code: string) =>
+      String.fromCodePoint(Number(code)),
+    )
+    .replace(/&amp;/gi, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+interface PartContents {
+  plain: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+  attachedMessages: ParsedEmail[];
+}
+
+function collectPart(
+  raw: string,
+  into: PartContents,
+  defaultType = "text/plain",
+): void {
+  const { headerText, body } = splitHeaderAndBody(raw);
+  const headers = parseHeaders(headerText);
+  const contentType = parseContentType(headers["content-type"], defaultType);
+  const disposition = parseContentType(
+    headers["content-disposition"],
+    "inline",
+  );
+  const filename = disposition.params.filename || contentType.params.name;
+
+  if (
+    contentType.type.startsWith("multipart/") &&
+    contentType.params.boundary
+  ) {
+    const delimiter = `--${contentType.params.boundary}`;
+    const sections = body.split(
+      new RegExp(
+        `\\r?\\n?${delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:--)?[ \\t]*\\r?\\n?`,
+      ),
+    );
+    // Before the first delimiter is the preamble, after the closing one the epilogue
+    const parts = sections.slice(
+      1,
+      body.includes(`${delimiter}--`) ? -1 : undefined,
+    );
+    // multipart/digest parts default to whole messages
+    const partDefault =
+      contentType.type === "multipart/digest" ? "message/rfc822" : "text/plain";
+    for (const part of parts) {
+      if (part.trim()) collectPart(part, into, partDefault);
+    }
+    return;
+  }
+
+  const data = decodeBody(body, headers["content-transfer-encoding"]);
+  if (contentType.type === "message/rfc822") {
+    into.attachedMessages.push(parseEmail(data));
+    return;
+  }
+
+  const isText =
+    contentType.type === "text/plain" || contentType.type === "text/html";
+  if (isText && disposition.type !== "attachment" && !filename) {
+    const text = decodeCharset(data, contentType.params.charset).replace(
+      /\r\n/g,
+      "\n",
+    );
+    (contentType.type === "text/plain" ? into.plain : into.html).push(text);
+    return;
+  }
+
+  into.attachments.push({
+    filename: filename || "attachment",
+    mimeType: contentType.type,
+    data,
+  });
+}
+
+/**
+ * Parses a raw RFC 822 email, as an SMTP-to-HTTP bridge posts it.
+ */
+export function parseEmail(raw: Buffer | string): ParsedEmail {
+  const binary =
+    typeof raw === "string"
+      ? Buffer.from(raw, "utf-8").toString("binary")
+      : raw.toString("binary");
+  const headers = parseHeaders(splitHeaderAndBody(binary).headerText);
+  const contents: PartContents = {
+    plain: [],
+    html: [],
+    attachments: [],
+    attachedMessages: [],
+  };
+  collectPart(binary, contents);
+
+  // Headers may carry raw UTF-8 (RFC 6532) besides encoded words
+  const header = (name: string) =>
+    headers[name] === undefined
+      ? undefined
+      : decodeEncodedWords(
+          Buffer.from(headers[name], "binary").toString("utf-8"),
+        );
+
+  return {
+    headers,
+    from: parseAddress(header("from")),
+    replyTo: parseAddress(header("reply-to")),
+    subject: header("subject") ?? "",
+    messageId: headers["message-id"]?.trim(),
+    text: contents.plain.length
+      ? contents.plain.join("\n\n").trim()
+      : contents.html.map(htmlToText).join("\n\n").trim(),
+    attachments: contents.attachments,
+    attachedMessages: contents.attachedMessages,
+  };
+}
@@ -0,0 +1,223 @@
+import * as crypto from "crypto";
+import * as net from "net";
+import * as os from "os";
+import * as tls from "tls";
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  // Message-ID of the email being answered, so mail clients thread the reply under it
+  inReplyTo?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+function smtpConfig() {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.EMAIL_FROM;
+  if (!host || !from) {
+    throw new Error("Email is not configured: set SMTP_HOST and EMAIL_FROM");
+  }
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from,
+  };
+}
+
+// Non-ASCII header values go out as a UTF-8 encoded word
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+function buildMessage(
+  email: OutgoingEmail,
+  from: string,
+  messageId: string,
+): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${email.to}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    ...(email.inReplyTo
+      ? [`In-Reply-To: ${email.inReplyTo}`, `References: ${email.inReplyTo}`]
+      : []),
+    "Auto-Submitted: auto-replied",
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+  ];
+  const body = Buffer.from(email.text.replace(/\r?\n/g, "\r\n"), "utf-8")
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+  return `${headers.join("\r\n")}\r\n\r\n${body}`;
+}
+
+/**
+ * Reads SMTP replies off a socket, which STARTTLS swaps for an encrypted one mid-session.
+ */
+function replyReader() {
+  let buffered = "";
+  const lines: string[] = [];
+  let failure: Error | undefined;
+  let wake: (() => void) | undefined;
+
+  const onData = (chunk: Buffer) => {
+    buffered += chunk.toString("utf-8");
+    let end: number;
+    while ((end = buffered.indexOf("\r\n")) >= 0) {
+      lines.push(buffered.slice(0, end));
+      buffered = buffered.slice(end + 2);
+    }
+    wake?.();
+  };
+  const onEnd = (error?: Error) => {
+    failure ??= error ?? new Error("SMTP server closed the connection");
+    wake?.();
+  };
+
+  return {
+    attach(socket: net.Socket) {
+      socket.on("data", onData);
+      socket.on("error", onEnd);
+      socket.on("close", () => onEnd());
+    },
+    detach(socket: net.Socket) {
+      socket.removeListener("data", onData);
+      socket.removeAllListeners("error");
+      socket.removeAllListeners("close");
+    },
+    // Multi-line replies continue with "250-" and end with "250 "
+    async read(): Promise<SmtpReply> {
+      const text: string[] = [];
+      for (;;) {
+        while (!lines.length) {
+          if (failure) throw failure;
+          await new Promise<void>((resolve) => (wake = resolve));
+        }
+        const line = lines.shift()!;
+        text.push(line.slice(4));
+        if (line[3] !== "-")
+          return { code: Number(line.slice(0, 3)), text: text.join("\n") };
+      }
+    },
+  };
+}
+
+function connect(options: {
+  host: string;
+  port: number;
+  secure: boolean;
+}): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect(
+          { host: options.host, port: options.port, servername: options.host },
+          () => resolve(socket),
+        )
+      : net.connect({ host: options.host, port: options.port }, () =>
+          resolve(socket),
+        );
+    socket.once("error", reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () =>
+      resolve(secured),
+    );
+    secured.once("error", reject);
+  });
+}
+
+/**
+ * Sends a plain-text email through the SMTP relay in SMTP_HOST, returning its Message-ID.
+ * Upgrades with STARTTLS when the server offers it, unless SMTP_SECURE already opened with TLS.
+ */
+export async function sendEmail(email: OutgoingEmail): Promise<string> {
+  // The recipient goes into the envelope and a header verbatim; a line break would add commands
+  if (
+    /[\r\n]/.test(email.to) ||
+    (email.inReplyTo && /[\r\n]/.test(email.inReplyTo))
+  ) {
+    throw new Error(
+      "Refusing to send email: recipient or In-Reply-To contains a line break",
+    );
+  }
+  const config = smtpConfig();
+  const fromAddress = config.from.match(/<([^>]+)>/)?.[1] ?? config.from;
+  const messageId = `<${crypto.randomUUID()}@${fromAddress.split("@")[1] ?? os.hostname()}>`;
+  const reader = replyReader();
+
+  let socket = await connect(config);
+  socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+    socket.destroy(new Error("SMTP server timed out")),
+  );
+  reader.attach(socket);
+
+  const expect = async (command: string | undefined, ...codes: number[]) => {
+    if (command !== undefined) socket.write(`${command}\r\n`);
+    const reply = await reader.read();
+    if (!codes.includes(reply.code)) {
+      // Never echo the AUTH line: it carries the password
+      const sent = command?.startsWith("AUTH") ? "AUTH" : command;
+      throw new Error(
+        `SMTP ${sent ?? "greeting"} failed: ${reply.code} ${reply.text}`,
+      );
+    }
+    return reply;
+  };
+
+  try {
+    await expect(undefined, 220);
+    let capabilities = await expect(`EHLO ${os.hostname()}`, 250);
+
+    if (!config.secure && /^STARTTLS$/im.test(capabilities.text)) {
+      await expect("STARTTLS", 220);
+      reader.detach(socket);
+      socket = await upgradeToTls(socket, config.host);
+      socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+        socket.destroy(new Error("SMTP server timed out")),
+      );
+      reader.attach(socket);
+      capabilities = await expect(`EHLO ${os.hostname()}`, 250);
+    }
+
+    if (config.user && config.pass) {
+      const credentials = Buffer.from(
+        `\0${config.user}\0${config.pass}`,
+        "utf-8",
+      ).toString("base64");
+      await expect(`AUTH PLAIN ${credentials}`, 235);
+    }
+
+    await expect(`MAIL FROM:<${fromAddress}>`, 250);
+    await expect(`RCPT TO:<${email.to}>`, 250, 251);
+    await expect("DATA", 354);
+    // A line holding just "." would end the message early, so leading dots are doubled
+    const message = buildMessage(email, config.from, messageId).replace(
+      /^\./gm,
+      "..",
+    );
+    await expect(`${message}\r\n.`, 250);
+    await expect("QUIT", 221).catch(() => undefined);
+    return messageId;
+  } finally {
+    socket.destroy();
+  }
+}
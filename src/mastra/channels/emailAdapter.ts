@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { renderVerdict } from "../verdicts/renderVerdict";
+import { ERROR_REPLY, type ChannelAdapter } from "./channelAdapter";
+import { sendEmail } from "./email/smtp";
+
+// Long newsletters and quoted threads are cut; the claim is almost always near the top
+const MAX_TEXT_CHARS = 4000;
+
+// An email as the trigger passes it on, already taken out of its MIME
+const inboundSchema = z.object({
+  from: z.string().describe("Address of the sender"),
+  fromName: z.string().optional().describe("Display name of the sender"),
+  replyTo: z
+    .string()
+    .optional()
+    .describe("Reply-To address, when replies should go elsewhere"),
+  subject: z.string(),
+  messageId: z
+    .string()
+    .optional()
+    .describe("Message-ID header, for threading the reply"),
+  text: z
+    .string()
+    .describe("Body text, including that of emails forwarded as attachments"),
+  isForwarded: z.boolean().describe("Whether the email forwards another one"),
+  attachments: z
+    .array(
+      z.object({
+        filename: z.string(),
+        mimeType: z.string(),
+        data: z.string().describe("Base64 content"),
+      }),
+    )
+    .optional()
+    .describe("Attachments, including those of forwarded emails"),
+});
+
+export type EmailInbound = z.infer<typeof inboundSchema>;
+
+function isVerifiable(mimeType: string): boolean {
+  return mimeType.startsWith("image/") || mimeType === "application/pdf";
+}
+
+// "Fwd: Re: Exams postponed" is about "Exams postponed"
+function stripSubjectPrefixes(subject: string): string {
+  return subject
+    .replace(/^(\s*(re|fwd?|aw|wg|tr)\s*(\[\d+\])?\s*:\s*)+/i, "")
+    .trim();
+}
+
+// Drops the signature ("-- " on its own line) and trims to the length the agent reads
+function claimText(subject: string, body: string): string {
+  const unsigned = body.split(/\r?\n-- \r?\n/)[0].trim();
+  const text = [stripSubjectPrefixes(subject), unsigned]
+    .filter(Boolean)
+    .join("\n\n");
+  return text.length > MAX_TEXT_CHARS
+    ? `${text.slice(0, MAX_TEXT_CHARS)}…`
+    : text;
+}
+
+export const emailAdapter: ChannelAdapter<EmailInbound> = {
+  channel: "email",
+  inboundSchema,
+
+  parseInbound(inbound) {
+    // Only the first image or PDF is verified; it travels inline, as a data: URL
+    const attachment = inbound.attachments?.find((candidate) =>
+      isVerifiable(candidate.mimeType),
+    );
+
+    return {
+      channel: "email",
+      chatId: inbound.replyTo ?? inbound.from,
+      messageId: inbound.messageId ?? `email-${Date.now()}`,
+      senderId: inbound.from,
+      senderName: inbound.fromName
+        ? `${inbound.fromName} <${inbound.from}>`
+        : inbound.from,
+      text: claimText(inbound.subject, inbound.text),
+      isForwarded: inbound.isForwarded,
+      media: attachment
+        ? {
+            kind: attachment.mimeType.startsWith("image/")
+              ? "photo"
+              : "document",
+            ref: `data:${attachment.mimeType};base64,${attachment.data}`,
+            mimeType: attachment.mimeType,
+          }
+        : undefined,
+      replyThread: inbound.subject,
+      threadId: `email-${inbound.from}-${Date.now()}`,
+    };
+  },
+
+  async downloadMedia(message) {
+    const media = message.media;
+    if (!media) throw new Error("Message has no media");
+    const match = media.ref.match(/^data:([^;]+);base64,(.*)$/s);
+    if (!match) throw new Error("Email attachment is not a data: URL");
+    return {
+      bytes: Buffer.from(match[2], "base64"),
+      mimeType: media.mimeType || match[1],
+    };
+  },
+
+  // A reply to the email itself, so it lands in the same conversation. Email is always plain text.
+  async sendReply(target, text) {
+    const subject = target.replyThread
+      ? stripSubjectPrefixes(target.replyThread)
+      : "";
+    return sendEmail({
+      to: target.chatId,
+      subject: subject ? `Re: ${subject}` : "Your verification request",
+      text,
+      inReplyTo:
+        target.messageId && /^<[^\s<>]+>$/.test(target.messageId)
+          ? target.messageId
+          : undefined,
+    });
+  },
+
+  async sendError(target, text = ERROR_REPLY) {
+    await this.sendReply(target, text);
+  },
+
+  formatVerdict: (verdict) => renderVerdict(verdict, "email"),
+};
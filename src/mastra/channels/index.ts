@@ -0,0 +1,33 @@
+import type { Channel } from "../verification/incomingMessage";
+import type { ChannelAdapter } from "./channelAdapter";
+import { discordAdapter } from "./discordAdapter";
+import { emailAdapter } from "./emailAdapter";
+import { slackAdapter } from "./slackAdapter";
+import { telegramAdapter } from "./telegramAdapter";
+import { whatsappAdapter } from "./whatsappAdapter";
+
+export {
+  ERROR_REPLY,
+  type ChannelAdapter,
+  type DownloadedMedia,
+  type ReplyTarget,
+} from "./channelAdapter";
+export {
+  discordAdapter,
+  emailAdapter,
+  slackAdapter,
+  telegramAdapter,
+  whatsappAdapter,
+};
+
+const ADAPTERS: Record<Channel, ChannelAdapter> = {
+  telegram: telegramAdapter,
+  whatsapp: whatsappAdapter,
+  slack: slackAdapter,
+  discord: discordAdapter,
+  email: emailAdapter,
+};
+
+export function adapterFor(channel: Channel): ChannelAdapter {
+  return ADAPTERS[channel];
+}
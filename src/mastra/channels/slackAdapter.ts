@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { getClient } from "../../triggers/slackTriggers";
+import { renderVerdict } from "../verdicts/renderVerdict";
+import { ERROR_REPLY, type ChannelAdapter } from "./channelAdapter";
+
+// The `event` of a Slack message.channels event, as far as verification reads it
+const inboundSchema = z.object({
+  channel: z.string().describe("Slack channel ID"),
+  ts: z
+    .string()
+    .describe("Timestamp of the message, its ID within the channel"),
+  thread_ts: z
+    .string()
+    .optional()
+    .describe("Timestamp of the thread's parent, when the message is a reply"),
+  user: z.string().optional().describe("Slack user ID of the sender"),
+  text: z.string().optional().describe("Text message content"),
+  files: z
+    .array(
+      z.object({
+        id: z.string(),
+        mimetype: z.string().optional(),
+        url_private: z.string().optional(),
+        url_private_download: z.string().optional(),
+      }),
+    )
+    .optional()
+    .describe("Uploaded files"),
+  attachments: z
+    .array(
+      z.object({
+        is_share: z.boolean().optional(),
+        text: z.string().optional(),
+      }),
+    )
+    .optional()
+    .describe("Shared messages and link unfurls"),
+});
+
+export type SlackInbound = z.infer<typeof inboundSchema>;
+
+// Slack's markup back to plain text: <url|label> and <url> links, <@U123> mentions and &-escapes
+function plainText(text: string): string {
+  return text
+    .replace(/<(https?:[^|>]+)\|([^>]+)>/g, "$2 ($1)")
+    .replace(/<(https?:[^>]+)>/g, "$1")
+    .replace(/<[@#!][^>]*>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+export const slackAdapter: ChannelAdapter<SlackInbound> = {
+  channel: "slack",
+  inboundSchema,
+
+  parseInbound(inbound) {
+    // A shared message arrives as an attachment; its text is the claim
+    const shared = (inbound.attachments ?? []).filter(
+      (attachment) => attachment.is_share && attachment.text,
+    );
+    // Only the first file is verified
+    const file = inbound.files?.find(
+      (candidate) => candidate.url_private_download || candidate.url_private,
+    );
+    const sender = inbound.user ?? "unknown";
+
+    return {
+      channel: "slack",
+      chatId: inbound.channel,
+      messageId: inbound.ts,
+      senderId: sender,
+      senderName: `<@${sender}>`,
+      text: [inbound.text, ...shared.map((attachment) => attachment.text)]
+        .filter(Boolean)
+        .map((text) => plainText(text!))
+        .join("\n"),
+      isForwarded: shared.length > 0,
+      media: file
+        ? {
+            kind: file.mimetype?.startsWith("image/") ? "photo" : "document",
+            ref: (file.url_private_download ?? file.url_private)!,
+            uniqueId: file.id,
+            mimeType: file.mimetype,
+          }
+        : undefined,
+      replyThread: inbound.thread_ts ?? inbound.ts,
+      threadId: `slack-${inbound.channel}-${Date.now()}`,
+    };
+  },
+
+  async downloadMedia(message) {
+    const media = message.media;
+    if (!media) throw new Error("Message has no media");
+    // Private file URLs take the bot's token
+    const { slack } = await getClient();
+    const response = await fetch(media.ref, {
+      headers: { Authorization: `Bearer ${slack.token}` },
+    });
+    if (!response.ok)
+      throw new Error(`Failed to download file from Slack: ${response.status}`);
+    return {
+      bytes: Buffer.from(await response.arrayBuffer()),
+      mimeType:
+        media.mimeType ||
+        response.headers.get("content-type") ||
+        "application/octet-stream",
+    };
+  },
+
+  // Replies always go in the message's thread, never in the channel itself
+  async sendReply(target, text, { markdown = true } = {}) {
+    const { slack } = await getClient();
+    const response = await slack.chat.postMessage({
+      channel: target.chatId,
+      text,
+      thread_ts: target.replyThread ?? target.messageId,
+      mrkdwn: markdown,
+    });
+    return response.ts;
+  },
+
+  async sendError(target, text = ERROR_REPLY) {
+    await this.sendReply(target, text, { markdown: false });
+  },
+
+  formatVerdict: (verdict) => renderVerdict(verdict, "slack"),
+};
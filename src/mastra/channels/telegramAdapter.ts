@@ -0,0 +1,152 @@
+import { z } from "zod";
+import { renderVerdict } from "../verdicts/renderVerdict";
+import { ERROR_REPLY, type ChannelAdapter } from "./channelAdapter";
+
+const inboundSchema = z.object({
+  chatId: z.number().describe("Telegram chat ID"),
+  messageId: z.number().describe("Message ID to reply to"),
+  userId: z.number().optional().describe("Telegram user ID of the sender"),
+  userName: z.string().describe("Username of the sender"),
+  firstName: z.string().describe("First name of the sender"),
+  message: z.string().describe("Text message content"),
+  caption: z.string().optional().describe("Caption from media"),
+  hasPhoto: z.boolean().describe("Whether message contains a photo"),
+  hasDocument: z.boolean().describe("Whether message contains a document"),
+  photoFileId: z.string().optional().describe("File ID of the largest photo"),
+  photoFileUniqueId: z
+    .string()
+    .optional()
+    .describe("Unique ID of the largest photo, the same across forwards"),
+  documentFileId: z.string().optional().describe("File ID of the document"),
+  documentMimeType: z
+    .string()
+    .optional()
+    .describe("MIME type Telegram reports for the document"),
+  isForwarded: z.boolean().describe("Whether message is forwarded"),
+  replyToMessage: z
+    .string()
+    .optional()
+    .describe("Content of replied-to message"),
+  threadId: z.string().describe("Thread ID for conversation tracking"),
+});
+
+export type TelegramInbound = z.infer<typeof inboundSchema>;
+
+function botToken(): string {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) throw new Error("TELEGRAM_BOT_TOKEN not configured");
+  return token;
+}
+
+// Telegram serves photos as application/octet-stream; the file extension says what they are
+function photoMimeType(filePath: string): string {
+  const ext = filePath.split(".").pop()?.toLowerCase();
+  if (ext === "png") return "image/png";
+  if (ext === "webp") return "image/webp";
+  return "image/jpeg";
+}
+
+export async function downloadTelegramFile(
+  fileId: string,
+  botToken: string,
+): Promise<{ bytes: Buffer; filePath: string }> {
+  const fileInfoResponse = await fetch(
+    `https://api.telegram.org/bot${botToken}/getFile?file_id=${fileId}`,
+  );
+  const fileInfo = await fileInfoResponse.json();
+  if (!fileInfo.ok || !fileInfo.result?.file_path) {
+    throw new Error(
+      fileInfo.description || "Failed to get file info from Telegram",
+    );
+  }
+
+  const filePath = fileInfo.result.file_path;
+  const fileResponse = await fetch(
+    `https://api.telegram.org/file/bot${botToken}/${filePath}`,
+  );
+  if (!fileResponse.ok) {
+    throw new Error(
+      `Failed to download file from Telegram: ${fileResponse.status}`,
+    );
+  }
+  return { bytes: Buffer.from(await fileResponse.arrayBuffer()), filePath };
+}
+
+export const telegramAdapter: ChannelAdapter<TelegramInbound> = {
+  channel: "telegram",
+  inboundSchema,
+
+  parseInbound(inbound) {
+    const media =
+      inbound.hasPhoto && inbound.photoFileId
+        ? {
+            kind: "photo" as const,
+            ref: inbound.photoFileId,
+            uniqueId: inbound.photoFileUniqueId,
+          }
+        : inbound.hasDocument && inbound.documentFileId
+          ? {
+              kind: "document" as const,
+              ref: inbound.documentFileId,
+              mimeType: inbound.documentMimeType,
+            }
+          : undefined;
+
+    return {
+      channel: "telegram",
+      chatId: String(inbound.chatId),
+      messageId: String(inbound.messageId),
+      senderId: String(inbound.userId ?? inbound.userName),
+      senderName: `${inbound.firstName} (@${inbound.userName})`,
+      text: inbound.message || inbound.caption || "",
+      isForwarded: inbound.isForwarded,
+      replyToText: inbound.replyToMessage,
+      media,
+      threadId: inbound.threadId,
+    };
+  },
+
+  async downloadMedia(message) {
+    const media = message.media;
+    if (!media) throw new Error("Message has no media");
+    const { bytes, filePath } = await downloadTelegramFile(
+      media.ref,
+      botToken(),
+    );
+    const mimeType =
+      media.kind === "photo"
+        ? photoMimeType(filePath)
+        : filePath.toLowerCase().endsWith(".pdf")
+          ? "application/pdf"
+          : (media.mimeType ?? "application/octet-stream");
+    return { bytes, mimeType };
+  },
+
+  async sendReply(target, text, { markdown = true } = {}) {
+    const response = await fetch(
+      `https://api.telegram.org/bot${botToken()}/sendMessage`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: target.chatId,
+          text,
+          ...(target.messageId && {
+            reply_to_message_id: Number(target.messageId),
+          }),
+          ...(markdown && { parse_mode: "Markdown" }),
+        }),
+      },
+    );
+    const responseData = await response.json();
+    if (!response.ok)
+      throw new Error(`Telegram API Error: ${JSON.stringify(responseData)}`);
+    return responseData.result?.message_id?.toString();
+  },
+
+  async sendError(target, text = ERROR_REPLY) {
+    await this.sendReply(target, text, { markdown: false });
+  },
+
+  formatVerdict: (verdict) => renderVerdict(verdict, "telegram"),
+};
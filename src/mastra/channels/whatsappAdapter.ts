@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { renderVerdict } from "../verdicts/renderVerdict";
+import { ERROR_REPLY, type ChannelAdapter } from "./channelAdapter";
+
+const inboundSchema = z.object({
+  from: z.string().describe("WhatsApp number of sender"),
+  to: z.string().describe("WhatsApp number of recipient (bot)"),
+  body: z.string().describe("Text message content"),
+  messageId: z.string().describe("Twilio message SID"),
+  numMedia: z.number().describe("Number of media attachments"),
+  mediaUrls: z
+    .array(z.string())
+    .optional()
+    .describe("URLs of media attachments"),
+  mediaContentTypes: z
+    .array(z.string())
+    .optional()
+    .describe("Content types of media"),
+});
+
+export type WhatsAppInbound = z.infer<typeof inboundSchema>;
+
+// Twilio media URLs and the Messages API both need the account's credentials
+function twilioAuthorization(): string {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!accountSid || !authToken)
+    throw new Error("TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN not configured");
+  return `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`;
+}
+
+export const whatsappAdapter: ChannelAdapter<WhatsAppInbound> = {
+  channel: "whatsapp",
+  inboundSchema,
+
+  parseInbound(inbound) {
+    // Only the first attachment is verified
+    const mediaUrl = inbound.numMedia > 0 ? inbound.mediaUrls?.[0] : undefined;
+    const mimeType = inbound.mediaContentTypes?.[0];
+
+    return {
+      channel: "whatsapp",
+      chatId: inbound.from,
+      messageId: inbound.messageId,
+      senderId: inbound.from,
+      senderName: inbound.from,
+      text: inbound.body || "",
+      // Twilio does not say whether a message was forwarded
+      isForwarded: false,
+      media: mediaUrl
+        ? {
+            kind:
+              !mimeType || mimeType.startsWith("image/") ? "photo" : "document",
+            ref: mediaUrl,
+            mimeType,
+          }
+        : undefined,
+      threadId: `whatsapp-${inbound.from}-${Date.now()}`,
+    };
+  },
+
+  async downloadMedia(message) {
+    const media = message.media;
+    if (!media) throw new Error("Message has no media");
+    const response = await fetch(media.ref, {
+      headers: { Authorization: twilioAuthorization() },
+    });
+    if (!response.ok)
+      throw new Error(
+        `Failed to download media from Twilio: ${response.status}`,
+      );
+    return {
+      bytes: Buffer.from(await response.arrayBuffer()),
+      mimeType:
+        media.mimeType || response.headers.get("content-type") || "image/jpeg",
+    };
+  },
+
+  // WhatsApp renders *bold* itself, so the markdown option changes nothing here
+  async sendReply(target, text) {
+    const formData = new URLSearchParams();
+    formData.append(
+      "From",
+      process.env.TWILIO_WHATSAPP_NUMBER || "whatsapp:+14155238886",
+    );
+    formData.append("To", target.chatId);
+    formData.append("Body", text);
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${process.env.TWILIO_ACCOUNT_SID}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: twilioAuthorization(),
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: formData.toString(),
+      },
+    );
+    const responseData = await response.json();
+    if (!response.ok)
+      throw new Error(`Twilio API Error: ${JSON.stringify(responseData)}`);
+    return responseData.sid;
+  },
+
+  async sendError(target, text = ERROR_REPLY) {
+    await this.sendReply(target, text);
+  },
+
+  formatVerdict: (verdict) => renderVerdict(verdict, "whatsapp"),
+};
@@ -0,0 +1,372 @@
+import * as crypto from "crypto";
+import { z } from "zod";
+import { sharedLibSQLClient } from "../storage";
+import {
+  parseStoredVerdict,
+  verdictSchema,
+  type Verdict,
+} from "../verdicts/verdict";
+import type { Channel } from "../verification/incomingMessage";
+import {
+  bandKeys,
+  estimateSimilarity,
+  fingerprintText,
+  type TextFingerprint,
+} from "./fingerprint";
+import { hammingDistance, imageHash } from "./imageHash";
+
+const CLUSTERS_TABLE = "claim_clusters";
+const BANDS_TABLE = "claim_cluster_bands";
+const SIGHTINGS_TABLE = "claim_cluster_sightings";
+
+// Estimated Jaccard similarity of character shingles above which two texts are one rumor; retyped
+// copies score 0.55-0.7, the same sentence with "cancelled" for "postponed" around 0.5
+const SIMILARITY_THRESHOLD = 0.55;
+
+// Differing bits out of 256 below which two images are copies of one screenshot
+const MAX_IMAGE_DISTANCE = 24;
+
+// Only clusters seen this recently are matched; a rumor that resurfaces weeks later is checked afresh
+const CLUSTER_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How long a verdict is reused for copies of the same rumor before it is verified again
+const VERDICT_TTL_MS =
+  Number(process.env.CLAIM_VERDICT_TTL_MINUTES || 60) * 60 * 1000;
+
+export const claimClusterSchema = z.object({
+  id: z.string(),
+  sampleText: z
+    .string()
+    .describe("The first message of the cluster, shortened"),
+  imageHash: z.string().optional(),
+  // Messages seen, and the distinct chats they came from: how far the rumor has spread
+  size: z.number(),
+  chatCount: z.number(),
+  firstSeen: z.string(),
+  lastSeen: z.string(),
+  verdict: verdictSchema.optional(),
+  verdictAt: z.string().optional(),
+});
+
+export type ClaimCluster = z.infer<typeof claimClusterSchema>;
+
+export interface ClaimSighting {
+  channel: Channel;
+  chatId: string;
+  messageId?: string;
+  seenAt: string;
+}
+
+export interface IncomingClaim {
+  text: string;
+  image?: { data: Buffer; mimeType?: string };
+  channel: ClaimSighting["channel"];
+  chatId: string | number;
+  messageId?: string | number;
+}
+
+let schemaReady: Promise<void> | null = null;
+
+// Verifications running right now, so copies arriving seconds apart wait for one agent run
+const inFlight = new Map<string, Promise<Verdict | undefined>>();
+
+function ensureClusterTables(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = sharedLibSQLClient
+      .batch(
+        [
+          `CREATE TABLE IF NOT EXISTS ${CLUSTERS_TABLE}
+            (id TEXT PRIMARY KEY, sample_text TEXT NOT NULL, signature TEXT, numbers TEXT, image_hash TEXT,
+             size INTEGER NOT NULL DEFAULT 0, chat_count INTEGER NOT NULL DEFAULT 0, first_seen TEXT NOT NULL,
+             last_seen TEXT NOT NULL, verdict TEXT, verdict_at TEXT)`,
+          `CREATE TABLE IF NOT EXISTS ${BANDS_TABLE}
+            (band TEXT NOT NULL, cluster_id TEXT NOT NULL, PRIMARY KEY (band, cluster_id))`,
+          `CREATE TABLE IF NOT EXISTS ${SIGHTINGS_TABLE}
+            (cluster_id TEXT NOT NULL, channel TEXT NOT NULL, chat_id TEXT NOT NULL, message_id TEXT NOT NULL,
+             seen_at TEXT NOT NULL, PRIMARY KEY (cluster_id, channel, chat_id, message_id))`,
+          `CREATE INDEX IF NOT EXISTS idx_${CLUSTERS_TABLE}_last_seen ON ${CLUSTERS_TABLE} (last_seen)`,
+        ],
+        "write",
+      )
+      .then(() => undefined)
+      .catch((error) => {
+        schemaReady = null;
+        throw error;
+      });
+  }
+  return schemaReady;
+}
+
+function optionalText(value: unknown): string | undefined {
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+function toCluster(row: Record<string, unknown>): ClaimCluster {
+  return {
+    id: String(row.id),
+    sampleText: String(row.sample_text),
+    imageHash: optionalText(row.image_hash),
+    size: Number(row.size),
+    chatCount: Number(row.chat_count),
+    firstSeen: String(row.first_seen),
+    lastSeen: String(row.last_seen),
+    verdict:
+      row.verdict === null
+        ? undefined
+        : parseStoredVerdict(String(row.verdict)),
+    verdictAt: optionalText(row.verdict_at),
+  };
+}
+
+async function findCluster(
+  text: TextFingerprint | undefined,
+  image: string | undefined,
+): Promise<Record<string, unknown> | undefined> {
+  const since = new Date(Date.now() - CLUSTER_WINDOW_MS).toISOString();
+
+  if (image) {
+    const result = await sharedLibSQLClient.execute({
+      sql: `SELECT * FROM ${CLUSTERS_TABLE} WHERE image_hash IS NOT NULL AND last_seen >= ?`,
+      args: [since],
+    });
+    let best: { row: Record<string, unknown>; distance: number } | undefined;
+    for (const row of result.rows) {
+      const distance = hammingDistance(image, String(row.image_hash));
+      if (distance <= MAX_IMAGE_DISTANCE && (!best || distance < best.distance))
+        best = { row, distance };
+    }
+    if (best) return best.row;
+  }
+
+  if (!text) return undefined;
+  const keys = bandKeys(text.signature);
+  const result = await sharedLibSQLClient.execute({
+    sql: `SELECT DISTINCT c.* FROM ${BANDS_TABLE} b JOIN ${CLUSTERS_TABLE} c ON c.id = b.cluster_id
+      WHERE b.band IN (${keys.map(() => "?").join(", ")}) AND c.last_seen >= ?`,
+    args: [...keys, since],
+  });
+
+  let best: { row: Record<string, unknown>; similarity: number } | undefined;
+  for (const row of result.rows) {
+    // A different screenshot under a similar caption is a different claim
+    if (image && row.image_hash !== null) continue;
+    // So is the same sentence with another date or circular number
+    if (String(row.numbers) !== JSON.stringify(text.numbers)) continue;
+    const similarity = estimateSimilarity(
+      text.signature,
+      JSON.parse(String(row.signature)),
+    );
+    if (
+      similarity >= SIMILARITY_THRESHOLD &&
+      (!best || similarity > best.similarity)
+    )
+      best = { row, similarity };
+  }
+  return best?.row;
+}
+
+/**
+ * Fingerprints a message (MinHash of its normalized text, perceptual hash of its image) and files
+ * it under the cluster of an earlier near-duplicate, or starts a new cluster. Returns undefined
+ * when the message is too short and has no image, as such messages cannot be told apart.
+ */
+export async function recordClaim(
+  claim: IncomingClaim,
+  logger?: any,
+): Promise<ClaimCluster | undefined> {
+  const text = fingerprintText(claim.text);
+  let image: string | undefined;
+  if (claim.image) {
+    try {
+      image = imageHash(claim.image.data, claim.image.mimeType);
+    } catch (error: any) {
+      logger?.warn("⚠️ [Claim Clusters] Could not hash image", {
+        error: error.message,
+      });
+    }
+  }
+  if (!text && !image) return undefined;
+
+  await ensureClusterTables();
+  const now = new Date().toISOString();
+  const row = await findCluster(text, image);
+  const clusterId = row ? String(row.id) : crypto.randomUUID();
+
+  if (!row) {
+    await sharedLibSQLClient.batch(
+      [
+        {
+          sql: `INSERT INTO ${CLUSTERS_TABLE} (id, sample_text, signature, numbers, image_hash, first_seen, last_seen)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          args: [
+            clusterId,
+            claim.text.slice(0, 500),
+            text ? JSON.stringify(text.signature) : null,
+            text ? JSON.stringify(text.numbers) : null,
+            image ?? null,
+            now,
+            now,
+          ],
+        },
+        ...(text ? bandKeys(text.signature) : []).map((band) => ({
+          sql: `INSERT OR IGNORE INTO ${BANDS_TABLE} (band, cluster_id) VALUES (?, ?)`,
+          args: [band, clusterId],
+        })),
+      ],
+      "write",
+    );
+  }
+
+  await sharedLibSQLClient.batch(
+    [
+      {
+        sql: `INSERT OR IGNORE INTO ${SIGHTINGS_TABLE} (cluster_id, channel, chat_id, message_id, seen_at)
+          VALUES (?, ?, ?, ?, ?)`,
+        args: [
+          clusterId,
+          claim.channel,
+          String(claim.chatId),
+          String(claim.messageId ?? now),
+          now,
+        ],
+      },
+      {
+        sql: `UPDATE ${CLUSTERS_TABLE} SET
+            size = (SELECT COUNT(*) FROM ${SIGHTINGS_TABLE} WHERE cluster_id = ?),
+            chat_count = (SELECT COUNT(DISTINCT channel || ':' || chat_id) FROM ${SIGHTINGS_TABLE} WHERE cluster_id = ?),
+            image_hash = COALESCE(image_hash, ?),
+            last_seen = ?
+          WHERE id = ?`,
+        args: [clusterId, clusterId, image ?? null, now, clusterId],
+      },
+    ],
+    "write",
+  );
+
+  const updated = await sharedLibSQLClient.execute({
+    sql: `SELECT * FROM ${CLUSTERS_TABLE} WHERE id = ?`,
+    args: [clusterId],
+  });
+  const cluster = toCluster(updated.rows[0]);
+  logger?.info(
+    row
+      ? "🔁 [Claim Clusters] Near-duplicate of a known claim"
+      : "🆕 [Claim Clusters] New claim",
+    {
+      clusterId,
+      size: cluster.size,
+      chatCount: cluster.chatCount,
+    },
+  );
+  return cluster;
+}
+
+export async function saveClusterVerdict(
+  clusterId: string,
+  verdict: Verdict,
+): Promise<void> {
+  await ensureClusterTables();
+  await sharedLibSQLClient.execute({
+    sql: `UPDATE ${CLUSTERS_TABLE} SET verdict = ?, verdict_at = ? WHERE id = ?`,
+    args: [JSON.stringify(verdict), new Date().toISOString(), clusterId],
+  });
+}
+
+// A skip reflects one chat's gatekeeper rules, not the claim, so it is neither stored nor shared
+function isConclusive(verdict: Verdict | undefined): verdict is Verdict {
+  return !!verdict && verdict.label !== "SKIPPED";
+}
+
+/**
+ * The cluster's verdict if it is younger than CLAIM_VERDICT_TTL_MINUTES and may be reused as is.
+ */
+export function freshVerdict(cluster: ClaimCluster): Verdict | undefined {
+  if (!cluster.verdict || !cluster.verdictAt) return undefined;
+  return Date.now() - new Date(cluster.verdictAt).getTime() < VERDICT_TTL_MS
+    ? cluster.verdict
+    : undefined;
+}
+
+/**
+ * Runs `verify` unless the cluster already has a verdict younger than CLAIM_VERDICT_TTL_MINUTES or
+ * another copy of the rumor is being verified right now, in which case that verdict is reused.
+ * Verdicts other than SKIPPED are stored on the cluster for the copies that follow.
+ */
+export async function verifyOnce(
+  cluster: ClaimCluster | undefined,
+  verify: () => Promise<Verdict | undefined>,
+  logger?: any,
+): Promise<{ verdict: Verdict | undefined; reused: boolean }> {
+  if (!cluster) return { verdict: await verify(), reused: false };
+
+  const fresh = freshVerdict(cluster);
+  if (fresh) return { verdict: fresh, reused: true };
+
+  const pending = inFlight.get(cluster.id);
+  if (pending) {
+    const verdict = await pending.catch(() => undefined);
+    // If that run failed or was skipped, verify this copy ourselves
+    if (isConclusive(verdict)) return { verdict, reused: true };
+  }
+
+  const run = verify();
+  inFlight.set(cluster.id, run);
+  try {
+    const verdict = await run;
+    if (isConclusive(verdict)) {
+      await saveClusterVerdict(cluster.id, verdict).catch((error) =>
+        logger?.warn("⚠️ [Claim Clusters] Could not store verdict", {
+          clusterId: cluster.id,
+          error: error.message,
+        }),
+      );
+    }
+    return { verdict, reused: false };
+  } finally {
+    if (inFlight.get(cluster.id) === run) inFlight.delete(cluster.id);
+  }
+}
+
+/**
+ * Clusters seen since `since`, most widespread first.
+ */
+export async function listClaimClusters({
+  since,
+  limit = 50,
+}: { since?: string; limit?: number } = {}): Promise<ClaimCluster[]> {
+  await ensureClusterTables();
+  const result = await sharedLibSQLClient.execute({
+    sql: `SELECT * FROM ${CLUSTERS_TABLE} WHERE last_seen >= ? ORDER BY chat_count DESC, size DESC LIMIT ?`,
+    args: [since ?? "", limit],
+  });
+  return result.rows.map(toCluster);
+}
+
+export async function getClaimCluster(
+  clusterId: string,
+): Promise<(ClaimCluster & { sightings: ClaimSighting[] }) | undefined> {
+  await ensureClusterTables();
+  const [cluster, sightings] = await sharedLibSQLClient.batch(
+    [
+      {
+        sql: `SELECT * FROM ${CLUSTERS_TABLE} WHERE id = ?`,
+        args: [clusterId],
+      },
+      {
+        sql: `SELECT * FROM ${SIGHTINGS_TABLE} WHERE cluster_id = ? ORDER BY seen_at`,
+        args: [clusterId],
+      },
+    ],
+    "read",
+  );
+  if (!cluster.rows[0]) return undefined;
+  return {
+    ...toCluster(cluster.rows[0]),
+    sightings: sightings.rows.map((row) => ({
+      channel: String(row.channel) as ClaimSighting["channel"],
+      chatId: String(row.chat_id),
+      messageId: String(row.message_id),
+      seenAt: String(row.seen_at),
+    })),
+  };
+}
@@ -0,0 +1,127 @@
+import {
+  isDevanagari,
+  tokenize,
+  transliterate,
+} from "../gatekeeper/normalization";
+
+// Signature length and its split into LSH bands: 32 bands of 4 rows make two texts with a Jaccard
+// similarity of 0.55 share a band with near certainty, while unrelated texts rarely do
+const NUM_HASHES = 128;
+const BAND_ROWS = 4;
+
+// Character shingle length; four letters survive typos ("univercity") and abbreviations ("Dec")
+const SHINGLE_SIZE = 4;
+
+// Shorter texts ("hi", "ok thanks") are too generic to fingerprint
+const MIN_FINGERPRINT_CHARS = 20;
+
+// Words dropped before shingling: forwarding noise that differs between copies of the same rumor
+const NOISE_WORDS = new Set([
+  "forwarded",
+  "fwd",
+  "fw",
+  "many",
+  "times",
+  "pls",
+  "plz",
+  "please",
+  "share",
+  "urgent",
+]);
+
+export interface TextFingerprint {
+  // Normalized text the signature was computed from
+  normalized: string;
+  signature: number[];
+  // Numbers in the text (dates, circular numbers): "postponed to 15th" and "to 25th" are different claims
+  numbers: string[];
+}
+
+// Murmur3's 32-bit finalizer, seeded per hash function
+function mix(value: number, seed: number): number {
+  let h = (value ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) =>
+  mix(i + 1, 0x9e3779b9),
+);
+
+/**
+ * Lowercased words without links, emoji, punctuation or forwarding noise; Devanagari is romanized so
+ * a rumor retyped in Hinglish still lands near the original.
+ */
+export function normalizeClaimText(text: string): string {
+  const withoutLinks = text.replace(/\bhttps?:\/\/\S+|\bwww\.\S+/gi, " ");
+  return tokenize(withoutLinks)
+    .map((word) => (isDevanagari(word) ? transliterate(word) : word))
+    .filter((word) => !NOISE_WORDS.has(word))
+    .join(" ");
+}
+
+function shingles(normalized: string): Set<string> {
+  const set = new Set<string>();
+  if (normalized.length <= SHINGLE_SIZE) {
+    set.add(normalized);
+    return set;
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= normalized.length; i++) {
+    set.add(normalized.slice(i, i + SHINGLE_SIZE));
+  }
+  return set;
+}
+
+/**
+ * MinHash signature of the text's character shingles, or undefined when the text is too short to
+ * tell one claim from another.
+ */
+export function fingerprintText(text: string): TextFingerprint | undefined {
+  const normalized = normalizeClaimText(text);
+  if (normalized.length < MIN_FINGERPRINT_CHARS) return undefined;
+
+  const hashes = [...shingles(normalized)].map(fnv1a);
+  const signature = SEEDS.map((seed) => {
+    let min = 0xffffffff;
+    for (const hash of hashes) {
+      const mixed = mix(hash, seed);
+      if (mixed < min) min = mixed;
+    }
+    return min;
+  });
+
+  const numbers = [...new Set(normalized.match(/\d+/g) ?? [])].sort();
+  return { normalized, signature, numbers };
+}
+
+// Share of signature positions that agree, an estimate of the Jaccard similarity of the shingle sets
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++;
+  return same / a.length;
+}
+
+// Locality-sensitive hashing keys: texts that share any band are candidates for a full comparison
+export function bandKeys(signature: number[]): string[] {
+  const keys: string[] = [];
+  for (
+    let start = 0;
+    start + BAND_ROWS <= signature.length;
+    start += BAND_ROWS
+  ) {
+    const band = signature.slice(start, start + BAND_ROWS).join(",");
+    keys.push(`${start / BAND_ROWS}:${fnv1a(band).toString(16)}`);
+  }
+  return keys;
+}
@@ -0,0 +1,263 @@
+import jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  // RGBA, four bytes per pixel
+  data: Uint8Array;
+}
+
+// Part of the image to hash, as fractions of its width and height
+interface Region {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Screenshots are rarely larger than this; bigger images are not worth decoding just to hash
+const MAX_DECODE_MEGAPIXELS = 40;
+
+// The image is shrunk to this many grey cells per side before the DCT
+const DCT_SIZE = 64;
+
+// Low-frequency DCT coefficients kept per side: the layout down to blocks of text lines, not the
+// letters. Fewer make notices printed from the same template look alike
+const HASH_SIZE = 16;
+
+// Grey levels a pixel must differ from the background by to count as content rather than margin
+const CONTENT_CONTRAST = 24;
+
+// Crops of the content hashed besides all of it, as fractions of the content box, so a copy with its
+// edges, status bar or caption strip cut off still lands next to one of them
+const CROP_REGIONS: Region[] = [
+  { left: 0.05, top: 0.05, right: 0.95, bottom: 0.95 },
+  { left: 0.1, top: 0.1, right: 0.9, bottom: 0.9 },
+  { left: 0, top: 0.1, right: 1, bottom: 1 },
+  { left: 0, top: 0, right: 1, bottom: 0.9 },
+  { left: 0.1, top: 0, right: 1, bottom: 1 },
+  { left: 0, top: 0, right: 0.9, bottom: 1 },
+];
+
+function decodeImage(
+  buffer: Buffer,
+  mimeType?: string,
+): DecodedImage | undefined {
+  const isPng =
+    mimeType === "image/png" ||
+    buffer.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  const isJpeg =
+    mimeType === "image/jpeg" || (buffer[0] === 0xff && buffer[1] === 0xd8);
+
+  if (isPng) {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+  if (isJpeg) {
+    const image = jpeg.decode(buffer, {
+      useTArray: true,
+      maxResolutionInMP: MAX_DECODE_MEGAPIXELS,
+    });
+    return { width: image.width, height: image.height, data: image.data };
+  }
+  return undefined;
+}
+
+function greyAt(image: DecodedImage, x: number, y: number): number {
+  const offset = (y * image.width + x) * 4;
+  return (
+    0.299 * image.data[offset] +
+    0.587 * image.data[offset + 1] +
+    0.114 * image.data[offset + 2]
+  );
+}
+
+/**
+ * Bounding box of whatever differs from the colour of the image's corners, so margins a copy has
+ * (or has lost) around the same notice do not shift the hash. The whole image when nothing stands out.
+ */
+function contentRegion(image: DecodedImage): Region {
+  const corners = [
+    greyAt(image, 0, 0),
+    greyAt(image, image.width - 1, 0),
+    greyAt(image, 0, image.height - 1),
+    greyAt(image, image.width - 1, image.height - 1),
+  ].sort((a, b) => a - b);
+  const background = (corners[1] + corners[2]) / 2;
+
+  // Every few pixels is enough to find the edges of the content
+  const step = Math.max(
+    1,
+    Math.floor(Math.min(image.width, image.height) / 400),
+  );
+  let left = image.width;
+  let right = -1;
+  let top = image.height;
+  let bottom = -1;
+  for (let y = 0; y < image.height; y += step) {
+    for (let x = 0; x < image.width; x += step) {
+      if (Math.abs(greyAt(image, x, y) - background) < CONTENT_CONTRAST)
+        continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+  if (right <= left || bottom <= top)
+    return { left: 0, top: 0, right: 1, bottom: 1 };
+  return {
+    left: left / image.width,
+    top: top / image.height,
+    right: Math.min(1, (right + step) / image.width),
+    bottom: Math.min(1, (bottom + step) / image.height),
+  };
+}
+
+// A region given as fractions of another one, in fractions of the image
+function within(outer: Region, inner: Region): Region {
+  const width = outer.right - outer.left;
+  const height = outer.bottom - outer.top;
+  return {
+    left: outer.left + inner.left * width,
+    top: outer.top + inner.top * height,
+    right: outer.left + inner.right * width,
+    bottom: outer.top + inner.bottom * height,
+  };
+}
+
+/**
+ * Shrinks a region of the image to size x size grey levels by averaging every source pixel that
+ * falls in each cell, which evens out JPEG noise and resizing differences between copies.
+ */
+function toGreyGrid(
+  image: DecodedImage,
+  region: Region,
+  size: number,
+): number[] {
+  const x0 = Math.floor(region.left * image.width);
+  const x1 = Math.max(x0 + 1, Math.floor(region.right * image.width));
+  const y0 = Math.floor(region.top * image.height);
+  const y1 = Math.max(y0 + 1, Math.floor(region.bottom * image.height));
+
+  const sums = new Array(size * size).fill(0);
+  const counts = new Array(size * size).fill(0);
+  for (let y = y0; y < y1; y++) {
+    const cellY = Math.min(size - 1, Math.floor(((y - y0) * size) / (y1 - y0)));
+    for (let x = x0; x < x1; x++) {
+      const cellX = Math.min(
+        size - 1,
+        Math.floor(((x - x0) * size) / (x1 - x0)),
+      );
+      sums[cellY * size + cellX] += greyAt(image, x, y);
+      counts[cellY * size + cellX] += 1;
+    }
+  }
+  return sums.map((sum, i) => sum / (counts[i] || 1));
+}
+
+// cos((2x + 1) * u * pi / 2N) for the kept frequencies u, computed once
+const COSINES = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Array.from({ length: DCT_SIZE }, (_, x) =>
+    Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)),
+  ),
+);
+
+function lowFrequencies(grid: number[]): number[] {
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) {
+        for (let x = 0; x < DCT_SIZE; x++)
+          sum += grid[y * DCT_SIZE + x] * COSINES[u][x] * COSINES[v][y];
+      }
+      coefficients.push(sum);
+    }
+  }
+  return coefficients;
+}
+
+/**
+ * 256-bit DCT perceptual hash of a region as 64 hex digits: each bit says whether a low-frequency
+ * coefficient is above their median. Undefined for blank regions, where every coefficient is noise
+ * and the hash would match any other blank image.
+ */
+function regionHash(image: DecodedImage, region: Region): string | undefined {
+  const coefficients = lowFrequencies(toGreyGrid(image, region, DCT_SIZE));
+  // The first coefficient is the average brightness; it says nothing about the layout
+  const layout = coefficients.slice(1);
+  const sorted = [...layout].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  // Less than a grey level of variation across the region
+  if (sorted[sorted.length - 1] - sorted[0] < DCT_SIZE * DCT_SIZE)
+    return undefined;
+
+  let hex = "";
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = i; bit < i + 4; bit++)
+      nibble = (nibble << 1) | (bit > 0 && coefficients[bit] > median ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Perceptual hash of the whole image. Re-saved, resized or recompressed copies of a screenshot
+ * differ in a few bits at most. Returns undefined for formats we cannot decode (WebP, GIF) and for
+ * blank images.
+ */
+export function imageHash(
+  buffer: Buffer,
+  mimeType?: string,
+): string | undefined {
+  return imageHashes(buffer, mimeType)?.[0];
+}
+
+/**
+ * The hash of the image's content followed by the hashes of a few crops of it; compare two such
+ * lists with cropTolerantDistance to match copies whose margins or edges were cut off.
+ */
+export function imageHashes(
+  buffer: Buffer,
+  mimeType?: string,
+): string[] | undefined {
+  const image = decodeImage(buffer, mimeType);
+  if (!image || image.width === 0 || image.height === 0) return undefined;
+
+  const content = contentRegion(image);
+  const whole = regionHash(image, content);
+  if (!whole) return undefined;
+  const crops = CROP_REGIONS.map((region) =>
+    regionHash(image, within(content, region)),
+  ).filter((hash): hash is string => !!hash);
+  return [whole, ...crops];
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Smallest distance between either image as a whole and the other one or its crops, so it does not
+ * matter which of the two was cut down. Crops are not compared with crops, which would make
+ * unrelated images with similar middles look alike.
+ */
+export function cropTolerantDistance(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return Infinity;
+  let best = Infinity;
+  for (const hash of b) best = Math.min(best, hammingDistance(a[0], hash));
+  for (const hash of a) best = Math.min(best, hammingDistance(hash, b[0]));
+  return best;
+}
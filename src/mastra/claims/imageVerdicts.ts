@@ -0,0 +1,217 @@
+import * as crypto from "crypto";
+import { sharedLibSQLClient } from "../storage";
+import { parseStoredVerdict, type Verdict } from "../verdicts/verdict";
+import { cropTolerantDistance, imageHashes } from "./imageHash";
+
+const IMAGES_TABLE = "image_verdicts";
+const FILES_TABLE = "image_verdict_files";
+
+// Differing bits out of 256 below which two images are copies of one screenshot. Different notices
+// printed from the same template differ by 50 bits and more
+const MAX_IMAGE_DISTANCE = 28;
+
+// How long an image's analysis and verdict are reused. Fake circulars resurface for days, so this
+// is longer than the verdict TTL for text claims
+const IMAGE_VERDICT_TTL_MS =
+  Number(process.env.IMAGE_VERDICT_TTL_HOURS || 72) * 60 * 60 * 1000;
+
+// What image-analysis read from the picture, as returned by imageAnalysisTool
+export interface ImageEvidence {
+  extractedText: string;
+  imageDescription: string;
+  containsOfficial: boolean;
+  confidence: number;
+}
+
+export interface ImageRef {
+  data?: Buffer;
+  mimeType?: string;
+  // Telegram's file_unique_id, the same for every forward of one upload
+  fileUniqueId?: string;
+}
+
+export interface KnownImage {
+  id: string;
+  verdict?: Verdict;
+  evidence?: ImageEvidence;
+  analyzedAt: string;
+  // Times the stored analysis has been reused
+  hits: number;
+  // 0 when found by Telegram file id
+  distance: number;
+}
+
+let schemaReady: Promise<void> | null = null;
+
+function ensureImageTables(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = sharedLibSQLClient
+      .batch(
+        [
+          `CREATE TABLE IF NOT EXISTS ${IMAGES_TABLE}
+            (id TEXT PRIMARY KEY, hashes TEXT NOT NULL, verdict TEXT, evidence TEXT, analyzed_at TEXT NOT NULL,
+             hits INTEGER NOT NULL DEFAULT 0)`,
+          `CREATE TABLE IF NOT EXISTS ${FILES_TABLE} (file_unique_id TEXT PRIMARY KEY, image_id TEXT NOT NULL)`,
+          `CREATE INDEX IF NOT EXISTS idx_${IMAGES_TABLE}_analyzed_at ON ${IMAGES_TABLE} (analyzed_at)`,
+        ],
+        "write",
+      )
+      .then(() => undefined)
+      .catch((error) => {
+        schemaReady = null;
+        throw error;
+      });
+  }
+  return schemaReady;
+}
+
+function toKnownImage(
+  row: Record<string, unknown>,
+  distance: number,
+): KnownImage {
+  return {
+    id: String(row.id),
+    verdict:
+      row.verdict === null
+        ? undefined
+        : parseStoredVerdict(String(row.verdict)),
+    evidence:
+      row.evidence === null ? undefined : JSON.parse(String(row.evidence)),
+    analyzedAt: String(row.analyzed_at),
+    hits: Number(row.hits),
+    distance,
+  };
+}
+
+function hashesOf(image: ImageRef, logger?: any): string[] | undefined {
+  if (!image.data) return undefined;
+  try {
+    return imageHashes(image.data, image.mimeType);
+  } catch (error: any) {
+    logger?.warn("⚠️ [Image Verdicts] Could not hash image", {
+      error: error.message,
+    });
+    return undefined;
+  }
+}
+
+async function findRow(
+  image: ImageRef,
+  hashes: string[] | undefined,
+): Promise<{ row: Record<string, unknown>; distance: number } | undefined> {
+  const since = new Date(Date.now() - IMAGE_VERDICT_TTL_MS).toISOString();
+
+  if (image.fileUniqueId) {
+    const result = await sharedLibSQLClient.execute({
+      sql: `SELECT i.* FROM ${FILES_TABLE} f JOIN ${IMAGES_TABLE} i ON i.id = f.image_id
+        WHERE f.file_unique_id = ? AND i.analyzed_at >= ?`,
+      args: [image.fileUniqueId, since],
+    });
+    if (result.rows[0]) return { row: result.rows[0], distance: 0 };
+  }
+
+  if (!hashes) return undefined;
+  const result = await sharedLibSQLClient.execute({
+    sql: `SELECT * FROM ${IMAGES_TABLE} WHERE analyzed_at >= ?`,
+    args: [since],
+  });
+  let best: { row: Record<string, unknown>; distance: number } | undefined;
+  for (const row of result.rows) {
+    const distance = cropTolerantDistance(
+      hashes,
+      JSON.parse(String(row.hashes)),
+    );
+    if (distance <= MAX_IMAGE_DISTANCE && (!best || distance < best.distance))
+      best = { row, distance };
+  }
+  return best;
+}
+
+/**
+ * Looks up an image analyzed within IMAGE_VERDICT_TTL_HOURS: by Telegram file id when given, which
+ * needs no download, otherwise by perceptual hash, which also matches re-saved, recompressed and
+ * slightly cropped copies.
+ */
+export async function findImageVerdict(
+  image: ImageRef,
+  logger?: any,
+): Promise<KnownImage | undefined> {
+  const hashes = hashesOf(image, logger);
+  if (!image.fileUniqueId && !hashes) return undefined;
+
+  await ensureImageTables();
+  const match = await findRow(image, hashes);
+  if (!match) return undefined;
+
+  await sharedLibSQLClient.execute({
+    sql: `UPDATE ${IMAGES_TABLE} SET hits = hits + 1 WHERE id = ?`,
+    args: [String(match.row.id)],
+  });
+  const known = toKnownImage(match.row, match.distance);
+  logger?.info("♻️ [Image Verdicts] Image was analyzed before", {
+    imageId: known.id,
+    distance: known.distance,
+    analyzedAt: known.analyzedAt,
+    hasVerdict: !!known.verdict,
+  });
+  return known;
+}
+
+/**
+ * Stores the analysis and/or verdict of an image under its perceptual hashes (and Telegram file id)
+ * so later copies can reuse them. Updates the entry of an earlier copy when there is one; fields left
+ * out keep their stored value, and an image stored without new results just gets its file id linked.
+ */
+export async function rememberImage(
+  image: ImageRef,
+  result: { verdict?: Verdict; evidence?: ImageEvidence },
+  logger?: any,
+): Promise<void> {
+  const hashes = hashesOf(image, logger);
+  if (!image.fileUniqueId && !hashes) return;
+
+  await ensureImageTables();
+  const match = await findRow(image, hashes);
+  if (!match && !hashes) return;
+
+  const id = match ? String(match.row.id) : crypto.randomUUID();
+  const fresh = !!(result.verdict || result.evidence);
+  const statements = [];
+  if (!match) {
+    statements.push({
+      sql: `INSERT INTO ${IMAGES_TABLE} (id, hashes, verdict, evidence, analyzed_at) VALUES (?, ?, ?, ?, ?)`,
+      args: [
+        id,
+        JSON.stringify(hashes),
+        result.verdict ? JSON.stringify(result.verdict) : null,
+        result.evidence ? JSON.stringify(result.evidence) : null,
+        new Date().toISOString(),
+      ],
+    });
+  } else if (fresh) {
+    statements.push({
+      sql: `UPDATE ${IMAGES_TABLE} SET verdict = COALESCE(?, verdict), evidence = COALESCE(?, evidence), analyzed_at = ?
+        WHERE id = ?`,
+      args: [
+        result.verdict ? JSON.stringify(result.verdict) : null,
+        result.evidence ? JSON.stringify(result.evidence) : null,
+        new Date().toISOString(),
+        id,
+      ],
+    });
+  }
+  if (image.fileUniqueId) {
+    statements.push({
+      sql: `INSERT OR REPLACE INTO ${FILES_TABLE} (file_unique_id, image_id) VALUES (?, ?)`,
+      args: [image.fileUniqueId, id],
+    });
+  }
+  if (statements.length === 0) return;
+
+  await sharedLibSQLClient.batch(statements, "write");
+  logger?.info("💾 [Image Verdicts] Stored image analysis", {
+    imageId: id,
+    hasVerdict: !!result.verdict,
+    hasEvidence: !!result.evidence,
+  });
+}
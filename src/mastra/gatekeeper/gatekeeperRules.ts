@@ -0,0 +1,411 @@
+import { z } from "zod";
+import { sharedLibSQLClient } from "../storage";
+
+const RULES_TABLE = "gatekeeper_rules";
+
+// Chat ID under which admins can override the built-in defaults for every chat at once
+export const DEFAULT_PROFILE_ID = "default";
+
+const DEFAULT_CASUAL_WORDS = [
+  "hi",
+  "hello",
+  "hey",
+  "thanks",
+  "thank",
+  "ok",
+  "okay",
+  "bot",
+  "bye",
+  "good",
+  "nice",
+  "cool",
+  "yes",
+  "no",
+  "maybe",
+  "sure",
+  "great",
+  "awesome",
+  "lol",
+  "haha",
+  "hmm",
+  "oh",
+  "ah",
+  "wow",
+];
+
+const DEFAULT_PANIC_KEYWORDS = [
+  "postponed",
+  "postpone",
+  "exam",
+  "exams",
+  "syllabus",
+  "leaked",
+  "leak",
+  "cancel",
+  "cancelled",
+  "canceled",
+  "holiday",
+  "holidays",
+  "notice",
+  "timetable",
+  "schedule",
+  "fake",
+  "true?",
+  "is it true",
+  "confirm",
+  "rumor",
+  "rumour",
+  "official",
+  "circular",
+  "announcement",
+  "deadline",
+  "extended",
+  "extension",
+  "results",
+  "result",
+  "marks",
+  "grade",
+  "grades",
+  "revaluation",
+  "supplementary",
+  "backlog",
+  "attendance",
+  "semester",
+  "fee",
+  "fees",
+  "admission",
+  "placement",
+  "internship",
+  "hostel",
+  "mess",
+  "library",
+  "lab",
+  "practical",
+  "viva",
+  "project",
+  "thesis",
+  "dissertation",
+  "convocation",
+  "degree",
+  "certificate",
+  "transcript",
+  "migration",
+  "transfer",
+  "re-exam",
+  "reexam",
+  "compartment",
+  "detained",
+  "suspended",
+  "expelled",
+  "rusticated",
+];
+
+const DEFAULT_URGENCY_PHRASES = [
+  "share immediately",
+  "share this",
+  "share asap",
+  "share with everyone",
+  "forward to all",
+  "forward this",
+  "forward to everyone",
+  "send to all",
+  "urgent",
+  "urgently",
+  "breaking",
+  "before it gets deleted",
+  "100% true",
+  "100% confirmed",
+  "sabko bhejo",
+  "sabko forward karo",
+  "jaldi share karo",
+  "turant share karo",
+  "सबको भेजो",
+  "सबको फॉरवर्ड करो",
+  "जल्दी शेयर करो",
+  "लवकर शेअर करा",
+  "सर्वांना पाठवा",
+];
+
+// "always": verify regardless of content, "keywords": only when the text also has panic keywords,
+// "ignore": treat the message like plain text
+const policySchema = z.enum(["always", "keywords", "ignore"]);
+
+// How much each signal adds to the 0-1 risk score at full strength; negative weights lower it
+const signalWeightsSchema = z.object({
+  keywords: z.number(),
+  urgency: z.number(),
+  forwarded: z.number(),
+  media: z.number(),
+  links: z.number(),
+  suspiciousLinks: z.number(),
+  caps: z.number(),
+  senderHistory: z.number(),
+  casual: z.number(),
+});
+
+// Minimum risk score for each priority; anything below "low" is skipped
+const thresholdsShape = z.object({
+  high: z.number().min(0).max(1),
+  medium: z.number().min(0).max(1),
+  low: z.number().min(0).max(1),
+});
+
+// Out of order, a message could score "high" without ever reaching "medium"
+const thresholdsSchema = thresholdsShape.refine(
+  (t) => t.high >= t.medium && t.medium >= t.low,
+  {
+    message: "Thresholds must satisfy high >= medium >= low",
+  },
+);
+
+export type SignalName = keyof z.infer<typeof signalWeightsSchema>;
+
+export const gatekeeperRulesSchema = z.object({
+  casualWords: z
+    .array(z.string().min(1))
+    .describe("Words that make a short message small talk"),
+  // Messages of at most this many words made only of casual words are skipped
+  casualMaxWords: z.number().int().min(0),
+  panicKeywords: z
+    .array(z.string().min(1))
+    .describe(
+      "Keywords (spelling mistakes tolerated) that trigger verification",
+    ),
+  // Extra Hindi / Marathi / Hinglish spellings per panic keyword, on top of the built-in dictionary
+  keywordAliases: z.record(z.string(), z.array(z.string().min(1))),
+  // Weight per keyword; keywords not listed weigh 1
+  keywordWeights: z.record(z.string(), z.number().min(0)),
+  // Total keyword weight at which the keyword signal reaches full strength
+  highPriorityWeight: z.number().min(0),
+  urgencyPhrases: z
+    .array(z.string().min(1))
+    .describe('Pressure to spread, e.g. "forward to all"'),
+  // Domains besides the official university ones that links may point to without being lookalikes
+  trustedDomains: z.array(z.string().min(1)),
+  // "always" also guarantees media at least high and forwarded messages at least medium priority
+  mediaPolicy: policySchema,
+  forwardedPolicy: policySchema,
+  signalWeights: signalWeightsSchema,
+  thresholds: thresholdsSchema,
+  // Text messages shorter than this are skipped unless media or forwarding already triggered a check
+  minWordCount: z.number().int().min(0),
+});
+
+export type GatekeeperRules = z.infer<typeof gatekeeperRulesSchema>;
+
+// Admins may change single weights or thresholds without restating the rest
+const overrideShape = gatekeeperRulesSchema
+  .extend({
+    signalWeights: signalWeightsSchema.partial(),
+    thresholds: thresholdsShape.partial(),
+  })
+  .partial();
+
+export const gatekeeperRulesOverrideSchema = overrideShape.strict();
+
+export type GatekeeperRulesOverride = z.infer<
+  typeof gatekeeperRulesOverrideSchema
+>;
+
+export const DEFAULT_GATEKEEPER_RULES: GatekeeperRules = {
+  casualWords: DEFAULT_CASUAL_WORDS,
+  casualMaxWords: 3,
+  panicKeywords: DEFAULT_PANIC_KEYWORDS,
+  keywordAliases: {},
+  keywordWeights: {},
+  highPriorityWeight: 1,
+  urgencyPhrases: DEFAULT_URGENCY_PHRASES,
+  trustedDomains: [],
+  mediaPolicy: "always",
+  forwardedPolicy: "always",
+  // One keyword, media or a lookalike link alone reaches "high"; a forwarded message alone reaches "medium"
+  signalWeights: {
+    keywords: 0.6,
+    urgency: 0.25,
+    forwarded: 0.35,
+    media: 0.6,
+    links: 0.15,
+    suspiciousLinks: 0.6,
+    caps: 0.15,
+    senderHistory: 0.2,
+    casual: -0.3,
+  },
+  thresholds: { high: 0.6, medium: 0.35, low: 0.2 },
+  minWordCount: 0,
+};
+
+export interface StoredGatekeeperRules {
+  chatId: string;
+  override: GatekeeperRulesOverride;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+let schemaReady: Promise<void> | null = null;
+let cache: Map<string, StoredGatekeeperRules> | null = null;
+
+function ensureRulesTable(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = sharedLibSQLClient
+      .execute(
+        `CREATE TABLE IF NOT EXISTS ${RULES_TABLE}
+          (chat_id TEXT PRIMARY KEY, rules TEXT NOT NULL, updated_at TEXT NOT NULL, updated_by TEXT)`,
+      )
+      .then(() => undefined)
+      .catch((error) => {
+        schemaReady = null;
+        throw error;
+      });
+  }
+  return schemaReady;
+}
+
+async function loadAll(): Promise<Map<string, StoredGatekeeperRules>> {
+  if (cache) return cache;
+  await ensureRulesTable();
+  const result = await sharedLibSQLClient.execute(
+    `SELECT * FROM ${RULES_TABLE}`,
+  );
+  const loaded = new Map<string, StoredGatekeeperRules>();
+  for (const row of result.rows) {
+    // Fields that no longer exist are dropped; a row that no longer parses at all is ignored, not fatal
+    const parsed = overrideShape.safeParse(JSON.parse(String(row.rules)));
+    if (!parsed.success) continue;
+    loaded.set(String(row.chat_id), {
+      chatId: String(row.chat_id),
+      override: parsed.data,
+      updatedAt: String(row.updated_at),
+      updatedBy: row.updated_by === null ? undefined : String(row.updated_by),
+    });
+  }
+  cache = loaded;
+  return loaded;
+}
+
+function mergedThresholds(
+  stored: Map<string, StoredGatekeeperRules>,
+  chatId?: string,
+) {
+  return {
+    ...DEFAULT_GATEKEEPER_RULES.thresholds,
+    ...stored.get(DEFAULT_PROFILE_ID)?.override.thresholds,
+    ...(chatId === undefined
+      ? undefined
+      : stored.get(chatId)?.override.thresholds),
+  };
+}
+
+/**
+ * Rules for a chat: the built-in defaults, then the stored "default" profile, then the chat's own
+ * overrides. Only the fields an admin changed are stored, so a chat keeps tracking the defaults
+ * for everything else.
+ */
+export async function getGatekeeperRules(
+  chatId?: string | number,
+): Promise<{ rules: GatekeeperRules; profile: string }> {
+  const stored = await loadAll();
+  const globalOverride = stored.get(DEFAULT_PROFILE_ID)?.override;
+  const chatOverride =
+    chatId === undefined ? undefined : stored.get(String(chatId))?.override;
+
+  return {
+    rules: {
+      ...DEFAULT_GATEKEEPER_RULES,
+      ...globalOverride,
+      ...chatOverride,
+      signalWeights: {
+        ...DEFAULT_GATEKEEPER_RULES.signalWeights,
+        ...globalOverride?.signalWeights,
+        ...chatOverride?.signalWeights,
+      },
+      thresholds: mergedThresholds(
+        stored,
+        chatId === undefined ? undefined : String(chatId),
+      ),
+    },
+    profile: chatOverride ? String(chatId) : DEFAULT_PROFILE_ID,
+  };
+}
+
+export async function getStoredGatekeeperRules(
+  chatId: string | number,
+): Promise<StoredGatekeeperRules | undefined> {
+  return (await loadAll()).get(String(chatId));
+}
+
+function mergeOverrides(
+  current: GatekeeperRulesOverride,
+  changes: GatekeeperRulesOverride,
+): GatekeeperRulesOverride {
+  const merged: GatekeeperRulesOverride = { ...current, ...changes };
+  if (current.signalWeights || changes.signalWeights) {
+    merged.signalWeights = {
+      ...current.signalWeights,
+      ...changes.signalWeights,
+    };
+  }
+  if (current.thresholds || changes.thresholds) {
+    merged.thresholds = { ...current.thresholds, ...changes.thresholds };
+  }
+  return merged;
+}
+
+/**
+ * Merges `changes` into the chat's stored overrides. Pass `replace` to drop earlier overrides first.
+ * Throws a ZodError, and stores nothing, if the change leaves this chat's thresholds (or, for the
+ * default profile, any chat's) out of order.
+ */
+export async function updateGatekeeperRules(
+  chatId: string | number,
+  changes: GatekeeperRulesOverride,
+  {
+    replace = false,
+    updatedBy,
+  }: { replace?: boolean; updatedBy?: string } = {},
+): Promise<StoredGatekeeperRules> {
+  const stored = await loadAll();
+  const key = String(chatId);
+  const record: StoredGatekeeperRules = {
+    chatId: key,
+    override: replace
+      ? changes
+      : mergeOverrides(stored.get(key)?.override ?? {}, changes),
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+  };
+
+  const next = new Map(stored).set(key, record);
+  for (const affected of key === DEFAULT_PROFILE_ID ? next.keys() : [key]) {
+    thresholdsSchema.parse(mergedThresholds(next, affected));
+  }
+
+  await sharedLibSQLClient.execute({
+    sql: `INSERT OR REPLACE INTO ${RULES_TABLE} (chat_id, rules, updated_at, updated_by) VALUES (?, ?, ?, ?)`,
+    args: [
+      key,
+      JSON.stringify(record.override),
+      record.updatedAt,
+      updatedBy ?? null,
+    ],
+  });
+  stored.set(key, record);
+  return record;
+}
+
+export async function resetGatekeeperRules(
+  chatId: string | number,
+): Promise<boolean> {
+  const stored = await loadAll();
+  const key = String(chatId);
+  await sharedLibSQLClient.execute({
+    sql: `DELETE FROM ${RULES_TABLE} WHERE chat_id = ?`,
+    args: [key],
+  });
+  return stored.delete(key);
+}
+
+export async function listGatekeeperProfiles(): Promise<
+  StoredGatekeeperRules[]
+> {
+  return [...(await loadAll()).values()];
+}
@@ -0,0 +1,373 @@
+import { levenshteinDistance, phoneticKey, tokenize } from "./normalization";
+
+/**
+ * Hindi, Marathi and Hinglish ways of saying each English panic keyword, in Devanagari and in the
+ * romanized spellings students type. A trailing "*" matches any ending, which covers inflections
+ * such as "छुट्टियाँ" or "ढकलण्यात". Matching goes through phoneticKey, so one spelling per sound is enough,
+ * except for words under five letters ("फीस", "पेपर"), which only match as written.
+ */
+export const BUILTIN_KEYWORD_ALIASES: Record<string, string[]> = {
+  exam: [
+    "परीक्षा",
+    "परिक्षा",
+    "इम्तिहान",
+    "एग्जाम",
+    "एक्जाम",
+    "पेपर",
+    "pariksha",
+    "imtihan",
+    "paper",
+  ],
+  postponed: [
+    "स्थगित",
+    "टल गया",
+    "टल गई",
+    "टाल दी",
+    "टाल दिया",
+    "आगे बढ़ा*",
+    "पुढे ढकल*",
+    "पुढे गेल*",
+    "पोस्टपोन*",
+    "sthagit",
+    "tal gaya",
+    "tal gayi",
+    "taal di",
+    "taal diya",
+    "aage badh*",
+    "pudhe dhakal*",
+  ],
+  cancel: [
+    "रद्द",
+    "कैंसिल*",
+    "कॅन्सल*",
+    "कैन्सल*",
+    "नहीं होगा",
+    "नहीं होगी",
+    "होणार नाही",
+    "radd",
+    "nahi hoga",
+    "nahi hogi",
+  ],
+  leaked: [
+    "लीक",
+    "फुटला",
+    "फुटली",
+    "फुटले",
+    "फूट गया",
+    "फूट गई",
+    "leak",
+    "futla",
+    "futli",
+    "futle",
+  ],
+  holiday: [
+    "छुट्टी*",
+    "अवकाश",
+    "सुट्टी*",
+    "हॉलिडे",
+    "chutti*",
+    "avkash",
+    "sutti*",
+  ],
+  result: ["परिणाम", "निकाल", "रिजल्ट", "रिझल्ट", "parinam", "nikal", "rijalt"],
+  fake: [
+    "फर्जी",
+    "नकली",
+    "खोटा",
+    "खोटी",
+    "खोटे",
+    "farzi",
+    "nakli",
+    "khota",
+    "khoti",
+    "khote",
+  ],
+  "is it true": [
+    "क्या यह सच",
+    "क्या ये सच",
+    "सच है",
+    "खरं आहे",
+    "खरे आहे",
+    "kya ye sach",
+    "kya yeh sach",
+    "sach hai",
+    "khara ahe",
+    "khare ahe",
+  ],
+  notice: ["सूचना", "नोटिस", "सुचना", "suchna", "notis"],
+  circular: ["परिपत्रक", "सर्कुलर", "paripatrak"],
+  timetable: [
+    "समय सारणी",
+    "वेळापत्रक",
+    "टाइमटेबल",
+    "samay sarni",
+    "velapatrak",
+  ],
+  deadline: [
+    "अंतिम तिथि",
+    "अंतिम तारीख",
+    "आखिरी तारीख",
+    "शेवटची तारीख",
+    "antim tithi",
+    "aakhri tarikh",
+    "shevatchi tarikh",
+  ],
+  // Not "बढ़ाई": it romanizes like "बधाई" (congratulations)
+  extended: [
+    "बढ़ा दी",
+    "बढ़ा दिया",
+    "मुदतवाढ",
+    "badha di",
+    "badha diya",
+    "mudatvadh",
+  ],
+  fees: ["शुल्क", "फीस", "shulk"],
+  admission: ["प्रवेश", "एडमिशन", "pravesh"],
+  semester: ["सत्र", "सेमेस्टर", "satra"],
+  hostel: ["छात्रावास", "वसतिगृह", "हॉस्टल", "chhatravas", "vastigruh"],
+  degree: ["पदवी", "उपाधि", "padvi"],
+  attendance: ["उपस्थिति", "हजेरी", "अटेंडन्स", "upasthiti", "hajeri"],
+  official: ["आधिकारिक", "अधिकृत", "सरकारी", "adhikarik", "adhikrut"],
+};
+
+// Everyday phrases that only mean their keyword in a message about exams or results: "nikal" is also
+// "get out", and "nahi hoga" is also "I can't do it"
+const TOPIC_BOUND_ALIASES = new Set([
+  "निकाल",
+  "nikal",
+  "नहीं होगा",
+  "नहीं होगी",
+  "nahi hoga",
+  "nahi hogi",
+]);
+
+// Words that put a message on exams or results, including Marathi "निकाल लागणार" (results are due)
+const TOPIC_WORDS = [
+  ...BUILTIN_KEYWORD_ALIASES.exam,
+  ...BUILTIN_KEYWORD_ALIASES.result.filter(
+    (alias) => !TOPIC_BOUND_ALIASES.has(alias),
+  ),
+  ...BUILTIN_KEYWORD_ALIASES.semester,
+  "exam*",
+  "result*",
+  "semester",
+  "sem",
+  "viva",
+  "practical*",
+  "university",
+  "college",
+  "लागणार",
+  "लागला",
+  "लागले",
+  "लागेल",
+  "lagnar",
+  "lagla",
+  "lagle",
+];
+
+// Words either side of a topic-bound alias that are searched for a topic word
+const TOPIC_WINDOW = 5;
+
+// Small talk in Hindi and Marathi; matched on the whole word, since keys like "ho" or "ji" are short
+const BUILTIN_CASUAL_WORDS = [
+  "हाँ",
+  "हां",
+  "नहीं",
+  "ठीक",
+  "अच्छा",
+  "धन्यवाद",
+  "शुक्रिया",
+  "नमस्ते",
+  "नमस्कार",
+  "हो",
+  "बरं",
+  "आभार",
+  "haan",
+  "nahi",
+  "theek",
+  "accha",
+  "dhanyavad",
+  "shukriya",
+  "namaste",
+  "namaskar",
+  "ji",
+  "bhai",
+  "arre",
+  "bara",
+];
+
+// Keys shorter than this must match exactly; "ank" must not match "bank"
+const MIN_FUZZY_KEY_LENGTH = 5;
+
+// Alias words shorter than this must be typed as listed: their phonetic keys are so short that other
+// words share them ("फीस" and "fis")
+const MIN_PHONETIC_ALIAS_LENGTH = 5;
+
+interface AliasWord {
+  text: string;
+  key: string;
+  // Compared as written rather than by phonetic key
+  exact: boolean;
+}
+
+interface CompiledAlias {
+  keyword: string;
+  alias: string;
+  words: AliasWord[];
+  prefix: boolean;
+}
+
+export interface AliasMatch {
+  keyword: string;
+  // The alias that matched and the words in the message it matched
+  alias: string;
+  surface: string;
+  // Position of the first matched word among the tokens
+  index: number;
+}
+
+const casualKeys = new Set(BUILTIN_CASUAL_WORDS.map(phoneticKey));
+const compiledCache = new Map<string, CompiledAlias[]>();
+
+function compile(
+  aliases: Record<string, string[]>,
+  exactShortWords: boolean,
+): CompiledAlias[] {
+  const cacheKey = JSON.stringify([aliases, exactShortWords]);
+  const cached = compiledCache.get(cacheKey);
+  if (cached) return cached;
+
+  const compiled: CompiledAlias[] = [];
+  for (const [keyword, forms] of Object.entries(aliases)) {
+    for (const alias of forms) {
+      const prefix = alias.endsWith("*");
+      const words = tokenize(alias.replace(/\*$/, ""))
+        .map((text) => ({
+          text,
+          key: phoneticKey(text),
+          exact: exactShortWords && text.length < MIN_PHONETIC_ALIAS_LENGTH,
+        }))
+        .filter((word) => word.key);
+      if (words.length > 0) compiled.push({ keyword, alias, words, prefix });
+    }
+  }
+  compiledCache.set(cacheKey, compiled);
+  return compiled;
+}
+
+function wordMatches(
+  token: string,
+  tokenKey: string,
+  word: AliasWord,
+  prefix: boolean,
+): boolean {
+  if (word.exact)
+    return prefix ? token.startsWith(word.text) : token === word.text;
+  const aliasKey = word.key;
+  if (tokenKey === aliasKey) return true;
+  if (prefix) return tokenKey.startsWith(aliasKey);
+  // Longer keys may differ in one letter, but not in length: "futbal" (football) is not "futal" (फुटला)
+  return (
+    aliasKey.length >= MIN_FUZZY_KEY_LENGTH &&
+    tokenKey.length === aliasKey.length &&
+    levenshteinDistance(tokenKey, aliasKey) <= 1
+  );
+}
+
+/**
+ * Finds Hindi, Marathi and Hinglish phrasings of the given English keywords in the tokens. Only
+ * aliases of keywords in `keywords` are tried, so a chat that dropped "hostel" from its rules
+ * does not get it back through "छात्रावास". `extraAliases` adds to the built-in dictionary.
+ */
+export function findAliasMatches(
+  tokens: string[],
+  keywords: string[],
+  extraAliases: Record<string, string[]> = {},
+): AliasMatch[] {
+  const merged: Record<string, string[]> = {};
+  for (const source of [BUILTIN_KEYWORD_ALIASES, extraAliases]) {
+    for (const [keyword, forms] of Object.entries(source)) {
+      // Aliases are keyed by the English keyword as it appears in the chat's panic keyword list
+      const listed = keywords.find(
+        (k) => k.toLowerCase() === keyword.toLowerCase(),
+      );
+      if (!listed) continue;
+      merged[listed] = [...(merged[listed] ?? []), ...forms];
+    }
+  }
+
+  const matches = matchCompiled(tokens, compile(merged, true));
+  if (!matches.some((match) => TOPIC_BOUND_ALIASES.has(match.alias)))
+    return matches;
+
+  const topics = matchCompiled(tokens, compile({ topic: TOPIC_WORDS }, true));
+  return matches.filter(
+    (match) =>
+      !TOPIC_BOUND_ALIASES.has(match.alias) ||
+      topics.some(
+        (topic) =>
+          topic.index !== match.index &&
+          Math.abs(topic.index - match.index) <= TOPIC_WINDOW,
+      ),
+  );
+}
+
+/**
+ * Returns the phrases (any language, "*" for any ending) that occur in the tokens, e.g. urgency
+ * phrases such as "forward to all" or "सबको भेजो".
+ */
+export function findPhraseMatches(
+  tokens: string[],
+  phrases: string[],
+): string[] {
+  const byPhrase = Object.fromEntries(
+    phrases.map((phrase) => [phrase, [phrase]]),
+  );
+  // "sabko bhejo" and "सबको भेजो" match the same words; report them once
+  const bySurface = new Map<string, string>();
+  for (const match of matchCompiled(tokens, compile(byPhrase, false))) {
+    if (!bySurface.has(match.surface))
+      bySurface.set(match.surface, match.keyword);
+  }
+  return [...new Set(bySurface.values())];
+}
+
+function matchCompiled(
+  tokens: string[],
+  compiled: CompiledAlias[],
+): AliasMatch[] {
+  const tokenKeys = tokens.map(phoneticKey);
+  const matches: AliasMatch[] = [];
+  const seen = new Set<string>();
+
+  for (const alias of compiled) {
+    const last = alias.words.length - 1;
+    for (let i = 0; i + last < tokenKeys.length; i++) {
+      const hit = alias.words.every((word, j) =>
+        wordMatches(
+          tokens[i + j],
+          tokenKeys[i + j],
+          word,
+          alias.prefix && j === last,
+        ),
+      );
+      if (!hit) continue;
+
+      const surface = tokens.slice(i, i + last + 1).join(" ");
+      if (!seen.has(`${alias.keyword}|${surface}`)) {
+        seen.add(`${alias.keyword}|${surface}`);
+        matches.push({
+          keyword: alias.keyword,
+          alias: alias.alias,
+          surface,
+          index: i,
+        });
+      }
+    }
+  }
+  return matches;
+}
+
+export function isCasualWord(token: string): boolean {
+  return casualKeys.has(phoneticKey(token));
+}
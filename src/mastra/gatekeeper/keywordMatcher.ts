@@ -0,0 +1,300 @@
+import { tokenize } from "./normalization";
+
+export interface KeywordMatch {
+  keyword: string;
+  // Words of the message that matched, as written
+  surface: string;
+  // "exact": same word; "stem": another form ("exams", "postponed"); "typo": within the edit budget;
+  // "phrase": a multi-word keyword; "translation": a Hindi / Marathi / Hinglish alias
+  kind: "exact" | "stem" | "typo" | "phrase" | "translation";
+  distance: number;
+}
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  // Set on the node that ends a keyword stem
+  stem?: string;
+}
+
+interface Token {
+  text: string;
+  stem: string;
+  // Offset just past the token in the message, to look for a following "?"
+  end: number;
+}
+
+interface CompiledMatcher {
+  root: TrieNode;
+  // Stem -> keywords sharing it, in the order they are listed ("exam" before "exams")
+  keywordsByStem: Map<string, string[]>;
+  phrases: { keyword: string; stems: string[]; needsQuestionMark: boolean }[];
+}
+
+// Neighbouring keys on a QWERTY keyboard; swapping one for another is a likely typo, "cancer" for
+// "cancel" is not
+const KEYBOARD_ROWS = ["qwertyuiop", "asdfghjkl", "zxcvbnm"];
+const ADJACENT_KEYS = new Map<string, Set<string>>();
+KEYBOARD_ROWS.forEach((row, r) => {
+  [...row].forEach((key, c) => {
+    const neighbours = new Set<string>();
+    for (const dr of [-1, 0, 1]) {
+      const other = KEYBOARD_ROWS[r + dr];
+      if (!other) continue;
+      for (const dc of [-1, 0, 1]) {
+        const near = other[c + dc];
+        if (near && near !== key) neighbours.add(near);
+      }
+    }
+    ADJACENT_KEYS.set(key, neighbours);
+  });
+});
+
+const matcherCache = new Map<string, CompiledMatcher>();
+
+/**
+ * Light suffix stripping so that inflected forms meet: "exams" / "exam", "postponed" / "postpone",
+ * "cancelled" / "canceled" / "cancel", "holidays" / "holiday". Words of three letters or fewer are
+ * left alone, as are endings that are not plurals ("syllabus", "thesis", "class").
+ */
+export function stem(word: string): string {
+  let w = word.toLowerCase();
+  if (w.length <= 3 || /[^a-z-]/.test(w)) return w;
+
+  if (w.endsWith("ies") && w.length > 4) w = `${w.slice(0, -3)}y`;
+  else if (/(ss|us|is)$/.test(w)) {
+    // not a plural
+  } else if (/(sh|ch|x|ss)es$/.test(w)) w = w.slice(0, -2);
+  else if (w.endsWith("s")) w = w.slice(0, -1);
+
+  if (w.endsWith("ing") && w.length > 5) w = w.slice(0, -3);
+  else if (w.endsWith("ed") && w.length > 4) w = w.slice(0, -2);
+
+  if (w.length > 4 && /(.)\1$/.test(w)) w = w.slice(0, -1);
+  if (w.endsWith("e") && w.length > 4) w = w.slice(0, -1);
+  return w;
+}
+
+/**
+ * Edits a keyword of this length tolerates: none up to four letters ("lab", "mess", "exam" must be
+ * spelled right), one up to eight, two beyond that ("dissertation", "supplementary").
+ */
+function editBudget(length: number): number {
+  if (length <= 4) return 0;
+  if (length <= 8) return 1;
+  return 2;
+}
+
+function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0;
+  return ADJACENT_KEYS.get(a)?.has(b) ? 1 : 2;
+}
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) with keyboard-aware substitutions: swapping two
+ * neighbouring letters or hitting a neighbouring key costs 1, any other substitution costs 2.
+ */
+export function typoDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows[i] = [i];
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        rows[i][j] = j;
+        continue;
+      }
+      let cost = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + substitutionCost(a[i - 1], b[j - 1]),
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        cost = Math.min(cost, rows[i - 2][j - 2] + 1);
+      }
+      rows[i][j] = cost;
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+function compile(keywords: string[]): CompiledMatcher {
+  const cacheKey = JSON.stringify(keywords);
+  const cached = matcherCache.get(cacheKey);
+  if (cached) return cached;
+
+  const root: TrieNode = { children: new Map() };
+  const keywordsByStem = new Map<string, string[]>();
+  const phrases: CompiledMatcher["phrases"] = [];
+
+  for (const keyword of keywords) {
+    const words = tokenize(keyword);
+    const needsQuestionMark = keyword.trim().endsWith("?");
+    if (words.length === 0) continue;
+
+    if (words.length > 1 || needsQuestionMark) {
+      phrases.push({ keyword, stems: words.map(stem), needsQuestionMark });
+      continue;
+    }
+
+    const keywordStem = stem(words[0]);
+    if (!keywordsByStem.has(keywordStem)) {
+      keywordsByStem.set(keywordStem, []);
+      let node = root;
+      for (const char of keywordStem) {
+        if (!node.children.has(char))
+          node.children.set(char, { children: new Map() });
+        node = node.children.get(char)!;
+      }
+      node.stem = keywordStem;
+    }
+    keywordsByStem.get(keywordStem)!.push(keyword);
+  }
+
+  const compiled = { root, keywordsByStem, phrases };
+  matcherCache.set(cacheKey, compiled);
+  return compiled;
+}
+
+/**
+ * Walks the trie with one row of the edit-distance table per node, abandoning a branch as soon as
+ * every cell exceeds the budget, so a word is compared against all keywords in one pass. Only the
+ * branch of the word's first letter is searched: people rarely mistype it, and without that rule
+ * "replacement" would be a typo of "placement".
+ */
+function searchTrie(
+  root: TrieNode,
+  word: string,
+  budget: number,
+): { stem: string; distance: number }[] {
+  const found: { stem: string; distance: number }[] = [];
+  const firstRow = Array.from({ length: word.length + 1 }, (_, i) => i);
+
+  const visit = (node: TrieNode, char: string, previousRow: number[]) => {
+    const row = [previousRow[0] + 1];
+    for (let i = 1; i <= word.length; i++) {
+      row[i] = Math.min(
+        row[i - 1] + 1,
+        previousRow[i] + 1,
+        previousRow[i - 1] + (word[i - 1] === char ? 0 : 1),
+      );
+    }
+    if (node.stem && row[word.length] <= budget)
+      found.push({ stem: node.stem, distance: row[word.length] });
+    if (Math.min(...row) <= budget) {
+      for (const [nextChar, child] of node.children)
+        visit(child, nextChar, row);
+    }
+  };
+
+  const branch = root.children.get(word[0]);
+  if (branch) visit(branch, word[0], firstRow);
+  return found;
+}
+
+function tokensOf(text: string): Token[] {
+  const lower = text.toLowerCase();
+  const tokens: Token[] = [];
+  let cursor = 0;
+  for (const word of tokenize(text)) {
+    const index = lower.indexOf(word, cursor);
+    const end = index >= 0 ? index + word.length : cursor;
+    cursor = end;
+    tokens.push({ text: word, stem: stem(word), end });
+  }
+  return tokens;
+}
+
+function pickKeyword(candidates: string[], surface: string): string {
+  return (
+    candidates.find((keyword) => keyword.toLowerCase() === surface) ??
+    candidates[0]
+  );
+}
+
+/**
+ * Finds the panic keywords in a message. Words are stemmed, then looked up in a trie of keyword
+ * stems with a keyboard-aware edit budget that grows with keyword length; there is no substring
+ * matching, so "no" does not match "notice" nor "lab" match "syllabus". Multi-word keywords must
+ * appear word for word, and a keyword written with "?" ("true?") only counts as a question.
+ */
+export function matchKeywords(
+  text: string,
+  keywords: string[],
+): KeywordMatch[] {
+  const { root, keywordsByStem, phrases } = compile(keywords);
+  const normalized = text.normalize("NFC");
+  const tokens = tokensOf(normalized);
+  const matches: KeywordMatch[] = [];
+  const seen = new Set<string>();
+
+  const add = (match: KeywordMatch) => {
+    if (seen.has(match.keyword)) return;
+    seen.add(match.keyword);
+    matches.push(match);
+  };
+
+  for (const token of tokens) {
+    if (/[^a-z-]/.test(token.stem)) continue;
+
+    const exact = keywordsByStem.get(token.stem);
+    if (exact) {
+      const keyword = pickKeyword(exact, token.text);
+      add({
+        keyword,
+        surface: token.text,
+        kind: keyword.toLowerCase() === token.text ? "exact" : "stem",
+        distance: 0,
+      });
+      continue;
+    }
+
+    const budget = editBudget(token.stem.length);
+    if (budget === 0) continue;
+
+    // The trie search uses plain edit costs as a cheap filter; the weighted distance decides
+    const candidates = searchTrie(root, token.stem, budget)
+      .map((hit) => ({
+        stem: hit.stem,
+        distance: typoDistance(token.stem, hit.stem),
+      }))
+      // A typo adds or drops a letter at most; "practically" is not a misspelt "practical"
+      .filter((hit) => Math.abs(hit.stem.length - token.stem.length) <= 1)
+      .filter(
+        (hit) => hit.distance <= Math.min(budget, editBudget(hit.stem.length)),
+      )
+      .sort((a, b) => a.distance - b.distance);
+
+    if (candidates.length > 0) {
+      const best = candidates[0];
+      add({
+        keyword: pickKeyword(keywordsByStem.get(best.stem)!, token.text),
+        surface: token.text,
+        kind: "typo",
+        distance: best.distance,
+      });
+    }
+  }
+
+  for (const phrase of phrases) {
+    const last = phrase.stems.length - 1;
+    for (let i = 0; i + last < tokens.length; i++) {
+      if (!phrase.stems.every((s, j) => tokens[i + j].stem === s)) continue;
+      if (
+        phrase.needsQuestionMark &&
+        !/^\s*\?/.test(normalized.slice(tokens[i + last].end))
+      )
+        continue;
+      add({
+        keyword: phrase.keyword,
+        surface: tokens
+          .slice(i, i + last + 1)
+          .map((t) => t.text)
+          .join(" "),
+        kind: "phrase",
+        distance: 0,
+      });
+      break;
+    }
+  }
+
+  return matches;
+}
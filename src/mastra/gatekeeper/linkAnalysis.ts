@@ -0,0 +1,301 @@
+import { isOfficialDomain, OFFICIAL_DOMAINS } from "../tools/exaSearchTool";
+import { levenshteinDistance } from "./normalization";
+
+const URL_PATTERN =
+  /\bhttps?:\/\/[^\s<>"']+|\bwww\.[^\s<>"']+|\b(?:[a-z0-9-]+\.)+(?:com|in|org|net|edu|ac|gov|ly|co|info|xyz|me|io|link|gl|gy|gd|at|cc|id|top|site|online|click|live)\b(?:\/[^\s<>"']*)?/gi;
+
+const SHORTENER_DOMAINS = [
+  "bit.ly",
+  "tinyurl.com",
+  "t.co",
+  "goo.gl",
+  "cutt.ly",
+  "rb.gy",
+  "is.gd",
+  "v.gd",
+  "ow.ly",
+  "t.ly",
+  "s.id",
+  "shorturl.at",
+  "tiny.cc",
+  "rebrand.ly",
+  "bl.ink",
+];
+
+// First labels of official domains that are ordinary words, so "education-news.com" is not an impersonation
+const GENERIC_LABELS = new Set(["education", "mum"]);
+
+// Shorter first labels ("mu") are the names of too many other institutions to flag on their own: mu.edu
+const MIN_BRAND_LENGTH = 3;
+
+const MAX_REDIRECTS = 5;
+const RESOLVE_TIMEOUT_MS = Number(process.env.LINK_RESOLVE_TIMEOUT_MS || 3000);
+const RESOLVE_CACHE_TTL_MS = 60 * 60 * 1000;
+const RESOLVE_CACHE_SIZE = 500;
+
+export interface SuspiciousLink {
+  url: string;
+  // Where a shortened link leads, when it could be resolved
+  resolvedUrl?: string;
+  domain: string;
+  // "lookalike": spelled like an official domain ("rnu.ac.in"); "impersonation": borrows an official
+  // name ("mu-ac-in.info", "mu-results.xyz"); "unresolved-shortener": a short link that could not be followed
+  reason:
+    | "lookalike"
+    | "impersonation"
+    | "punycode"
+    | "ip-address"
+    | "unresolved-shortener";
+  imitates?: string;
+  detail: string;
+}
+
+export interface LinkReport {
+  links: string[];
+  suspicious: SuspiciousLink[];
+}
+
+type LinkResolver = (url: string) => Promise<string | undefined>;
+
+const resolveCache = new Map<string, { resolved?: string; at: number }>();
+
+export function extractLinks(text: string): string[] {
+  const found = (text.match(URL_PATTERN) ?? []).map((link) =>
+    link.replace(/[.,;:!?)\]}'"]+$/, ""),
+  );
+  return [...new Set(found)];
+}
+
+function toUrl(link: string): URL | undefined {
+  try {
+    return new URL(/^https?:\/\//i.test(link) ? link : `http://${link}`);
+  } catch {
+    return undefined;
+  }
+}
+
+function hostOf(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, "");
+}
+
+function isShortener(host: string): boolean {
+  return SHORTENER_DOMAINS.includes(host);
+}
+
+async function followRedirects(link: string): Promise<string | undefined> {
+  let current = link;
+  for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+    let response = await fetch(current, {
+      method: "HEAD",
+      redirect: "manual",
+      signal: AbortSignal.timeout(RESOLVE_TIMEOUT_MS),
+    });
+    // Some shorteners refuse HEAD requests
+    if (response.status === 405 || response.status === 403) {
+      response = await fetch(current, {
+        redirect: "manual",
+        signal: AbortSignal.timeout(RESOLVE_TIMEOUT_MS),
+      });
+    }
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location)
+      return current;
+    current = new URL(location, current).toString();
+    // The destination itself is never requested; it may be the phishing page
+    if (!isShortener(hostOf(new URL(current)))) return current;
+  }
+  return current;
+}
+
+async function resolveWithService(
+  template: string,
+  link: string,
+): Promise<string | undefined> {
+  const response = await fetch(
+    template.replace("{url}", encodeURIComponent(link)),
+    {
+      signal: AbortSignal.timeout(RESOLVE_TIMEOUT_MS),
+    },
+  );
+  if (!response.ok) return undefined;
+  const body = (await response.text()).trim();
+  if (body.startsWith("{")) {
+    const parsed = JSON.parse(body);
+    return typeof parsed.url === "string" ? parsed.url : undefined;
+  }
+  return body || undefined;
+}
+
+/**
+ * LINK_RESOLVER picks how shortened links are expanded: "redirects" (default) follows the HTTP
+ * redirects directly, "off" never contacts the shortener, and a URL containing {url} sends the link
+ * to an unshortening service that answers with the final URL as text or as JSON { "url": ... }.
+ */
+function configuredResolver(): LinkResolver | undefined {
+  const setting = process.env.LINK_RESOLVER || "redirects";
+  if (setting === "off") return undefined;
+  if (setting === "redirects") return followRedirects;
+  if (/^https?:\/\//.test(setting) && setting.includes("{url}"))
+    return (link) => resolveWithService(setting, link);
+  return followRedirects;
+}
+
+async function resolveShortLink(
+  link: string,
+  logger?: any,
+): Promise<string | undefined> {
+  const cached = resolveCache.get(link);
+  if (cached && Date.now() - cached.at < RESOLVE_CACHE_TTL_MS)
+    return cached.resolved;
+
+  const resolver = configuredResolver();
+  if (!resolver) return undefined;
+
+  let resolved: string | undefined;
+  try {
+    resolved = await resolver(link);
+  } catch (error: any) {
+    logger?.warn("⚠️ [Gatekeeper] Could not resolve short link", {
+      link,
+      error: error.message,
+    });
+  }
+
+  if (resolveCache.size >= RESOLVE_CACHE_SIZE)
+    resolveCache.delete(resolveCache.keys().next().value!);
+  resolveCache.set(link, { resolved, at: Date.now() });
+  return resolved;
+}
+
+// Characters that read alike in a domain name: "rnu.ac.in" for "mu.ac.in", "ugc.ac.1n" for "ugc.ac.in"
+function skeleton(host: string): string {
+  return host
+    .replace(/rn/g, "m")
+    .replace(/vv/g, "w")
+    .replace(/0/g, "o")
+    .replace(/[1i]/g, "l")
+    .replace(/3/g, "e")
+    .replace(/5/g, "s")
+    .replace(/[.-]/g, "");
+}
+
+// Short domains must match letter for letter after look-alike characters are folded, or "du.ac.in"
+// would count as a misspelt "mu.ac.in"
+function lookalikeBudget(length: number): number {
+  if (length < 8) return 0;
+  if (length < 12) return 1;
+  return 2;
+}
+
+function checkDomain(
+  host: string,
+  trustedDomains: string[],
+): Pick<SuspiciousLink, "reason" | "imitates" | "detail"> | undefined {
+  const officialDomains = [...new Set(Object.values(OFFICIAL_DOMAINS).flat())];
+  if (isOfficialDomain(host, [...officialDomains, ...trustedDomains]))
+    return undefined;
+
+  if (/^\d{1,3}(?:\.\d{1,3}){3}$/.test(host)) {
+    return {
+      reason: "ip-address",
+      detail: "Link points to a bare IP address instead of a domain",
+    };
+  }
+  if (host.split(".").some((label) => label.startsWith("xn--"))) {
+    return {
+      reason: "punycode",
+      detail: "Domain uses non-Latin characters that can imitate a real name",
+    };
+  }
+
+  const labels = host.split(/[.-]/);
+  for (const official of officialDomains) {
+    const flatOfficial = official.replace(/[.-]/g, "");
+    // Whole labels only, "mu.ac.in.results.xyz" or "mu-ac-in.com": amu.ac.in is another university
+    const officialLabels = official.split(/[.-]/);
+    const embedded = labels.some((_, i) =>
+      officialLabels.every((label, j) => labels[i + j] === label),
+    );
+    if (embedded) {
+      return {
+        reason: "impersonation",
+        imitates: official,
+        detail: `Contains "${official}" but is not ${official}`,
+      };
+    }
+
+    const distance = levenshteinDistance(skeleton(host), skeleton(official));
+    if (distance <= lookalikeBudget(flatOfficial.length)) {
+      return {
+        reason: "lookalike",
+        imitates: official,
+        detail: `Spelled like ${official}`,
+      };
+    }
+
+    const brand = official.split(/[.-]/)[0];
+    if (
+      brand.length >= MIN_BRAND_LENGTH &&
+      !GENERIC_LABELS.has(brand) &&
+      labels.includes(brand)
+    ) {
+      return {
+        reason: "impersonation",
+        imitates: official,
+        detail: `Uses the name "${brand}" outside ${official}`,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extracts the links in a message, expands shortened ones and flags those that imitate an official
+ * domain from universitySearchTool's lists (or the chat's trusted domains), that hide behind a
+ * shortener we could not follow, or that point at punycode / bare IP hosts. Links to ordinary
+ * unrelated sites are not suspicious.
+ */
+export async function analyzeLinks(
+  text: string,
+  trustedDomains: string[] = [],
+  logger?: any,
+): Promise<LinkReport> {
+  const links = extractLinks(text);
+  const suspicious: SuspiciousLink[] = [];
+
+  for (const link of links) {
+    const url = toUrl(link);
+    if (!url) continue;
+    const host = hostOf(url);
+
+    if (!isShortener(host)) {
+      const finding = checkDomain(host, trustedDomains);
+      if (finding) suspicious.push({ url: link, domain: host, ...finding });
+      continue;
+    }
+
+    const resolvedUrl = await resolveShortLink(url.toString(), logger);
+    const resolved = resolvedUrl ? toUrl(resolvedUrl) : undefined;
+    if (!resolved || isShortener(hostOf(resolved))) {
+      suspicious.push({
+        url: link,
+        resolvedUrl,
+        domain: host,
+        reason: "unresolved-shortener",
+        detail: "Shortened link whose destination could not be checked",
+      });
+      continue;
+    }
+
+    const finding = checkDomain(hostOf(resolved), trustedDomains);
+    if (finding)
+      suspicious.push({
+        url: link,
+        resolvedUrl,
+        domain: hostOf(resolved),
+        ...finding,
+      });
+  }
+
+  return { links, suspicious };
+}
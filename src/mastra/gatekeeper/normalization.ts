@@ -0,0 +1,201 @@
+// Devanagari -> Latin, close to how students romanize Hindi and Marathi when typing Hinglish
+const INDEPENDENT_VOWELS: Record<string, string> = {
+  अ: "a",
+  आ: "aa",
+  इ: "i",
+  ई: "ii",
+  उ: "u",
+  ऊ: "uu",
+  ऋ: "ri",
+  ए: "e",
+  ऐ: "ai",
+  ओ: "o",
+  औ: "au",
+  ऑ: "o",
+  ऍ: "e",
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+  "ा": "aa",
+  "ि": "i",
+  "ी": "ii",
+  "ु": "u",
+  "ू": "uu",
+  "ृ": "ri",
+  "े": "e",
+  "ै": "ai",
+  "ो": "o",
+  "ौ": "au",
+  "ॉ": "o",
+  "ॅ": "e",
+};
+
+const CONSONANTS: Record<string, string> = {
+  क: "k",
+  ख: "kh",
+  ग: "g",
+  घ: "gh",
+  ङ: "n",
+  च: "ch",
+  छ: "chh",
+  ज: "j",
+  झ: "jh",
+  ञ: "n",
+  ट: "t",
+  ठ: "th",
+  ड: "d",
+  ढ: "dh",
+  ण: "n",
+  त: "t",
+  थ: "th",
+  द: "d",
+  ध: "dh",
+  न: "n",
+  प: "p",
+  फ: "ph",
+  ब: "b",
+  भ: "bh",
+  म: "m",
+  य: "y",
+  र: "r",
+  ल: "l",
+  ळ: "l",
+  व: "v",
+  श: "sh",
+  ष: "sh",
+  स: "s",
+  ह: "h",
+  // Precomposed nukta letters (Urdu and English loanwords)
+  क़: "k",
+  ख़: "kh",
+  ग़: "g",
+  ज़: "z",
+  ड़: "r",
+  ढ़: "rh",
+  फ़: "f",
+  य़: "y",
+};
+
+const SIGNS: Record<string, string> = { "ं": "n", "ँ": "n", "ः": "h" };
+
+const VIRAMA = "्";
+const NUKTA = "़";
+const DEVANAGARI_DIGIT_ZERO = 0x0966;
+
+const DEVANAGARI = /[ऀ-ॿ]/;
+const TOKEN = /[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu;
+
+/**
+ * Splits text into lowercase word tokens. Unlike splitting on whitespace, Devanagari vowel signs
+ * and viramas stay attached to their letters, and punctuation such as "?" or the danda "।" is dropped.
+ */
+export function tokenize(text: string): string[] {
+  return text.normalize("NFC").toLowerCase().match(TOKEN) ?? [];
+}
+
+export function isDevanagari(token: string): boolean {
+  return DEVANAGARI.test(token);
+}
+
+/**
+ * Romanizes a Devanagari word: "परीक्षा" -> "pariikshaa", "रद्द" -> "radd". Consonants carry an
+ * inherent "a" unless a vowel sign or virama follows, and the word-final one is silent as in speech.
+ * Latin text passes through unchanged.
+ */
+export function transliterate(word: string): string {
+  if (!isDevanagari(word)) return word;
+
+  const chars = [...word.normalize("NFC")].filter((char) => char !== NUKTA);
+  let out = "";
+  let pendingSchwa = false;
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const code = char.codePointAt(0)!;
+
+    if (VOWEL_SIGNS[char]) {
+      out += VOWEL_SIGNS[char];
+      pendingSchwa = false;
+      continue;
+    }
+    if (char === VIRAMA) {
+      pendingSchwa = false;
+      continue;
+    }
+
+    if (pendingSchwa) out += "a";
+    pendingSchwa = false;
+
+    if (CONSONANTS[char]) {
+      out += CONSONANTS[char];
+      pendingSchwa = true;
+    } else if (INDEPENDENT_VOWELS[char]) {
+      out += INDEPENDENT_VOWELS[char];
+    } else if (SIGNS[char]) {
+      out += SIGNS[char];
+    } else if (
+      code >= DEVANAGARI_DIGIT_ZERO &&
+      code <= DEVANAGARI_DIGIT_ZERO + 9
+    ) {
+      out += String(code - DEVANAGARI_DIGIT_ZERO);
+    } else {
+      out += char;
+    }
+  }
+
+  // A single consonant keeps its vowel ("न" -> "na"); longer words drop the final inherent one
+  if (pendingSchwa && out.length <= 2) out += "a";
+  return out;
+}
+
+/**
+ * Spelling-insensitive key for a romanized word, so "pareeksha", "pariksha" and "परीक्षा" all map
+ * to "pariks", and "chutti", "chhutti" and "छुट्टी" to "cuti". Aspiration, vowel length and doubled
+ * letters are dropped because Hinglish spellings disagree on exactly those.
+ */
+export function phoneticKey(word: string): string {
+  const key = transliterate(word.toLowerCase())
+    .replace(/ph/g, "f")
+    .replace(/chh|ch/g, "c")
+    .replace(/sh/g, "s")
+    .replace(/([bcdfgjkpqrstvz])h/g, "$1")
+    .replace(/ee|ii/g, "i")
+    .replace(/oo|uu/g, "u")
+    .replace(/w/g, "v")
+    .replace(/q/g, "k")
+    .replace(/x/g, "ks")
+    .replace(/ck/g, "k")
+    .replace(/(.)\1+/g, "$1");
+
+  // Final "a" is as often written as not ("radd" / "radda", "pariksh" / "pariksha")
+  return key.length > 3 ? key.replace(/a$/, "") : key;
+}
+
+// Levenshtein distance for fuzzy matching (spelling mistakes)
+export function levenshteinDistance(a: string, b: string): number {
+  const matrix: number[][] = [];
+
+  for (let i = 0; i <= b.length; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let j = 0; j <= a.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      if (b.charAt(i - 1) === a.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1,
+        );
+      }
+    }
+  }
+
+  return matrix[b.length][a.length];
+}
@@ -0,0 +1,283 @@
+import type { GatekeeperRules, SignalName } from "./gatekeeperRules";
+import {
+  findAliasMatches,
+  findPhraseMatches,
+  isCasualWord,
+} from "./keywordDictionary";
+import { type KeywordMatch, matchKeywords } from "./keywordMatcher";
+import { extractLinks, type SuspiciousLink } from "./linkAnalysis";
+import { tokenize } from "./normalization";
+import type { SenderHistory } from "./senderHistory";
+
+export type Priority = "high" | "medium" | "low" | "skip";
+
+export interface RiskSignal {
+  signal: SignalName;
+  // 0-1: how strongly the message shows this signal
+  strength: number;
+  weight: number;
+  // strength * weight, the share of riskScore this signal accounts for
+  contribution: number;
+  detail?: string;
+}
+
+export interface RiskAssessment {
+  shouldProcess: boolean;
+  priority: Priority;
+  riskScore: number;
+  signals: RiskSignal[];
+  detectedKeywords: string[];
+  // Which words of the message matched which keyword, and how ("exact", "stem", "typo", ...)
+  keywordMatches: KeywordMatch[];
+  reason: string;
+}
+
+export interface MessageForRisk {
+  message: string;
+  caption?: string;
+  hasPhoto: boolean;
+  hasDocument: boolean;
+  isForwarded: boolean;
+  // From analyzeLinks, which has to run first since expanding short links is asynchronous
+  suspiciousLinks?: SuspiciousLink[];
+}
+
+// Lookalike or impersonating domains count fully; a short link we could not follow counts half
+const LINK_REASON_STRENGTH: Record<SuspiciousLink["reason"], number> = {
+  lookalike: 1,
+  impersonation: 1,
+  punycode: 1,
+  "ip-address": 1,
+  "unresolved-shortener": 0.5,
+};
+
+// A sender needs this many scored messages before their history counts either way
+const MIN_HISTORY_MESSAGES = 3;
+
+// Shouting only counts in messages with at least this many Latin words
+const MIN_CAPS_WORDS = 3;
+
+const PRIORITY_ORDER: Priority[] = ["skip", "low", "medium", "high"];
+
+/**
+ * Panic keywords in the message, each with the words that matched it. Keywords with a weight of 0
+ * are switched off for the chat and never reported.
+ */
+export function detectKeywords(
+  text: string,
+  rules: GatekeeperRules,
+): KeywordMatch[] {
+  const enabled = rules.panicKeywords.filter(
+    (keyword) => (rules.keywordWeights[keyword] ?? 1) > 0,
+  );
+  const matches = matchKeywords(text, enabled);
+
+  // Hindi / Marathi / Hinglish phrasings ("परीक्षा रद्द", "pariksha postpone") count as the English keyword
+  for (const alias of findAliasMatches(
+    tokenize(text),
+    enabled,
+    rules.keywordAliases,
+  )) {
+    if (matches.some((match) => match.keyword === alias.keyword)) continue;
+    matches.push({
+      keyword: alias.keyword,
+      surface: alias.surface,
+      kind: "translation",
+      distance: 0,
+    });
+  }
+
+  return matches;
+}
+
+function capsRatio(text: string): { ratio: number; words: number } {
+  const latinWords = text.match(/\b[A-Za-z]{3,}\b/g) ?? [];
+  if (latinWords.length < MIN_CAPS_WORDS)
+    return { ratio: 0, words: latinWords.length };
+  const shouted = latinWords.filter(
+    (word) => word === word.toUpperCase(),
+  ).length;
+  return { ratio: shouted / latinWords.length, words: latinWords.length };
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function priorityFor(
+  score: number,
+  thresholds: GatekeeperRules["thresholds"],
+): Priority {
+  if (score >= thresholds.high) return "high";
+  if (score >= thresholds.medium) return "medium";
+  if (score >= thresholds.low) return "low";
+  return "skip";
+}
+
+function atLeast(priority: Priority, floor: Priority): Priority {
+  return PRIORITY_ORDER.indexOf(priority) >= PRIORITY_ORDER.indexOf(floor)
+    ? priority
+    : floor;
+}
+
+/**
+ * Scores a message by adding up weighted signals (panic keywords, urgency phrases, forwarding,
+ * media, links, lookalike links, ALL-CAPS text, the sender's past messages, small talk) into a 0-1
+ * risk score, then maps it to a priority with the chat's thresholds. Media and forwarded messages under an
+ * "always" policy never drop below high and medium respectively, as before scoring existed.
+ */
+export function assessMessageRisk(
+  input: MessageForRisk,
+  rules: GatekeeperRules,
+  senderHistory?: SenderHistory,
+): RiskAssessment {
+  const rawText = `${input.message || ""} ${input.caption || ""}`.trim();
+  // Unicode-aware so Devanagari words keep their vowel signs and "exam?" is read as "exam"
+  const words = tokenize(rawText);
+  const hasMedia = input.hasPhoto || input.hasDocument;
+  const weights = rules.signalWeights;
+
+  const keywordMatches = detectKeywords(rawText, rules);
+  const keywords = keywordMatches.map((match) => match.keyword);
+  const keywordWeight = keywords.reduce(
+    (sum, keyword) => sum + (rules.keywordWeights[keyword] ?? 1),
+    0,
+  );
+  const keywordStrength =
+    rules.highPriorityWeight > 0
+      ? clamp(keywordWeight / rules.highPriorityWeight)
+      : Math.min(keywords.length, 1);
+  const urgency = findPhraseMatches(words, rules.urgencyPhrases);
+  const links = extractLinks(rawText);
+  const suspiciousLinks = input.suspiciousLinks ?? [];
+  const caps = capsRatio(rawText);
+
+  // "keywords" policies only let media / forwarding count when the text itself is suspicious
+  const policyAllows = (policy: GatekeeperRules["mediaPolicy"]) =>
+    policy === "always" || (policy === "keywords" && keywords.length > 0);
+
+  // Whole words only: "no" is small talk, "notice" is not
+  const casualWords = new Set(
+    rules.casualWords.map((casual) => casual.toLowerCase()),
+  );
+  const isCasual =
+    words.length <= rules.casualMaxWords &&
+    words.every((word) => casualWords.has(word) || isCasualWord(word));
+
+  const hasHistory =
+    !!senderHistory && senderHistory.messages >= MIN_HISTORY_MESSAGES;
+
+  const raw: { signal: SignalName; strength: number; detail?: string }[] = [
+    {
+      signal: "keywords",
+      strength: keywordStrength,
+      detail:
+        keywordMatches
+          .map((match) =>
+            match.surface === match.keyword
+              ? match.keyword
+              : `${match.surface} → ${match.keyword}`,
+          )
+          .join(", ") || undefined,
+    },
+    {
+      signal: "urgency",
+      strength: urgency.length > 0 ? 1 : 0,
+      detail: urgency.join(", ") || undefined,
+    },
+    {
+      signal: "forwarded",
+      strength:
+        input.isForwarded && policyAllows(rules.forwardedPolicy) ? 1 : 0,
+    },
+    {
+      signal: "media",
+      strength: hasMedia && policyAllows(rules.mediaPolicy) ? 1 : 0,
+    },
+    {
+      signal: "links",
+      strength: links.length > 0 ? 1 : 0,
+      detail: links.join(", ") || undefined,
+    },
+    {
+      signal: "suspiciousLinks",
+      strength: Math.max(
+        0,
+        ...suspiciousLinks.map((link) => LINK_REASON_STRENGTH[link.reason]),
+      ),
+      detail:
+        suspiciousLinks
+          .map((link) => `${link.domain}: ${link.detail}`)
+          .join("; ") || undefined,
+    },
+    {
+      signal: "caps",
+      // Some capitals are normal ("NEET", "MU"); only mostly-shouted text counts, fully from 80% up
+      strength: clamp((caps.ratio - 0.3) / 0.5),
+      detail:
+        caps.ratio > 0
+          ? `${Math.round(caps.ratio * 100)}% of ${caps.words} words in capitals`
+          : undefined,
+    },
+    {
+      signal: "senderHistory",
+      strength: hasHistory
+        ? senderHistory!.highRisk / senderHistory!.messages
+        : 0,
+      detail: hasHistory
+        ? `${senderHistory!.highRisk} of ${senderHistory!.messages} earlier messages high risk`
+        : undefined,
+    },
+    { signal: "casual", strength: isCasual ? 1 : 0 },
+  ];
+
+  const signals: RiskSignal[] = raw.map(({ signal, strength, detail }) => ({
+    signal,
+    strength: round(strength),
+    weight: weights[signal],
+    contribution: round(strength * weights[signal]),
+    detail,
+  }));
+  const riskScore = round(
+    clamp(signals.reduce((sum, s) => sum + s.strength * s.weight, 0)),
+  );
+
+  const mediaFloor = hasMedia && rules.mediaPolicy === "always";
+  const forwardedFloor =
+    input.isForwarded && rules.forwardedPolicy === "always";
+  let priority = priorityFor(riskScore, rules.thresholds);
+  if (mediaFloor) priority = atLeast(priority, "high");
+  if (forwardedFloor) priority = atLeast(priority, "medium");
+
+  const tooShort =
+    words.length < rules.minWordCount && !mediaFloor && !forwardedFloor;
+  if (tooShort) priority = "skip";
+
+  const active = signals
+    .filter((s) => s.contribution > 0)
+    .sort((a, b) => b.contribution - a.contribution);
+  let reason: string;
+  if (tooShort) {
+    reason = `Shorter than ${rules.minWordCount} words`;
+  } else if (priority === "skip") {
+    reason = isCasual
+      ? "Casual greeting/chat"
+      : "Regular neutral message (no suspicious content)";
+  } else {
+    reason = `Risk ${riskScore}: ${active.map((s) => (s.detail ? `${s.signal} (${s.detail})` : s.signal)).join(", ")}`;
+  }
+
+  return {
+    shouldProcess: priority !== "skip",
+    priority,
+    riskScore,
+    signals,
+    detectedKeywords: keywords,
+    keywordMatches,
+    reason,
+  };
+}
@@ -0,0 +1,69 @@
+import { sharedLibSQLClient } from "../storage";
+
+const HISTORY_TABLE = "gatekeeper_sender_history";
+
+export interface SenderHistory {
+  senderId: string;
+  // Messages the gatekeeper has scored for this sender
+  messages: number;
+  // Of those, how many scored as high risk
+  highRisk: number;
+  lastRiskScore: number;
+  updatedAt: string;
+}
+
+let schemaReady: Promise<void> | null = null;
+
+function ensureHistoryTable(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = sharedLibSQLClient
+      .execute(
+        `CREATE TABLE IF NOT EXISTS ${HISTORY_TABLE}
+          (sender_id TEXT PRIMARY KEY, messages INTEGER NOT NULL DEFAULT 0, high_risk INTEGER NOT NULL DEFAULT 0,
+           last_risk_score REAL NOT NULL DEFAULT 0, updated_at TEXT NOT NULL)`,
+      )
+      .then(() => undefined)
+      .catch((error) => {
+        schemaReady = null;
+        throw error;
+      });
+  }
+  return schemaReady;
+}
+
+export async function getSenderHistory(
+  senderId: string,
+): Promise<SenderHistory | undefined> {
+  await ensureHistoryTable();
+  const result = await sharedLibSQLClient.execute({
+    sql: `SELECT * FROM ${HISTORY_TABLE} WHERE sender_id = ?`,
+    args: [senderId],
+  });
+  const row = result.rows[0];
+  if (!row) return undefined;
+  return {
+    senderId,
+    messages: Number(row.messages),
+    highRisk: Number(row.high_risk),
+    lastRiskScore: Number(row.last_risk_score),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+export async function recordSenderAssessment(
+  senderId: string,
+  riskScore: number,
+  isHighRisk: boolean,
+): Promise<void> {
+  await ensureHistoryTable();
+  await sharedLibSQLClient.execute({
+    sql: `INSERT INTO ${HISTORY_TABLE} (sender_id, messages, high_risk, last_risk_score, updated_at)
+      VALUES (?, 1, ?, ?, ?)
+      ON CONFLICT(sender_id) DO UPDATE SET
+        messages = messages + 1,
+        high_risk = high_risk + excluded.high_risk,
+        last_risk_score = excluded.last_risk_score,
+        updated_at = excluded.updated_at`,
+    args: [senderId, isHighRisk ? 1 : 0, riskScore, new Date().toISOString()],
+  });
+}
@@ -1,4 +1,5 @@
 import "dotenv/config";
+import * as crypto from "crypto";
 import { Mastra } from "@mastra/core";
 import { MastraError } from "@mastra/core/error";
 import { PinoLogger } from "@mastra/loggers";
@@ -10,11 +11,43 @@ import { z } from "zod";
 
 import { sharedPostgresStorage } from "./storage";
 import { inngest, inngestServe } from "./inngest";
-import { truthSentinelWorkflow, verifyMessageLogic } from "./workflows/truthSentinelWorkflow";
-import { whatsappVerificationWorkflow, verifyWhatsAppMessageLogic } from "./workflows/whatsappVerificationWorkflow";
-import { truthSentinelAgent } from "./agents/truthSentinelAgent";
+import {
+  truthSentinelWorkflow,
+  verifyMessageLogic,
+} from "./workflows/truthSentinelWorkflow";
+import {
+  ingestTelegramDocumentLogic,
+  isTelegramAdmin,
+} from "./workflows/telegramAdminIngestion";
+import {
+  whatsappVerificationWorkflow,
+  verifyWhatsAppMessageLogic,
+} from "./workflows/whatsappVerificationWorkflow";
+import {
+  slackVerificationWorkflow,
+  verifySlackMessageLogic,
+} from "./workflows/slackVerificationWorkflow";
+import {
+  discordVerificationWorkflow,
+  verifyDiscordMessageLogic,
+} from "./workflows/discordVerificationWorkflow";
+import {
+  emailVerificationWorkflow,
+  verifyEmailMessageLogic,
+} from "./workflows/emailVerificationWorkflow";
+import { truthSentinelAgent, verdictModel } from "./agents/truthSentinelAgent";
 import { registerTelegramTrigger } from "../triggers/telegramTriggers";
 import { registerWhatsAppTrigger } from "../triggers/whatsappTriggers";
+import { registerSlackTrigger } from "../triggers/slackTriggers";
+import { registerDiscordTrigger } from "../triggers/discordTriggers";
+import { registerEmailTrigger } from "../triggers/emailTriggers";
+import {
+  discordAdapter,
+  emailAdapter,
+  slackAdapter,
+  telegramAdapter,
+  whatsappAdapter,
+} from "./channels";
 import { gatekeeperTool } from "./tools/gatekeeperTool";
 import { ragSearchTool, reloadDocumentsTool } from "./tools/ragSearchTool";
 import { imageAnalysisTool } from "./tools/imageAnalysisTool";
@@ -22,7 +55,39 @@ import { telegramResponseTool } from "./tools/telegramResponseTool";
 import { whatsappResponseTool } from "./tools/whatsappResponseTool";
 import { exaSearchTool, universitySearchTool } from "./tools/exaSearchTool";
 import { perplexitySearchTool } from "./tools/perplexitySearchTool";
-import { dataFolderCleanupTool, dataFolderStatusTool } from "./tools/dataManagementTool";
+import {
+  dataFolderCleanupTool,
+  dataFolderStatusTool,
+} from "./tools/dataManagementTool";
+import { watchDataDirectory } from "./rag/knowledgeBase";
+import { getClaimCluster, listClaimClusters } from "./claims/claimClusters";
+import { checkCitations, runSources } from "./verdicts/citations";
+import { renderVerdict } from "./verdicts/renderVerdict";
+import {
+  hoaxIfUnconfirmedDramaticClaim,
+  verdictFromText,
+  verdictSchema,
+} from "./verdicts/verdict";
+import {
+  DEFAULT_GATEKEEPER_RULES,
+  getGatekeeperRules,
+  getStoredGatekeeperRules,
+  gatekeeperRulesOverrideSchema,
+  listGatekeeperProfiles,
+  resetGatekeeperRules,
+  updateGatekeeperRules,
+} from "./gatekeeper/gatekeeperRules";
+import {
+  deleteStoredDocument,
+  listDocumentVersions,
+  listStoredDocuments,
+  MAX_UPLOAD_BYTES,
+  restoreDocument,
+  storeDocument,
+  supersedeDocument,
+  type DocumentChangeResult,
+  type SupersessionResult,
+} from "./rag/documentLibrary";
 
 class ProductionPinoLogger extends MastraLogger {
   protected logger: pino.Logger;
@@ -65,10 +130,73 @@ class ProductionPinoLogger extends MastraLogger {
   }
 }
 
+// Sent when a trigger fails before verification could reply with its own apology
+const TECHNICAL_DIFFICULTIES_REPLY =
+  "⚠️ I'm experiencing technical difficulties. Please try again in a moment.";
+
+// Slack message subtypes that carry something to verify; the rest are joins, topic changes and the like
+const SLACK_MESSAGE_SUBTYPES = ["file_share", "thread_broadcast"];
+
+// Admin routes are disabled unless ADMIN_API_TOKEN is set; callers send it as "Authorization: Bearer <token>"
+function rejectUnlessAdmin(c: any) {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return c.json(
+      {
+        status: "error",
+        message: "Admin API is disabled (ADMIN_API_TOKEN is not set)",
+      },
+      503,
+    );
+  }
+
+  const provided = Buffer.from(
+    c.req.header("Authorization")?.replace(/^Bearer\s+/i, "") ?? "",
+  );
+  const token = Buffer.from(expected);
+  if (
+    provided.length !== token.length ||
+    !crypto.timingSafeEqual(provided, token)
+  ) {
+    return c.json({ status: "error", message: "Unauthorized" }, 401);
+  }
+  return null;
+}
+
+function documentChangeResponse(c: any, result: DocumentChangeResult) {
+  if (!result.success) {
+    return c.json(
+      {
+        status: "error",
+        message: result.error,
+        existingSource: result.existingSource,
+      },
+      result.status,
+    );
+  }
+  return c.json({ status: "success", document: result });
+}
+
+function supersessionResponse(c: any, result: SupersessionResult) {
+  if (!result.success) {
+    return c.json({ status: "error", message: result.error }, result.status);
+  }
+  return c.json({
+    status: "success",
+    source: result.source,
+    versions: result.versions,
+  });
+}
+
 export const mastra = new Mastra({
   storage: sharedPostgresStorage,
+  // Run by the triggers when VERIFICATION_RUNNER=workflow; each is registered so its steps get Mastra
   workflows: {
     truthSentinelWorkflow,
+    whatsappVerificationWorkflow,
+    slackVerificationWorkflow,
+    discordVerificationWorkflow,
+    emailVerificationWorkflow,
   },
   agents: {
     truthSentinelAgent,
@@ -99,12 +227,16 @@ export const mastra = new Mastra({
       "inngest/hono",
       "hono",
       "hono/streaming",
+      "pdfjs-dist",
+      "@mastra/fastembed",
     ],
     sourcemap: true,
   },
   server: {
     host: "0.0.0.0",
     port: 5000,
+    // Leave room for document uploads plus multipart overhead
+    bodySizeLimit: MAX_UPLOAD_BYTES + 1024 * 1024,
     middleware: [
       async (c, next) => {
         const mastra = c.get("mastra");
@@ -153,7 +285,7 @@ export const mastra = new Mastra({
             status: "alive",
             bot: "Truth Sentinel",
             version: "1.0.0",
-            timestamp: new Date().toISOString()
+            timestamp: new Date().toISOString(),
           });
         },
       },
@@ -161,19 +293,23 @@ export const mastra = new Mastra({
       {
         path: "/api/verify-claim",
         method: "POST",
-        createHandler: async ({ mastra }) => async (c: any) => {
-          const logger = mastra?.getLogger();
-          try {
-            const body = await c.req.json();
-            const { text } = body;
+        createHandler:
+          async ({ mastra }) =>
+          async (c: any) => {
+            const logger = mastra?.getLogger();
+            try {
+              const body = await c.req.json();
+              const { text } = body;
 
-            if (!text) {
-              return c.json({ error: "Text is required" }, 400);
-            }
+              if (!text) {
+                return c.json({ error: "Text is required" }, 400);
+              }
 
-            logger?.info("🔍 [API] Received verification request", { textLength: text.length });
+              logger?.info("🔍 [API] Received verification request", {
+                textLength: text.length,
+              });
 
-            const prompt = `Analyze this claim and verify it against official university documents.
+              const prompt = `Analyze this claim and verify it against official university documents.
 
 CLAIM: "${text}"
 
@@ -183,53 +319,575 @@ INSTRUCTIONS:
 3. **MANDATORY**: Use perplexitySearchTool for final fact-checking and synthesis
 4. **CRITICAL**: If the claim is dramatic (e.g., "University Shut") and NO official source confirms it, mark it as a **HOAX**.
 5. Provide a concise 1-2 line verification result
-6. Format: "✅ VERIFIED" or "🚨 HOAX" or "ℹ️ UNABLE TO VERIFY" followed by the reason and source.`;
+6. Format: "✅ VERIFIED" or "🚨 HOAX" or "ℹ️ UNABLE TO VERIFY" followed by the reason and every source you relied on (URL, circular number or document name).`;
 
-            const response = await truthSentinelAgent.generate(prompt, {
-              resourceId: "truth-sentinel-api",
-              threadId: `api-request-${Date.now()}`,
-              maxSteps: 5,
-            });
+              const response = await truthSentinelAgent.generate(prompt, {
+                resourceId: "truth-sentinel-api",
+                threadId: `api-request-${Date.now()}`,
+                maxSteps: 5,
+                structuredOutput: {
+                  schema: verdictSchema,
+                  model: verdictModel,
+                  errorStrategy: "warn",
+                },
+              });
+
+              logger?.info("✅ [API] Verification complete", {
+                response: response.text,
+                verdict: response.object,
+              });
+
+              // The text answer is still usable when structuring it failed
+              const sources = runSources(response.toolResults);
+              const verdict = hoaxIfUnconfirmedDramaticClaim(
+                checkCitations(
+                  response.object ?? verdictFromText(response.text, text),
+                  sources,
+                  logger,
+                ),
+                text,
+                sources.official,
+                logger,
+              );
+
+              return c.json({
+                status: "success",
+                verdict,
+                message: renderVerdict(verdict, "plain"),
+                timestamp: new Date().toISOString(),
+              });
+            } catch (error: any) {
+              logger?.error("❌ [API] Error processing request", {
+                error: error.message,
+              });
+              return c.json(
+                {
+                  status: "error",
+                  message: "Internal server error during verification",
+                  details: error.message,
+                },
+                500,
+              );
+            }
+          },
+      },
+
+      {
+        path: "/api/admin/documents",
+        method: "GET",
+        createHandler:
+          async ({ mastra }) =>
+          async (c: any) => {
+            const rejection = rejectUnlessAdmin(c);
+            if (rejection) return rejection;
+
+            const logger = mastra?.getLogger();
+            try {
+              const documents = await listStoredDocuments(logger);
+              return c.json({
+                status: "success",
+                count: documents.length,
+                documents,
+              });
+            } catch (error: any) {
+              logger?.error("❌ [Admin API] Listing documents failed", {
+                error: error.message,
+              });
+              return c.json(
+                {
+                  status: "error",
+                  message: "Listing failed",
+                  details: error.message,
+                },
+                500,
+              );
+            }
+          },
+      },
+
+      {
+        // multipart/form-data with a "file" field, an optional "collection" (data/ sub-folder) and an
+        // optional "supersedes" naming the document this upload is a revision of
+        path: "/api/admin/documents",
+        method: "POST",
+        createHandler:
+          async ({ mastra }) =>
+          async (c: any) => {
+            const rejection = rejectUnlessAdmin(c);
+            if (rejection) return rejection;
+
+            const logger = mastra?.getLogger();
+            try {
+              const body = await c.req.parseBody();
+              const file = body.file;
+              if (!(file instanceof File)) {
+                return c.json(
+                  {
+                    status: "error",
+                    message: 'Upload the document as a "file" form field',
+                  },
+                  400,
+                );
+              }
+
+              logger?.info("📥 [Admin API] Document upload", {
+                name: file.name,
+                size: file.size,
+              });
+              const result = await storeDocument(
+                {
+                  fileName: file.name,
+                  collection:
+                    typeof body.collection === "string" ? body.collection : "",
+                  bytes: Buffer.from(await file.arrayBuffer()),
+                },
+                logger,
+              );
+
+              if (
+                result.success &&
+                typeof body.supersedes === "string" &&
+                body.supersedes
+              ) {
+                const supersession = await supersedeDocument(
+                  { source: body.supersedes, supersededBy: result.source },
+                  logger,
+                );
+                return c.json({
+                  status: "success",
+                  document: result,
+                  versions: supersession.success
+                    ? supersession.versions
+                    : undefined,
+                  // The upload itself succeeded, so a bad "supersedes" is reported rather than failing it
+                  supersessionError: supersession.success
+                    ? undefined
+                    : supersession.error,
+                });
+              }
+              return documentChangeResponse(c, result);
+            } catch (error: any) {
+              logger?.error("❌ [Admin API] Upload failed", {
+                error: error.message,
+              });
+              return c.json(
+                {
+                  status: "error",
+                  message: "Upload failed",
+                  details: error.message,
+                },
+                500,
+              );
+            }
+          },
+      },
+
+      {
+        // Replaces ?source=<path under data/> with the uploaded "file"
+        path: "/api/admin/documents",
+        method: "PUT",
+        createHandler:
+          async ({ mastra }) =>
+          async (c: any) => {
+            const rejection = rejectUnlessAdmin(c);
+            if (rejection) return rejection;
+
+            const logger = mastra?.getLogger();
+            try {
+              const source = c.req.query("source");
+              const body = await c.req.parseBody();
+              const file = body.file;
+              if (!source || !(file instanceof File)) {
+                return c.json(
+                  {
+                    status: "error",
+                    message:
+                      'Pass ?source=<document path> and the new version as a "file" form field',
+                  },
+                  400,
+                );
+              }
+
+              logger?.info("📥 [Admin API] Document replacement", {
+                source,
+                size: file.size,
+              });
+              const result = await storeDocument(
+                {
+                  fileName: file.name,
+                  bytes: Buffer.from(await file.arrayBuffer()),
+                  replaceSource: source,
+                },
+                logger,
+              );
+              return documentChangeResponse(c, result);
+            } catch (error: any) {
+              logger?.error("❌ [Admin API] Replacement failed", {
+                error: error.message,
+              });
+              return c.json(
+                {
+                  status: "error",
+                  message: "Replacement failed",
+                  details: error.message,
+                },
+                500,
+              );
+            }
+          },
+      },
+
+      {
+        path: "/api/admin/documents",
+        method: "DELETE",
+        createHandler:
+          async ({ mastra }) =>
+          async (c: any) => {
+            const rejection = rejectUnlessAdmin(c);
+            if (rejection) return rejection;
 
-            logger?.info("✅ [API] Verification complete", { response: response.text });
+            const logger = mastra?.getLogger();
+            const source = c.req.query("source");
+            if (!source) {
+              return c.json(
+                { status: "error", message: "Pass ?source=<document path>" },
+                400,
+              );
+            }
 
-            // POST-PROCESSING: Force HOAX for dramatic claims that got UNCERTAIN
-            let finalVerdict = response.text;
+            try {
+              return documentChangeResponse(
+                c,
+                await deleteStoredDocument(source, logger),
+              );
+            } catch (error: any) {
+              logger?.error("❌ [Admin API] Delete failed", {
+                error: error.message,
+              });
+              return c.json(
+                {
+                  status: "error",
+                  message: "Delete failed",
+                  details: error.message,
+                },
+                500,
+              );
+            }
+          },
+      },
 
-            if (finalVerdict && finalVerdict.includes("UNCERTAIN")) {
-              const dramaticKeywords = [
-                "university shut", "university closed", "college shut", "college closed",
-                "exam cancel", "exam postpone", "holiday declared", "classes cancel",
-                "result declared", "admission close"
-              ];
+      {
+        // Every version of ?source=, oldest first, with what superseded what
+        path: "/api/admin/documents/versions",
+        method: "GET",
+        createHandler:
+          async ({ mastra }) =>
+          async (c: any) => {
+            const rejection = rejectUnlessAdmin(c);
+            if (rejection) return rejection;
 
-              const messageText = text.toLowerCase();
-              const isDramaticClaim = dramaticKeywords.some(keyword => messageText.includes(keyword));
+            const logger = mastra?.getLogger();
+            const source = c.req.query("source");
+            if (!source) {
+              return c.json(
+                { status: "error", message: "Pass ?source=<document path>" },
+                400,
+              );
+            }
 
-              if (isDramaticClaim) {
-                logger?.warn("⚠️ [API] Overriding UNCERTAIN to HOAX for dramatic claim");
-                finalVerdict = `🚨 HOAX - No official announcement found for this claim. Source: Checked official sources`;
+            try {
+              return supersessionResponse(
+                c,
+                await listDocumentVersions(source, logger),
+              );
+            } catch (error: any) {
+              logger?.error("❌ [Admin API] Listing versions failed", {
+                error: error.message,
+              });
+              return c.json(
+                {
+                  status: "error",
+                  message: "Listing versions failed",
+                  details: error.message,
+                },
+                500,
+              );
+            }
+          },
+      },
+
+      {
+        // JSON { source, supersededBy, reason? }: marks source as replaced by the newer supersededBy
+        path: "/api/admin/documents/supersede",
+        method: "POST",
+        createHandler:
+          async ({ mastra }) =>
+          async (c: any) => {
+            const rejection = rejectUnlessAdmin(c);
+            if (rejection) return rejection;
+
+            const logger = mastra?.getLogger();
+            try {
+              const { source, supersededBy, reason } = await c.req.json();
+              if (
+                typeof source !== "string" ||
+                typeof supersededBy !== "string"
+              ) {
+                return c.json(
+                  {
+                    status: "error",
+                    message: "source and supersededBy are required",
+                  },
+                  400,
+                );
               }
+
+              logger?.info("🗂️ [Admin API] Marking document superseded", {
+                source,
+                supersededBy,
+              });
+              const result = await supersedeDocument(
+                {
+                  source,
+                  supersededBy,
+                  reason: typeof reason === "string" ? reason : undefined,
+                },
+                logger,
+              );
+              return supersessionResponse(c, result);
+            } catch (error: any) {
+              logger?.error("❌ [Admin API] Supersede failed", {
+                error: error.message,
+              });
+              return c.json(
+                {
+                  status: "error",
+                  message: "Supersede failed",
+                  details: error.message,
+                },
+                500,
+              );
+            }
+          },
+      },
+
+      {
+        // Makes ?source= current again
+        path: "/api/admin/documents/supersede",
+        method: "DELETE",
+        createHandler:
+          async ({ mastra }) =>
+          async (c: any) => {
+            const rejection = rejectUnlessAdmin(c);
+            if (rejection) return rejection;
+
+            const logger = mastra?.getLogger();
+            const source = c.req.query("source");
+            if (!source) {
+              return c.json(
+                { status: "error", message: "Pass ?source=<document path>" },
+                400,
+              );
+            }
+
+            try {
+              return supersessionResponse(
+                c,
+                await restoreDocument(source, logger),
+              );
+            } catch (error: any) {
+              logger?.error("❌ [Admin API] Restore failed", {
+                error: error.message,
+              });
+              return c.json(
+                {
+                  status: "error",
+                  message: "Restore failed",
+                  details: error.message,
+                },
+                500,
+              );
             }
+          },
+      },
 
+      {
+        // ?chatId=<id> returns the rules that chat gets and which of them it overrides;
+        // without it, the built-in defaults and every stored profile
+        path: "/api/admin/gatekeeper/rules",
+        method: "GET",
+        createHandler: async () => async (c: any) => {
+          const rejection = rejectUnlessAdmin(c);
+          if (rejection) return rejection;
+
+          const chatId = c.req.query("chatId");
+          if (!chatId) {
             return c.json({
               status: "success",
-              verdict: finalVerdict,
-              timestamp: new Date().toISOString(),
+              defaults: DEFAULT_GATEKEEPER_RULES,
+              profiles: await listGatekeeperProfiles(),
             });
+          }
 
-          } catch (error: any) {
-            logger?.error("❌ [API] Error processing request", { error: error.message });
+          const { rules, profile } = await getGatekeeperRules(chatId);
+          const stored = await getStoredGatekeeperRules(chatId);
+          return c.json({
+            status: "success",
+            chatId,
+            profile,
+            rules,
+            override: stored?.override ?? {},
+          });
+        },
+      },
+
+      {
+        // JSON body with any subset of the rule fields; merged into the chat's overrides unless ?replace=true.
+        // chatId=default changes the defaults for every chat without overrides of its own.
+        path: "/api/admin/gatekeeper/rules",
+        method: "PUT",
+        createHandler:
+          async ({ mastra }) =>
+          async (c: any) => {
+            const rejection = rejectUnlessAdmin(c);
+            if (rejection) return rejection;
+
+            const logger = mastra?.getLogger();
+            const chatId = c.req.query("chatId");
+            if (!chatId) {
+              return c.json(
+                {
+                  status: "error",
+                  message: "Pass ?chatId=<chat ID> or ?chatId=default",
+                },
+                400,
+              );
+            }
+
+            try {
+              const parsed = gatekeeperRulesOverrideSchema.safeParse(
+                await c.req.json(),
+              );
+              if (!parsed.success) {
+                return c.json(
+                  {
+                    status: "error",
+                    message: "Invalid rules",
+                    details: parsed.error.issues,
+                  },
+                  400,
+                );
+              }
+
+              const stored = await updateGatekeeperRules(chatId, parsed.data, {
+                replace: c.req.query("replace") === "true",
+                updatedBy: "admin-api",
+              });
+              logger?.info("🛡️ [Admin API] Gatekeeper rules updated", {
+                chatId,
+                fields: Object.keys(parsed.data),
+              });
+              const { rules } = await getGatekeeperRules(chatId);
+              return c.json({
+                status: "success",
+                chatId,
+                rules,
+                override: stored.override,
+              });
+            } catch (error: any) {
+              // Valid on its own, but out of order once merged with the thresholds already in effect
+              if (error instanceof z.ZodError) {
+                return c.json(
+                  {
+                    status: "error",
+                    message: "Invalid rules",
+                    details: error.issues,
+                  },
+                  400,
+                );
+              }
+              logger?.error("❌ [Admin API] Gatekeeper rules update failed", {
+                error: error.message,
+              });
+              return c.json(
+                {
+                  status: "error",
+                  message: "Update failed",
+                  details: error.message,
+                },
+                500,
+              );
+            }
+          },
+      },
+
+      {
+        // Drops ?chatId='s overrides so it falls back to the default profile
+        path: "/api/admin/gatekeeper/rules",
+        method: "DELETE",
+        createHandler:
+          async ({ mastra }) =>
+          async (c: any) => {
+            const rejection = rejectUnlessAdmin(c);
+            if (rejection) return rejection;
+
+            const chatId = c.req.query("chatId");
+            if (!chatId) {
+              return c.json(
+                { status: "error", message: "Pass ?chatId=<chat ID>" },
+                400,
+              );
+            }
+            if (!(await resetGatekeeperRules(chatId))) {
+              return c.json(
+                {
+                  status: "error",
+                  message: `No rules stored for chat ${chatId}`,
+                },
+                404,
+              );
+            }
+            mastra
+              ?.getLogger()
+              ?.info("🛡️ [Admin API] Gatekeeper rules reset", { chatId });
             return c.json({
-              status: "error",
-              message: "Internal server error during verification",
-              details: error.message
-            }, 500);
+              status: "success",
+              chatId,
+              rules: (await getGatekeeperRules(chatId)).rules,
+            });
+          },
+      },
+
+      {
+        // Rumor clusters, most widespread first (?since=<ISO date>&limit=); ?id= returns one cluster with
+        // every chat it was seen in
+        path: "/api/admin/claims/clusters",
+        method: "GET",
+        createHandler: async () => async (c: any) => {
+          const rejection = rejectUnlessAdmin(c);
+          if (rejection) return rejection;
+
+          const id = c.req.query("id");
+          if (id) {
+            const cluster = await getClaimCluster(id);
+            if (!cluster)
+              return c.json(
+                { status: "error", message: `No claim cluster ${id}` },
+                404,
+              );
+            return c.json({ status: "success", cluster });
           }
+
+          const limit = Number(c.req.query("limit") || 50);
+          const clusters = await listClaimClusters({
+            since: c.req.query("since"),
+            limit:
+              Number.isFinite(limit) && limit > 0 ? Math.min(limit, 500) : 50,
+          });
+          return c.json({ status: "success", clusters });
         },
       },
 
-
       ...registerTelegramTrigger({
         triggerType: "telegram/message",
         handler: async (mastra, triggerInfo) => {
@@ -244,16 +902,18 @@ INSTRUCTIONS:
 
           // Extract photo file ID
           const photos = triggerInfo.params.photos || [];
-          const largestPhoto = photos.length > 0
-            ? photos.reduce((prev: any, curr: any) =>
-              (curr.file_size || 0) > (prev.file_size || 0) ? curr : prev
-            )
-            : null;
+          const largestPhoto =
+            photos.length > 0
+              ? photos.reduce((prev: any, curr: any) =>
+                  (curr.file_size || 0) > (prev.file_size || 0) ? curr : prev,
+                )
+              : null;
 
           const threadId = `telegram-chat-${triggerInfo.params.chatId}-${Date.now()}`;
           const workflowInput = {
             chatId: triggerInfo.params.chatId,
             messageId: triggerInfo.params.messageId,
+            userId: triggerInfo.params.userId,
             userName: triggerInfo.params.userName,
             firstName: triggerInfo.params.firstName,
             message: triggerInfo.params.message || "",
@@ -261,24 +921,43 @@ INSTRUCTIONS:
             hasPhoto: triggerInfo.params.hasPhoto,
             hasDocument: triggerInfo.params.hasDocument,
             photoFileId: largestPhoto?.file_id,
+            photoFileUniqueId: largestPhoto?.file_unique_id,
             documentFileId: triggerInfo.params.document?.file_id,
+            documentFileName: triggerInfo.params.document?.file_name,
+            documentMimeType: triggerInfo.params.document?.mime_type,
             isForwarded: triggerInfo.params.isForwarded,
             replyToMessage: triggerInfo.params.replyToMessage,
             threadId,
           };
 
           logger?.info("📤 [Telegram Trigger] Prepared workflow input", {
-            hasAllRequiredFields: !!(workflowInput.chatId && workflowInput.messageId),
+            hasAllRequiredFields: !!(
+              workflowInput.chatId && workflowInput.messageId
+            ),
           });
 
           try {
-            logger?.info("🚀 [Telegram Trigger] Starting workflow directly...");
+            logger?.info("🚀 [Telegram Trigger] Starting verification...");
 
-            // Execute logic directly without Inngest
-            await verifyMessageLogic({ inputData: workflowInput, mastra });
+            // Files from whitelisted admins in a private chat are published, not fact-checked
+            const isAdminUpload =
+              triggerInfo.params.chatType === "private" &&
+              isTelegramAdmin(triggerInfo.params.userId) &&
+              (workflowInput.hasPhoto || workflowInput.hasDocument);
 
-            logger?.info("✅ [Telegram Trigger] Workflow completed successfully");
+            // Admin uploads are ingested in-process; anything else is verified (see VERIFICATION_RUNNER)
+            if (isAdminUpload) {
+              await ingestTelegramDocumentLogic({
+                inputData: workflowInput,
+                mastra,
+              });
+            } else {
+              await verifyMessageLogic({ inputData: workflowInput, mastra });
+            }
 
+            logger?.info(
+              "✅ [Telegram Trigger] Workflow completed successfully",
+            );
           } catch (error: any) {
             logger?.error("❌ [Telegram Trigger] Processing failed", {
               error: error.message,
@@ -287,23 +966,21 @@ INSTRUCTIONS:
 
             // Send fallback error message
             try {
-              const botToken = process.env.TELEGRAM_BOT_TOKEN;
-              if (botToken) {
-                await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({
-                    chat_id: triggerInfo.params.chatId,
-                    text: "⚠️ I'm experiencing technical difficulties. Please try again in a moment.",
-                    reply_to_message_id: triggerInfo.params.messageId,
-                  }),
-                });
-                logger?.info("✅ [Telegram Trigger] Error message sent to user");
-              }
+              await telegramAdapter.sendError(
+                {
+                  chatId: String(triggerInfo.params.chatId),
+                  messageId: String(triggerInfo.params.messageId),
+                },
+                TECHNICAL_DIFFICULTIES_REPLY,
+              );
+              logger?.info("✅ [Telegram Trigger] Error message sent to user");
             } catch (fallbackError) {
-              logger?.error("❌ [Telegram Trigger] Failed to send error message", {
-                error: fallbackError,
-              });
+              logger?.error(
+                "❌ [Telegram Trigger] Failed to send error message",
+                {
+                  error: fallbackError,
+                },
+              );
             }
           }
         },
@@ -330,17 +1007,23 @@ INSTRUCTIONS:
           };
 
           logger?.info("📤 [WhatsApp Trigger] Prepared workflow input", {
-            hasAllRequiredFields: !!(workflowInput.from && workflowInput.messageId),
+            hasAllRequiredFields: !!(
+              workflowInput.from && workflowInput.messageId
+            ),
           });
 
           try {
-            logger?.info("🚀 [WhatsApp Trigger] Starting workflow directly...");
+            logger?.info("🚀 [WhatsApp Trigger] Starting verification...");
 
-            // Execute logic directly without Inngest
-            await verifyWhatsAppMessageLogic({ inputData: workflowInput, mastra });
-
-            logger?.info("✅ [WhatsApp Trigger] Workflow completed successfully");
+            // Verify in-process (or as a workflow run, with VERIFICATION_RUNNER=workflow) and wait for the verdict
+            await verifyWhatsAppMessageLogic({
+              inputData: workflowInput,
+              mastra,
+            });
 
+            logger?.info(
+              "✅ [WhatsApp Trigger] Workflow completed successfully",
+            );
           } catch (error: any) {
             logger?.error("❌ [WhatsApp Trigger] Processing failed", {
               error: error.message,
@@ -349,31 +1032,222 @@ INSTRUCTIONS:
 
             // Send fallback error message
             try {
-              const accountSid = process.env.TWILIO_ACCOUNT_SID;
-              const authToken = process.env.TWILIO_AUTH_TOKEN;
-              const fromNumber = process.env.TWILIO_WHATSAPP_NUMBER || "whatsapp:+14155238886";
-
-              if (accountSid && authToken) {
-                const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
-
-                const formData = new URLSearchParams();
-                formData.append('From', fromNumber);
-                formData.append('To', triggerInfo.params.from);
-                formData.append('Body', "⚠️ I'm experiencing technical difficulties. Please try again in a moment.");
-
-                await fetch(url, {
-                  method: "POST",
-                  headers: {
-                    "Authorization": `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
-                    "Content-Type": "application/x-www-form-urlencoded",
-                  },
-                  body: formData.toString(),
-                });
+              await whatsappAdapter.sendError(
+                { chatId: triggerInfo.params.from },
+                TECHNICAL_DIFFICULTIES_REPLY,
+              );
+              logger?.info("✅ [WhatsApp Trigger] Error message sent to user");
+            } catch (fallbackError) {
+              logger?.error(
+                "❌ [WhatsApp Trigger] Failed to send error message",
+                {
+                  error: fallbackError,
+                },
+              );
+            }
+          }
+        },
+      }),
 
-                logger?.info("✅ [WhatsApp Trigger] Error message sent to user");
-              }
+      ...registerSlackTrigger({
+        triggerType: "slack/message.channels",
+        handler: async (mastra, triggerInfo) => {
+          const logger = mastra.getLogger();
+          const event = triggerInfo.payload.event;
+
+          if (
+            !event ||
+            (event.subtype && !SLACK_MESSAGE_SUBTYPES.includes(event.subtype))
+          ) {
+            return null;
+          }
+
+          logger?.info("🎯 [Slack Trigger] Received message", {
+            channel: triggerInfo.params.channelDisplayName,
+            user: event.user,
+            messageText: event.text?.substring(0, 50),
+            hasFiles: !!event.files?.length,
+          });
+
+          const workflowInput = {
+            channel: event.channel,
+            ts: event.ts,
+            thread_ts: event.thread_ts,
+            user: event.user,
+            text: event.text,
+            files: event.files,
+            attachments: event.attachments,
+          };
+
+          try {
+            logger?.info("🚀 [Slack Trigger] Starting verification...");
+
+            // Verify in-process (or as a workflow run, with VERIFICATION_RUNNER=workflow) and wait for the verdict
+            const result = await verifySlackMessageLogic({
+              inputData: workflowInput,
+              mastra,
+            });
+
+            logger?.info("✅ [Slack Trigger] Workflow completed successfully");
+            return result;
+          } catch (error: any) {
+            logger?.error("❌ [Slack Trigger] Processing failed", {
+              error: error.message,
+              stack: error.stack,
+            });
+
+            // Send fallback error message
+            try {
+              await slackAdapter.sendError(
+                {
+                  chatId: event.channel,
+                  messageId: event.ts,
+                  replyThread: event.thread_ts,
+                },
+                TECHNICAL_DIFFICULTIES_REPLY,
+              );
+              logger?.info("✅ [Slack Trigger] Error message sent to user");
+            } catch (fallbackError) {
+              logger?.error("❌ [Slack Trigger] Failed to send error message", {
+                error: fallbackError,
+              });
+            }
+            return { processed: false, skipped: false };
+          }
+        },
+      }),
+
+      ...registerDiscordTrigger({
+        triggerType: "discord/interaction",
+        handler: async (mastra, triggerInfo) => {
+          const logger = mastra.getLogger();
+          logger?.info("🎯 [Discord Trigger] Received message", {
+            channelId: triggerInfo.params.channelId,
+            userName: triggerInfo.params.userName,
+            messageText: triggerInfo.params.content.substring(0, 50),
+            hasAttachments: !!triggerInfo.params.attachments,
+          });
+
+          const workflowInput = {
+            interactionToken: triggerInfo.params.interactionToken,
+            channelId: triggerInfo.params.channelId,
+            messageId: triggerInfo.params.messageId,
+            userId: triggerInfo.params.userId,
+            userName: triggerInfo.params.userName,
+            content: triggerInfo.params.content,
+            isForwarded: triggerInfo.params.isForwarded,
+            attachments: triggerInfo.params.attachments,
+          };
+          const replyTarget = {
+            chatId: workflowInput.channelId,
+            messageId: workflowInput.messageId,
+            replyToken: workflowInput.interactionToken,
+          };
+
+          try {
+            logger?.info("🚀 [Discord Trigger] Starting verification...");
+
+            // Verify in-process (or as a workflow run, with VERIFICATION_RUNNER=workflow) and wait for the verdict
+            const result = await verifyDiscordMessageLogic({
+              inputData: workflowInput,
+              mastra,
+            });
+
+            // Someone asked for this check, so a message the gatekeeper skips still gets an answer
+            if (result.skipped) {
+              await discordAdapter.sendReply(
+                replyTarget,
+                `ℹ️ Not checked: ${result.skipReason || "this doesn't look like a claim to verify"}`,
+              );
+            }
+
+            logger?.info(
+              "✅ [Discord Trigger] Workflow completed successfully",
+            );
+          } catch (error: any) {
+            logger?.error("❌ [Discord Trigger] Processing failed", {
+              error: error.message,
+              stack: error.stack,
+            });
+
+            // Send fallback error message
+            try {
+              await discordAdapter.sendError(
+                replyTarget,
+                TECHNICAL_DIFFICULTIES_REPLY,
+              );
+              logger?.info("✅ [Discord Trigger] Error message sent to user");
+            } catch (fallbackError) {
+              logger?.error(
+                "❌ [Discord Trigger] Failed to send error message",
+                {
+                  error: fallbackError,
+                },
+              );
+            }
+          }
+        },
+      }),
+      ...registerEmailTrigger({
+        triggerType: "email/message",
+        handler: async (mastra, triggerInfo) => {
+          const logger = mastra.getLogger();
+          logger?.info("🎯 [Email Trigger] Received message", {
+            from: triggerInfo.params.from,
+            subject: triggerInfo.params.subject,
+            messageText: triggerInfo.params.text.substring(0, 50),
+            hasAttachments: !!triggerInfo.params.attachments,
+          });
+
+          const workflowInput = {
+            from: triggerInfo.params.from,
+            fromName: triggerInfo.params.fromName,
+            replyTo: triggerInfo.params.replyTo,
+            subject: triggerInfo.params.subject,
+            messageId: triggerInfo.params.messageId,
+            text: triggerInfo.params.text,
+            isForwarded: triggerInfo.params.isForwarded,
+            attachments: triggerInfo.params.attachments,
+          };
+          const replyTarget = {
+            chatId: workflowInput.replyTo ?? workflowInput.from,
+            messageId: workflowInput.messageId,
+            replyThread: workflowInput.subject,
+          };
+
+          try {
+            logger?.info("🚀 [Email Trigger] Starting verification...");
+
+            // Verify in-process (or as a workflow run, with VERIFICATION_RUNNER=workflow) and wait for the verdict
+            const result = await verifyEmailMessageLogic({
+              inputData: workflowInput,
+              mastra,
+            });
+
+            // Emailing the bot is asking for a check, so a message the gatekeeper skips still gets an answer
+            if (result.skipped) {
+              await emailAdapter.sendReply(
+                replyTarget,
+                `ℹ️ Not checked: ${result.skipReason || "this doesn't look like a claim to verify"}`,
+              );
+            }
+
+            logger?.info("✅ [Email Trigger] Workflow completed successfully");
+          } catch (error: any) {
+            logger?.error("❌ [Email Trigger] Processing failed", {
+              error: error.message,
+              stack: error.stack,
+            });
+
+            // Send fallback error message
+            try {
+              await emailAdapter.sendError(
+                replyTarget,
+                TECHNICAL_DIFFICULTIES_REPLY,
+              );
+              logger?.info("✅ [Email Trigger] Error message sent to user");
             } catch (fallbackError) {
-              logger?.error("❌ [WhatsApp Trigger] Failed to send error message", {
+              logger?.error("❌ [Email Trigger] Failed to send error message", {
                 error: fallbackError,
               });
             }
@@ -385,11 +1259,16 @@ INSTRUCTIONS:
   logger:
     process.env.NODE_ENV === "production"
       ? new ProductionPinoLogger({
-        name: "Mastra",
-        level: "info",
-      })
+          name: "Mastra",
+          level: "info",
+        })
       : new PinoLogger({
-        name: "Mastra",
-        level: "info",
-      }),
-});
\ No newline at end of file
+          name: "Mastra",
+          level: "info",
+        }),
+});
+
+// Keep the RAG index in sync with data/ as documents are added, edited or removed
+if (process.env.RAG_WATCH_DATA_DIR !== "false") {
+  watchDataDirectory(mastra.getLogger());
+}
@@ -0,0 +1,125 @@
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "been",
+  "by",
+  "for",
+  "from",
+  "has",
+  "have",
+  "in",
+  "is",
+  "it",
+  "its",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "this",
+  "to",
+  "was",
+  "were",
+  "will",
+  "with",
+  "all",
+  "any",
+  "not",
+]);
+
+// BM25 tuning constants (standard Okapi defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Lowercases and splits on anything that is not a letter, combining mark or digit, so
+ * Devanagari words keep their vowel signs.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+export interface Bm25Index {
+  docCount: number;
+  avgDocLength: number;
+  docLengths: number[];
+  termFreqs: Map<string, number>[];
+  docFreqs: Map<string, number>;
+}
+
+export function buildBm25Index(documents: string[]): Bm25Index {
+  const docFreqs = new Map<string, number>();
+  const termFreqs: Map<string, number>[] = [];
+  const docLengths: number[] = [];
+
+  for (const document of documents) {
+    const tokens = tokenize(document);
+    const freqs = new Map<string, number>();
+    for (const token of tokens) {
+      freqs.set(token, (freqs.get(token) || 0) + 1);
+    }
+    for (const token of freqs.keys()) {
+      docFreqs.set(token, (docFreqs.get(token) || 0) + 1);
+    }
+    termFreqs.push(freqs);
+    docLengths.push(tokens.length);
+  }
+
+  const totalLength = docLengths.reduce((sum, length) => sum + length, 0);
+
+  return {
+    docCount: documents.length,
+    avgDocLength: documents.length > 0 ? totalLength / documents.length : 0,
+    docLengths,
+    termFreqs,
+    docFreqs,
+  };
+}
+
+function idf(index: Bm25Index, term: string): number {
+  const df = index.docFreqs.get(term) || 0;
+  return Math.log(1 + (index.docCount - df + 0.5) / (df + 0.5));
+}
+
+/**
+ * Scores every document against the query, normalised to 0..1 by the best score a document
+ * could reach for this query. Each query term counts once, so repeating "exam" in the query
+ * doesn't inflate matches, and rare terms ("postponed") weigh more than common ones ("exam").
+ */
+export function scoreBm25(index: Bm25Index, query: string): number[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const scores = new Array<number>(index.docCount).fill(0);
+  if (queryTerms.length === 0 || index.docCount === 0) return scores;
+
+  const termIdfs = queryTerms.map((term) => idf(index, term));
+  const maxScore = termIdfs.reduce(
+    (sum, termIdf) => sum + termIdf * (K1 + 1),
+    0,
+  );
+
+  for (let doc = 0; doc < index.docCount; doc++) {
+    const freqs = index.termFreqs[doc];
+    const lengthNorm =
+      1 - B + (B * index.docLengths[doc]) / (index.avgDocLength || 1);
+    let score = 0;
+
+    queryTerms.forEach((term, i) => {
+      const tf = freqs.get(term);
+      if (!tf) return;
+      score += termIdfs[i] * ((tf * (K1 + 1)) / (tf + K1 * lengthNorm));
+    });
+
+    scores[doc] = maxScore > 0 ? Math.min(score / maxScore, 1) : 0;
+  }
+
+  return scores;
+}
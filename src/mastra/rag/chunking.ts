@@ -0,0 +1,125 @@
+import { NOTICE_TITLE_LINE } from "./noticeMetadata";
+
+export function chunkText(
+  text: string,
+  chunkSize: number = 500,
+  overlap: number = 100,
+): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    const end = Math.min(start + chunkSize, text.length);
+    let chunkEnd = end;
+
+    if (end < text.length) {
+      const lastPeriod = text.lastIndexOf(".", end);
+      const lastNewline = text.lastIndexOf("\n", end);
+      const breakPoint = Math.max(lastPeriod, lastNewline);
+      if (breakPoint > start + chunkSize / 2) {
+        chunkEnd = breakPoint + 1;
+      }
+    }
+
+    chunks.push(text.slice(start, chunkEnd).trim());
+    if (chunkEnd >= text.length) break;
+    start = Math.max(chunkEnd - overlap, start + 1);
+  }
+
+  return chunks.filter((chunk) => chunk.length > 50);
+}
+
+export interface TextBlock {
+  text: string;
+  // Character offset of the block in the text it was split from
+  offset: number;
+  // A whole notice, as opposed to prose around the notices (introductions, footers)
+  isNotice: boolean;
+}
+
+// Rows of dashes, equals signs, underscores or asterisks drawn between notices
+const SEPARATOR_LINE = /^\s*([-=_*~])\1{2,}\s*$/;
+const CIRCULAR_NUMBER_LINE =
+  /^\s*(?:(?:circular|notice|ref(?:erence)?|outward)\s*(?:no|number)|no)\.?\s*[:\-–]?\s*[A-Z0-9][\w()/.\-]*\d/i;
+// Lines that belong to a notice's header block without being its body
+const HEADER_DETAIL_LINE = /^\s*(?:date|dated|ref(?:erence)?)\b/i;
+
+/**
+ * Splits a collection of notices into one block per notice, using "NOTICE:" / "CIRCULAR:" /
+ * "Subject:" headers, circular number lines and separator rows as boundaries. A circular number,
+ * date and title on consecutive lines open a single notice. Returns null when the text holds
+ * fewer than two notices, i.e. it is ordinary prose or a single circular.
+ */
+export function splitNoticeBlocks(text: string): TextBlock[] | null {
+  const blocks: TextBlock[] = [];
+  let current: {
+    start: number;
+    end: number;
+    isNotice: boolean;
+    hasBody: boolean;
+    kinds: Set<string>;
+  } | null = null;
+
+  const close = () => {
+    if (!current) return;
+    const raw = text.slice(current.start, current.end);
+    const trimmed = raw.trim();
+    if (trimmed) {
+      blocks.push({
+        text: trimmed,
+        offset: current.start + raw.indexOf(trimmed),
+        isNotice: current.isNotice,
+      });
+    }
+    current = null;
+  };
+
+  let lineStart = 0;
+  while (lineStart < text.length) {
+    const newline = text.indexOf("\n", lineStart);
+    const lineEnd = newline === -1 ? text.length : newline + 1;
+    const line = text.slice(lineStart, lineEnd);
+
+    if (SEPARATOR_LINE.test(line)) {
+      close();
+      lineStart = lineEnd;
+      continue;
+    }
+
+    const kind = NOTICE_TITLE_LINE.test(line)
+      ? "title"
+      : CIRCULAR_NUMBER_LINE.test(line)
+        ? "number"
+        : null;
+    if (kind) {
+      const continuesHeader =
+        current?.isNotice && !current.hasBody && !current.kinds.has(kind);
+      if (!continuesHeader) {
+        close();
+        current = {
+          start: lineStart,
+          end: lineStart,
+          isNotice: true,
+          hasBody: false,
+          kinds: new Set(),
+        };
+      }
+      current!.kinds.add(kind);
+    } else {
+      current ??= {
+        start: lineStart,
+        end: lineStart,
+        isNotice: false,
+        hasBody: false,
+        kinds: new Set(),
+      };
+      if (line.trim() && !HEADER_DETAIL_LINE.test(line)) current.hasBody = true;
+    }
+
+    current!.end = lineEnd;
+    lineStart = lineEnd;
+  }
+  close();
+
+  return blocks.filter((block) => block.isNotice).length >= 2 ? blocks : null;
+}
@@ -0,0 +1,396 @@
+import { tokenize } from "./bm25";
+import {
+  findDateRanges,
+  MONTH_PATTERN,
+  MONTHS,
+  type DateMatch,
+} from "./noticeMetadata";
+
+export type Stance = "SUPPORTS" | "REFUTES" | "NEUTRAL";
+
+export interface StanceSpan {
+  kind: "date" | "status" | "amount" | "percentage";
+  // The wording in the claim and in the passage that agree or disagree
+  claim: string;
+  passage: string;
+}
+
+export interface StanceResult {
+  stance: Stance;
+  confidence: number;
+  // Share of the claim's topic words that also occur in the passage (0-1)
+  topicOverlap: number;
+  conflicts: StanceSpan[];
+  agreements: StanceSpan[];
+}
+
+// Below this the passage is about something else, so its dates and numbers say nothing about the claim
+const MIN_TOPIC_OVERLAP = 0.34;
+
+/**
+ * Events rumours are usually about. `denied` is checked first so "not postponed" or
+ * "as per schedule" is never read as the event happening.
+ */
+const STATUS_TERMS: { asserted: RegExp; denied: RegExp }[] = [
+  {
+    asserted: /\b(postpone[ds]?|deferred|rescheduled|pushed back|preponed)\b/i,
+    denied:
+      /\b(not (?:been )?(?:postponed|deferred|rescheduled)|as per (?:the )?(?:original )?schedule|as scheduled|no change in (?:the )?schedule|will be held as)\b/i,
+  },
+  {
+    asserted: /\b(cancel(?:l?ed|s)?|called off|scrapped)\b/i,
+    denied: /\b(not (?:been )?cancel\w*|will be (?:held|conducted) as)\b/i,
+  },
+  {
+    asserted: /\b(closed|shut|holiday|vacation|bandh)\b/i,
+    denied:
+      /\b(not (?:be )?closed|remain open|will be open|working day|no holiday)\b/i,
+  },
+  {
+    asserted: /\b(extended|extension)\b/i,
+    denied: /\b(not (?:been |be )?extended|no (?:further )?extension)\b/i,
+  },
+];
+
+const AMOUNT_PATTERNS = [
+  /(?:rs\.?|inr|₹)\s*(\d[\d,]*(?:\.\d+)?)/gi,
+  /(\d[\d,]*(?:\.\d+)?)\s*(?:\/-|rupees)/gi,
+];
+const PERCENTAGE_PATTERN = /(\d+(?:\.\d+)?)\s*(?:%|percent)/gi;
+
+// "Dec 5" / "5th December" without a year, as claims are usually written
+const PARTIAL_DATE_PATTERNS: { regex: RegExp; day: number; month: number }[] = [
+  {
+    regex: new RegExp(
+      `\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\b(?!,?\\s*\\d{4})`,
+      "gi",
+    ),
+    day: 1,
+    month: 2,
+  },
+  {
+    regex: new RegExp(
+      `\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?!,?\\s*\\d{4})`,
+      "gi",
+    ),
+    day: 2,
+    month: 1,
+  },
+];
+
+interface ClaimDate {
+  text: string;
+  index: number;
+  length: number;
+  // Full dates carry an ISO range; year-less ones only month and day
+  start?: string;
+  end?: string;
+  month?: number;
+  day?: number;
+}
+
+interface PassageDate extends DateMatch {
+  text: string;
+}
+
+function stem(token: string): string {
+  const stripped = token.replace(/(?:ations?|ments?|ings?|ed|es|s)$/, "");
+  return stripped.length >= 4 ? stripped : token;
+}
+
+function sameStem(a: string, b: string): boolean {
+  return (
+    a === b ||
+    (Math.min(a.length, b.length) >= 4 && (a.startsWith(b) || b.startsWith(a)))
+  );
+}
+
+function iso(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000;
+}
+
+function findClaimDates(claim: string): ClaimDate[] {
+  const dates: ClaimDate[] = findDateRanges(claim).map((d) => ({
+    text: claim.slice(d.index, d.index + d.length),
+    index: d.index,
+    length: d.length,
+    start: d.start,
+    end: d.end,
+  }));
+
+  for (const { regex, day, month } of PARTIAL_DATE_PATTERNS) {
+    for (const m of claim.matchAll(regex)) {
+      const index = m.index ?? 0;
+      if (
+        dates.some(
+          (d) => index < d.index + d.length && d.index < index + m[0].length,
+        )
+      )
+        continue;
+      dates.push({
+        text: m[0],
+        index,
+        length: m[0].length,
+        day: Number(m[day]),
+        month: MONTHS[m[month].toLowerCase().replace(/\.$/, "")],
+      });
+    }
+  }
+
+  return dates;
+}
+
+function findPassageDates(passage: string): PassageDate[] {
+  return (
+    findDateRanges(passage)
+      .map((d) => ({ ...d, text: passage.slice(d.index, d.index + d.length) }))
+      // "November 2024" only dates the notice; it can neither confirm nor contradict a specific day
+      .filter((d) => (d.text.match(/\d+/g) ?? []).length > 1)
+  );
+}
+
+/**
+ * Pins a claim date to a concrete day. A claim without a year takes whichever year around the
+ * passage date puts it closest, so "Jan 5" next to "25 December 2024 to 1 January 2025" is 2025.
+ */
+function resolveClaimDate(
+  date: ClaimDate,
+  near: PassageDate,
+): { start: string; end: string } {
+  if (date.start && date.end) return { start: date.start, end: date.end };
+  const year = Number(near.start.slice(0, 4));
+  const day = [year - 1, year, year + 1]
+    .map((y) => iso(y, date.month!, date.day!))
+    .reduce((a, b) =>
+      distanceToRange(b, near) < distanceToRange(a, near) ? b : a,
+    );
+  return { start: day, end: day };
+}
+
+function distanceToRange(day: string, range: DateMatch): number {
+  if (day >= range.start && day <= range.end) return 0;
+  return Math.min(daysBetween(day, range.start), daysBetween(day, range.end));
+}
+
+function sentenceAround(text: string, index: number): string {
+  const start =
+    Math.max(
+      text.lastIndexOf(".", index - 1),
+      text.lastIndexOf("\n", index - 1),
+    ) + 1;
+  const ends = [text.indexOf(".", index), text.indexOf("\n", index)].filter(
+    (i) => i !== -1,
+  );
+  return text.slice(start, ends.length > 0 ? Math.min(...ends) : text.length);
+}
+
+function compareDates(
+  claim: string,
+  passage: string,
+  topicStems: string[],
+  conflicts: StanceSpan[],
+  agreements: StanceSpan[],
+) {
+  const claimDates = findClaimDates(claim);
+  const passageDates = findPassageDates(passage);
+  if (claimDates.length === 0 || passageDates.length === 0) return;
+
+  for (const date of claimDates) {
+    const match = passageDates.find((p) => {
+      const { start, end } = resolveClaimDate(date, p);
+      return start <= p.end && end >= p.start;
+    });
+
+    if (match) {
+      agreements.push({ kind: "date", claim: date.text, passage: match.text });
+      continue;
+    }
+
+    // Contrast with the date whose sentence is closest to the claim's topic, first mention on ties
+    const contextScore = (p: PassageDate) => {
+      const stems = tokenize(sentenceAround(passage, p.index)).map(stem);
+      return topicStems.filter((t) => stems.some((s) => sameStem(t, s))).length;
+    };
+    const best = passageDates.reduce((a, b) =>
+      contextScore(b) > contextScore(a) ? b : a,
+    );
+    const resolved = resolveClaimDate(date, best);
+    // A year-less claim date landing months away is more likely about a different year's event
+    if (!date.start && distanceToRange(resolved.start, best) > 180) continue;
+
+    conflicts.push({ kind: "date", claim: date.text, passage: best.text });
+  }
+}
+
+function statusOf(
+  text: string,
+  term: (typeof STATUS_TERMS)[number],
+): { state: "asserted" | "denied"; span: string } | null {
+  const denied = text.match(term.denied);
+  if (denied) return { state: "denied", span: denied[0] };
+  const asserted = text.match(term.asserted);
+  if (asserted) return { state: "asserted", span: asserted[0] };
+  return null;
+}
+
+function compareStatus(
+  claim: string,
+  passage: string,
+  conflicts: StanceSpan[],
+  agreements: StanceSpan[],
+) {
+  for (const term of STATUS_TERMS) {
+    const claimStatus = statusOf(claim, term);
+    const passageStatus = statusOf(passage, term);
+    if (!claimStatus || !passageStatus) continue;
+
+    const span = {
+      kind: "status" as const,
+      claim: claimStatus.span,
+      passage: passageStatus.span,
+    };
+    if (claimStatus.state === passageStatus.state) {
+      agreements.push(span);
+    } else {
+      conflicts.push(span);
+    }
+  }
+}
+
+function findValues(
+  text: string,
+  patterns: RegExp[],
+): { value: number; text: string }[] {
+  return patterns.flatMap((pattern) =>
+    [...text.matchAll(pattern)].map((m) => ({
+      value: Number(m[1].replace(/,/g, "")),
+      text: m[0].trim(),
+    })),
+  );
+}
+
+function compareValues(
+  kind: "amount" | "percentage",
+  patterns: RegExp[],
+  claim: string,
+  passage: string,
+  conflicts: StanceSpan[],
+  agreements: StanceSpan[],
+) {
+  const passageValues = findValues(passage, patterns);
+  if (passageValues.length === 0) return;
+
+  for (const claimed of findValues(claim, patterns)) {
+    const match = passageValues.find((p) => p.value === claimed.value);
+    if (match) {
+      agreements.push({ kind, claim: claimed.text, passage: match.text });
+    } else {
+      conflicts.push({
+        kind,
+        claim: claimed.text,
+        passage: passageValues[0].text,
+      });
+    }
+  }
+}
+
+/**
+ * Topic words of the claim: everything except dates, amounts and the status verbs,
+ * which are compared separately.
+ */
+function topicStemsOf(claim: string): string[] {
+  let text = claim;
+  for (const date of findClaimDates(claim)) text = text.replace(date.text, " ");
+  for (const term of STATUS_TERMS)
+    text = text.replace(new RegExp(term.asserted.source, "gi"), " ");
+  for (const pattern of [...AMOUNT_PATTERNS, PERCENTAGE_PATTERN])
+    text = text.replace(pattern, " ");
+
+  const stems = tokenize(text)
+    .filter((token) => !/\d/.test(token) && !(token in MONTHS))
+    .map(stem);
+  return [...new Set(stems)];
+}
+
+/**
+ * Local, rule-based entailment check of one retrieved passage against a claim. Compares the
+ * concrete facts rumours hinge on (dates, postponed/cancelled/closed/extended, fee amounts,
+ * percentages) and reports the spans that agree or conflict. Passages on a different topic
+ * are NEUTRAL no matter what dates they mention.
+ */
+export function classifyStance(claim: string, passage: string): StanceResult {
+  const topicStems = topicStemsOf(claim);
+  const passageStems = tokenize(passage).map(stem);
+  const shared = topicStems.filter((t) =>
+    passageStems.some((s) => sameStem(t, s)),
+  );
+  const topicOverlap =
+    topicStems.length > 0 ? shared.length / topicStems.length : 0;
+
+  if (topicOverlap < MIN_TOPIC_OVERLAP) {
+    return {
+      stance: "NEUTRAL",
+      confidence: 1 - topicOverlap,
+      topicOverlap,
+      conflicts: [],
+      agreements: [],
+    };
+  }
+
+  const conflicts: StanceSpan[] = [];
+  const agreements: StanceSpan[] = [];
+  compareDates(claim, passage, topicStems, conflicts, agreements);
+  compareStatus(claim, passage, conflicts, agreements);
+  compareValues(
+    "amount",
+    AMOUNT_PATTERNS,
+    claim,
+    passage,
+    conflicts,
+    agreements,
+  );
+  compareValues(
+    "percentage",
+    [PERCENTAGE_PATTERN],
+    claim,
+    passage,
+    conflicts,
+    agreements,
+  );
+
+  if (conflicts.length > 0) {
+    return {
+      stance: "REFUTES",
+      confidence: Math.min(
+        0.95,
+        0.5 + 0.15 * conflicts.length + 0.3 * topicOverlap,
+      ),
+      topicOverlap,
+      conflicts,
+      agreements,
+    };
+  }
+  if (agreements.length > 0) {
+    return {
+      stance: "SUPPORTS",
+      confidence: Math.min(
+        0.95,
+        0.4 + 0.15 * agreements.length + 0.3 * topicOverlap,
+      ),
+      topicOverlap,
+      conflicts,
+      agreements,
+    };
+  }
+  return {
+    stance: "NEUTRAL",
+    confidence: 0.5,
+    topicOverlap,
+    conflicts,
+    agreements,
+  };
+}
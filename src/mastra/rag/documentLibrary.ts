@@ -0,0 +1,452 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { IMastraLogger } from "@mastra/core/logger";
+import { listDocumentFiles, SUPPORTED_EXTENSIONS } from "./documentLoaders";
+import {
+  clearSupersession,
+  DATA_DIR,
+  ensureKnowledgeBaseLoaded,
+  getDocumentVersions,
+  getSupersession,
+  markSuperseded,
+  syncKnowledgeBase,
+  wouldCreateSupersessionCycle,
+  type DocumentVersion,
+  type FileSyncResult,
+} from "./knowledgeBase";
+import { loadIndexedFiles } from "./knowledgeStore";
+
+// Largest document accepted through the admin API (RAG_MAX_UPLOAD_MB, default 20)
+export const MAX_UPLOAD_BYTES =
+  Number(process.env.RAG_MAX_UPLOAD_MB || 20) * 1024 * 1024;
+
+export interface StoredDocument {
+  source: string;
+  collection: string;
+  fileType: string;
+  size: number;
+  hash?: string;
+  chunkCount: number;
+  // False until the next sync has picked the file up
+  indexed: boolean;
+  modifiedAt: string;
+  version: number;
+  // Set when a newer document replaces this one; search skips it unless asked for old versions
+  supersededBy?: string;
+}
+
+export type DocumentChangeResult =
+  | {
+      success: true;
+      source: string;
+      status: FileSyncResult["status"];
+      chunkCount: number;
+      warning?: string;
+    }
+  | { success: false; status: number; error: string; existingSource?: string };
+
+export type SupersessionResult =
+  | { success: true; source: string; versions: DocumentVersion[] }
+  | { success: false; status: number; error: string };
+
+function fail(
+  status: number,
+  error: string,
+  existingSource?: string,
+): DocumentChangeResult {
+  return { success: false, status, error, existingSource };
+}
+
+function sanitizeSegment(segment: string): string {
+  return segment
+    .trim()
+    .replace(/[^\w.\- ]+/g, "_")
+    .replace(/^[.\s]+/, "");
+}
+
+/**
+ * Maps a data/-relative source to an absolute path, refusing anything that would leave data/
+ * or land in a hidden file the indexer skips.
+ */
+function resolveSource(source: string): string | null {
+  const segments = source.replace(/\\/g, "/").split("/").filter(Boolean);
+  if (
+    segments.length === 0 ||
+    segments.some((s) => s === ".." || s.startsWith("."))
+  )
+    return null;
+
+  const fullPath = path.join(DATA_DIR, ...segments);
+  return fullPath.startsWith(DATA_DIR + path.sep) ? fullPath : null;
+}
+
+const fileLocks = new Map<string, Promise<unknown>>();
+
+// Runs `task` once every earlier change to the same file has finished
+async function withFileLock<T>(
+  filePath: string,
+  task: () => Promise<T>,
+): Promise<T> {
+  const previous = fileLocks.get(filePath) ?? Promise.resolve();
+  const current = previous.then(task);
+  const settled = current.catch(() => undefined);
+  fileLocks.set(filePath, settled);
+  try {
+    return await current;
+  } finally {
+    if (fileLocks.get(filePath) === settled) fileLocks.delete(filePath);
+  }
+}
+
+function toSource(filePath: string): string {
+  return path.relative(DATA_DIR, filePath).split(path.sep).join("/");
+}
+
+export async function listStoredDocuments(
+  logger?: IMastraLogger,
+): Promise<StoredDocument[]> {
+  await ensureKnowledgeBaseLoaded(logger);
+  const indexed = await loadIndexedFiles();
+  if (!fs.existsSync(DATA_DIR)) return [];
+
+  return listDocumentFiles(DATA_DIR).map((filePath) => {
+    const source = toSource(filePath);
+    const stats = fs.statSync(filePath);
+    const file = indexed.get(source);
+    return {
+      source,
+      collection:
+        path.posix.dirname(source) === "." ? "" : path.posix.dirname(source),
+      fileType: path.extname(source).slice(1).toLowerCase(),
+      size: stats.size,
+      hash: file?.hash,
+      chunkCount: file?.chunkCount ?? 0,
+      indexed: !!file,
+      modifiedAt: stats.mtime.toISOString(),
+      version:
+        getDocumentVersions(source).find((v) => v.source === source)?.version ??
+        1,
+      supersededBy: getSupersession(source)?.supersededBy,
+    };
+  });
+}
+
+async function syncAndReport(
+  source: string,
+  logger?: IMastraLogger,
+): Promise<FileSyncResult | undefined> {
+  await ensureKnowledgeBaseLoaded(logger);
+  const report = await syncKnowledgeBase({}, logger);
+  return report.files.find((f) => f.source === source);
+}
+
+/**
+ * Validates an uploaded document and writes it into data/, then re-indexes. `replaceSource`
+ * overwrites an existing document in place; otherwise the file is stored as
+ * `<collection>/<fileName>` and must not exist yet. Identical content already in the knowledge
+ * base is rejected, and a file that fails to index is rolled back.
+ */
+export async function storeDocument(
+  {
+    fileName,
+    collection = "",
+    bytes,
+    replaceSource,
+  }: {
+    fileName: string;
+    collection?: string;
+    bytes: Buffer;
+    replaceSource?: string;
+  },
+  logger?: IMastraLogger,
+): Promise<DocumentChangeResult> {
+  const safeName = sanitizeSegment(path.basename(fileName));
+  const ext = path.extname(safeName).toLowerCase();
+
+  if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+    return fail(
+      415,
+      `Unsupported file type "${ext || safeName}". Allowed: ${SUPPORTED_EXTENSIONS.join(", ")}`,
+    );
+  }
+  if (bytes.length === 0) {
+    return fail(400, "File is empty");
+  }
+  if (bytes.length > MAX_UPLOAD_BYTES) {
+    const megabytes = (bytes.length / 1024 / 1024).toFixed(1);
+    return fail(
+      413,
+      `File is ${megabytes} MB; the limit is ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`,
+    );
+  }
+
+  const requested =
+    replaceSource ??
+    [
+      ...collection.split("/").map(sanitizeSegment).filter(Boolean),
+      safeName,
+    ].join("/");
+  const targetPath = resolveSource(requested);
+  if (!targetPath) {
+    return fail(400, `Invalid document path "${requested}"`);
+  }
+  const source = toSource(targetPath);
+
+  // Checked and written under the file's lock: two uploads of one name would otherwise both find it
+  // free, and the second would silently overwrite the first
+  return withFileLock(targetPath, async () => {
+    const exists = fs.existsSync(targetPath);
+    if (replaceSource) {
+      if (!exists) return fail(404, `Document "${source}" not found`);
+      if (path.extname(targetPath).toLowerCase() !== ext) {
+        return fail(
+          415,
+          `Replacement must have the same file type as "${source}"`,
+        );
+      }
+    } else if (exists) {
+      return fail(
+        409,
+        `Document "${source}" already exists; replace it instead`,
+        source,
+      );
+    }
+
+    // Hydrate first so the startup sync can't pick up the new file and hide the outcome of this upload
+    await ensureKnowledgeBaseLoaded(logger);
+    const indexedFiles = await loadIndexedFiles();
+    const hash = crypto.createHash("sha256").update(bytes).digest("hex");
+    for (const file of indexedFiles.values()) {
+      if (file.hash === hash && file.source !== source) {
+        return fail(
+          409,
+          `Same content is already published as "${file.source}"`,
+          file.source,
+        );
+      }
+    }
+
+    // Write next to the target under a hidden name so the watcher never sees a half-written file
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+    // A name of its own per upload, so two uploads of the same document never share a temp or backup file
+    const tempPath = path.join(
+      path.dirname(targetPath),
+      `.${path.basename(targetPath)}.${crypto.randomUUID()}.upload`,
+    );
+    const backupPath = exists ? `${tempPath}.previous` : null;
+    try {
+      fs.writeFileSync(tempPath, bytes);
+      if (backupPath) fs.copyFileSync(targetPath, backupPath);
+      fs.renameSync(tempPath, targetPath);
+    } catch (error) {
+      for (const leftover of [tempPath, backupPath]) {
+        if (leftover && fs.existsSync(leftover)) fs.unlinkSync(leftover);
+      }
+      throw error;
+    }
+
+    // Puts the previous version back, or removes the new document, and re-indexes what is left
+    const rollBack = async () => {
+      if (backupPath) {
+        fs.renameSync(backupPath, targetPath);
+      } else if (fs.existsSync(targetPath)) {
+        fs.unlinkSync(targetPath);
+      }
+      await syncAndReport(source, logger);
+    };
+
+    try {
+      let result: FileSyncResult | undefined;
+      try {
+        result = await syncAndReport(source, logger);
+      } catch (syncError) {
+        await rollBack().catch((rollBackError: any) => {
+          logger?.error(`❌ [Documents] Could not roll back ${source}`, {
+            error: rollBackError.message,
+          });
+        });
+        throw syncError;
+      }
+
+      if (result?.status === "failed") {
+        await rollBack();
+        return fail(422, `Could not index "${source}": ${result.error}`);
+      }
+
+      // The watcher may have indexed the file first, so read the count from the index itself
+      const chunkCount =
+        (await loadIndexedFiles()).get(source)?.chunkCount ?? 0;
+      logger?.info(
+        `📥 [Documents] ${replaceSource ? "Replaced" : "Published"} ${source}`,
+        {
+          size: bytes.length,
+          chunks: chunkCount,
+        },
+      );
+
+      return {
+        success: true,
+        source,
+        status: !exists
+          ? "added"
+          : indexedFiles.get(source)?.hash === hash
+            ? "unchanged"
+            : "updated",
+        chunkCount,
+        warning:
+          chunkCount === 0
+            ? "No text could be extracted (scanned PDF?); the document is stored but not searchable"
+            : undefined,
+      };
+    } finally {
+      if (backupPath && fs.existsSync(backupPath)) fs.unlinkSync(backupPath);
+    }
+  });
+}
+
+export async function deleteStoredDocument(
+  source: string,
+  logger?: IMastraLogger,
+): Promise<DocumentChangeResult> {
+  const targetPath = resolveSource(source);
+  if (!targetPath) {
+    return fail(400, `Invalid document path "${source}"`);
+  }
+
+  return withFileLock(targetPath, async () => {
+    if (!fs.existsSync(targetPath)) {
+      return fail(404, `Document "${source}" not found`);
+    }
+
+    const normalized = toSource(targetPath);
+    fs.unlinkSync(targetPath);
+    const result = await syncAndReport(normalized, logger);
+    logger?.info(`🗑️ [Documents] Deleted ${normalized}`, {
+      chunksRemoved: result?.chunksRemoved ?? 0,
+    });
+
+    return {
+      success: true,
+      source: normalized,
+      status: "removed",
+      chunkCount: 0,
+    };
+  });
+}
+
+async function indexedSource(source: string): Promise<string | null> {
+  const targetPath = resolveSource(source);
+  if (!targetPath) return null;
+  const normalized = toSource(targetPath);
+  return (await loadIndexedFiles()).has(normalized) ? normalized : null;
+}
+
+/**
+ * Marks `source` as replaced by the newer document `supersededBy`, e.g. an old timetable by its
+ * revision. Both must already be indexed; the old file stays in data/ for audit lookups.
+ */
+export async function supersedeDocument(
+  {
+    source,
+    supersededBy,
+    reason,
+  }: { source: string; supersededBy: string; reason?: string },
+  logger?: IMastraLogger,
+): Promise<SupersessionResult> {
+  await ensureKnowledgeBaseLoaded(logger);
+  const oldSource = await indexedSource(source);
+  const newSource = await indexedSource(supersededBy);
+  if (!oldSource)
+    return {
+      success: false,
+      status: 404,
+      error: `Document "${source}" not found`,
+    };
+  if (!newSource)
+    return {
+      success: false,
+      status: 404,
+      error: `Document "${supersededBy}" not found`,
+    };
+  if (wouldCreateSupersessionCycle(oldSource, newSource)) {
+    return {
+      success: false,
+      status: 409,
+      error: `"${newSource}" is the same as, or older than, "${oldSource}"; a document cannot supersede itself`,
+    };
+  }
+
+  await markSuperseded(
+    {
+      source: oldSource,
+      supersededBy: newSource,
+      reason: reason?.trim() || undefined,
+    },
+    logger,
+  );
+  return {
+    success: true,
+    source: oldSource,
+    versions: getDocumentVersions(oldSource),
+  };
+}
+
+/**
+ * Makes a superseded document current again. Links found from circular numbers cannot be
+ * removed here, since they are re-derived from the notice text on every sync.
+ */
+export async function restoreDocument(
+  source: string,
+  logger?: IMastraLogger,
+): Promise<SupersessionResult> {
+  await ensureKnowledgeBaseLoaded(logger);
+  const normalized = await indexedSource(source);
+  if (!normalized)
+    return {
+      success: false,
+      status: 404,
+      error: `Document "${source}" not found`,
+    };
+
+  const record = getSupersession(normalized);
+  if (!record)
+    return {
+      success: false,
+      status: 404,
+      error: `Document "${normalized}" is not superseded`,
+    };
+  if (record.origin === "circular") {
+    return {
+      success: false,
+      status: 409,
+      error: `"${record.supersededBy}" cites this document's circular number as superseded; edit or delete that notice instead`,
+    };
+  }
+
+  await clearSupersession(normalized, logger);
+  return {
+    success: true,
+    source: normalized,
+    versions: getDocumentVersions(normalized),
+  };
+}
+
+export async function listDocumentVersions(
+  source: string,
+  logger?: IMastraLogger,
+): Promise<SupersessionResult> {
+  await ensureKnowledgeBaseLoaded(logger);
+  const normalized = await indexedSource(source);
+  if (!normalized)
+    return {
+      success: false,
+      status: 404,
+      error: `Document "${source}" not found`,
+    };
+  return {
+    success: true,
+    source: normalized,
+    versions: getDocumentVersions(normalized),
+  };
+}
@@ -0,0 +1,322 @@
+import * as fs from "fs";
+import * as path from "path";
+import mammoth from "mammoth";
+import { chunkText, splitNoticeBlocks } from "./chunking";
+import { extractNoticeMetadata, type NoticeMetadata } from "./noticeMetadata";
+import { extractPdfPages } from "./pdfLoader";
+
+export interface DocumentChunk {
+  content: string;
+  // Path relative to data/, e.g. "syllabus/sem7.pdf"
+  source: string;
+  chunkIndex: number;
+  // Sub-folder of data/ the file lives in ("syllabus", "notices/2024"); "" for top-level files
+  collection: string;
+  fileType: string;
+  page?: number;
+  section?: string;
+  metadata: NoticeMetadata;
+}
+
+/**
+ * A run of extracted text plus the headings found in it. PDFs produce one segment per page,
+ * other formats a single segment for the whole file.
+ */
+export interface TextSegment {
+  text: string;
+  page?: number;
+  // Heading in effect at the start of the segment (carried over from earlier pages)
+  sectionAtStart?: string;
+  // Headings in reading order, with their character offset in `text`
+  headings: { title: string; offset: number }[];
+}
+
+export const SUPPORTED_EXTENSIONS = [
+  ".pdf",
+  ".txt",
+  ".md",
+  ".markdown",
+  ".html",
+  ".htm",
+  ".docx",
+  ".csv",
+];
+
+const HEADING_MARKER = "\u0000";
+
+// A circular's number, date and issuing office are on its first page
+const METADATA_HEAD_CHARS = 3000;
+
+// Notices up to this length are indexed as a single record
+const MAX_NOTICE_CHARS = 1500;
+
+/**
+ * Recursively lists supported documents under dataDir, skipping hidden files and folders.
+ */
+export function listDocumentFiles(dataDir: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(dataDir, { withFileTypes: true })) {
+    if (entry.name.startsWith(".")) continue;
+    const fullPath = path.join(dataDir, entry.name);
+
+    if (entry.isDirectory()) {
+      files.push(...listDocumentFiles(fullPath));
+    } else if (
+      entry.isFile() &&
+      SUPPORTED_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())
+    ) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+function linesToSegment(
+  lines: { text: string; isHeading: boolean }[],
+): TextSegment {
+  const headings: { title: string; offset: number }[] = [];
+  let text = "";
+
+  for (const line of lines) {
+    const normalized = line.text.replace(/[ \t]+/g, " ").trim();
+    if (!normalized) {
+      // Keep paragraph breaks so the window splitter can break on them
+      if (text && !text.endsWith("\n\n")) text += "\n";
+      continue;
+    }
+    if (line.isHeading) {
+      headings.push({ title: normalized, offset: text.length });
+    }
+    text += normalized + "\n";
+  }
+
+  return { text: text.trim(), headings };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+}
+
+export function htmlToSegment(html: string): TextSegment {
+  const text = html
+    .replace(/<(script|style|noscript|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi,
+      (_, inner) => `\n${HEADING_MARKER}${inner.replace(/\s+/g, " ")}\n`,
+    )
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, " | ")
+    .replace(
+      /<\/(p|div|li|tr|table|section|article|ul|ol|blockquote|pre)>/gi,
+      "\n",
+    )
+    .replace(/<[^>]+>/g, "");
+
+  return linesToSegment(
+    decodeEntities(text)
+      .split("\n")
+      .map((line) => ({
+        text: line.replace(HEADING_MARKER, "").replace(/\s*\|\s*$/, ""),
+        isHeading: line.startsWith(HEADING_MARKER),
+      })),
+  );
+}
+
+export function markdownToSegment(markdown: string): TextSegment {
+  return linesToSegment(
+    markdown.split("\n").map((line) => {
+      const heading = line.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+      const text = (heading ? heading[1] : line)
+        .replace(/!?\[([^\]]*)\]\(([^)]*)\)/g, "$1 ($2)")
+        .replace(/(\*\*|__|`)/g, "");
+      return { text, isHeading: !!heading };
+    }),
+  );
+}
+
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+/**
+ * Turns a CSV export (e.g. a timetable) into one "Header: value; Header: value" line per row,
+ * so each chunk is self-describing without the header row.
+ */
+export function csvToSegment(content: string): TextSegment {
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ""));
+  if (!header) return { text: "", headings: [] };
+
+  const lines = rows.map((row) =>
+    row
+      .map((cell, i) => ({
+        label: header[i]?.trim() || `Column ${i + 1}`,
+        value: cell.trim(),
+      }))
+      .filter((cell) => cell.value)
+      .map((cell) => `${cell.label}: ${cell.value}`)
+      .join("; "),
+  );
+
+  return { text: lines.join("\n"), headings: [] };
+}
+
+async function loadSegments(
+  filePath: string,
+  logger?: any,
+): Promise<TextSegment[]> {
+  const ext = path.extname(filePath).toLowerCase();
+
+  switch (ext) {
+    case ".pdf":
+      return extractPdfPages(filePath, logger);
+    case ".md":
+    case ".markdown":
+      return [markdownToSegment(fs.readFileSync(filePath, "utf-8"))];
+    case ".html":
+    case ".htm":
+      return [htmlToSegment(fs.readFileSync(filePath, "utf-8"))];
+    case ".docx": {
+      // Going through HTML keeps Word heading styles as section headings
+      const { value } = await mammoth.convertToHtml({ path: filePath });
+      return [htmlToSegment(value)];
+    }
+    case ".csv":
+      return [csvToSegment(fs.readFileSync(filePath, "utf-8"))];
+    default:
+      return [{ text: fs.readFileSync(filePath, "utf-8"), headings: [] }];
+  }
+}
+
+function sectionAt(segment: TextSegment, offset: number): string | undefined {
+  let section = segment.sectionAtStart;
+  for (const heading of segment.headings) {
+    if (heading.offset > offset) break;
+    section = heading.title;
+  }
+  return section;
+}
+
+/**
+ * Loads and chunks a single document. `source` and `collection` are derived from the
+ * file's path relative to dataDir.
+ */
+export async function loadDocument(
+  filePath: string,
+  dataDir: string,
+  logger?: any,
+): Promise<DocumentChunk[]> {
+  const source = path.relative(dataDir, filePath).split(path.sep).join("/");
+  const collection =
+    path.posix.dirname(source) === "." ? "" : path.posix.dirname(source);
+  const fileType = path.extname(filePath).slice(1).toLowerCase();
+
+  const chunks: DocumentChunk[] = [];
+  const segments = await loadSegments(filePath, logger);
+
+  // Files collecting several notices are split into one record per notice, each with its own
+  // metadata; anything else is window-chunked and shares the metadata of its opening text
+  const blocksBySegment = segments.map((segment) =>
+    splitNoticeBlocks(segment.text),
+  );
+  const isCollection = blocksBySegment.some((blocks) => blocks !== null);
+  const firstSegment = segments.find((segment) => segment.text);
+  const documentMetadata = isCollection
+    ? {}
+    : extractNoticeMetadata(
+        segments
+          .map((segment) => segment.text)
+          .join("\n")
+          .trim()
+          .slice(0, METADATA_HEAD_CHARS),
+        firstSegment?.headings[0]?.title,
+      );
+
+  segments.forEach((segment, i) => {
+    if (!segment.text) return;
+
+    const blocks = blocksBySegment[i] ?? [
+      { text: segment.text, offset: 0, isNotice: false },
+    ];
+    for (const block of blocks) {
+      const metadata = block.isNotice
+        ? extractNoticeMetadata(block.text)
+        : documentMetadata;
+      // Long notices still go through the window splitter, but every piece keeps the notice's metadata
+      const pieces =
+        block.isNotice && block.text.length <= MAX_NOTICE_CHARS
+          ? [block.text]
+          : chunkText(block.text);
+
+      let searchFrom = 0;
+      for (const piece of pieces) {
+        const offset = Math.max(
+          block.text.indexOf(piece, searchFrom),
+          searchFrom,
+        );
+        searchFrom = offset;
+        const section = sectionAt(segment, block.offset + offset);
+
+        chunks.push({
+          content: piece,
+          source,
+          chunkIndex: chunks.length,
+          collection,
+          fileType,
+          page: segment.page,
+          section: block.isNotice ? (metadata.title ?? section) : section,
+          metadata,
+        });
+      }
+    }
+  });
+
+  return chunks;
+}
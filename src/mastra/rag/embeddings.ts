@@ -0,0 +1,104 @@
+import { embedMany, type EmbeddingModel } from "ai";
+import { fastembed } from "@mastra/fastembed";
+import { tokenize } from "./bm25";
+
+export interface EmbeddingProvider {
+  // Stored next to every vector so switching models triggers re-embedding instead of mixing spaces
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const BATCH_SIZE = 64;
+
+function aiSdkProvider(
+  id: string,
+  model: EmbeddingModel<string>,
+): EmbeddingProvider {
+  return {
+    id,
+    embed: async (texts) => {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+        const { embeddings } = await embedMany({
+          model,
+          values: texts.slice(i, i + BATCH_SIZE),
+        });
+        vectors.push(...embeddings);
+      }
+      return vectors;
+    },
+  };
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Dependency-free fallback: feature-hashes words and character trigrams into a fixed-size vector.
+ * Catches spelling variants the lexical scorer misses; useful offline or in development.
+ */
+function hashingProvider(dimensions: number = 512): EmbeddingProvider {
+  return {
+    id: `hashing-${dimensions}`,
+    embed: async (texts) =>
+      texts.map((text) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        for (const token of tokenize(text)) {
+          const features = [token];
+          const padded = `^${token}$`;
+          for (let i = 0; i + 3 <= padded.length; i++)
+            features.push(padded.slice(i, i + 3));
+
+          for (const feature of features) {
+            const hash = fnv1a(feature);
+            vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+          }
+        }
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+        return vector.map((v) => v / norm);
+      }),
+  };
+}
+
+const providerFactories: Record<string, () => EmbeddingProvider> = {
+  fastembed: () =>
+    aiSdkProvider("fastembed/bge-small-en-v1.5", fastembed.small),
+  "fastembed-base": () =>
+    aiSdkProvider("fastembed/bge-base-en-v1.5", fastembed.base),
+  hashing: () => hashingProvider(),
+};
+
+let activeProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    const name = process.env.RAG_EMBEDDING_MODEL || "fastembed";
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new Error(
+        `Unknown RAG_EMBEDDING_MODEL "${name}". Available: ${Object.keys(providerFactories).join(", ")}`,
+      );
+    }
+    activeProvider = factory();
+  }
+  return activeProvider;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,593 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { buildBm25Index, scoreBm25, type Bm25Index } from "./bm25";
+import {
+  listDocumentFiles,
+  loadDocument,
+  SUPPORTED_EXTENSIONS,
+  type DocumentChunk,
+} from "./documentLoaders";
+import { cosineSimilarity, getEmbeddingProvider } from "./embeddings";
+import { isExpired } from "./noticeMetadata";
+import {
+  chunkId,
+  deleteDocument,
+  deleteSupersessions,
+  loadIndexedChunks,
+  loadIndexedFiles,
+  loadSupersessions,
+  replaceCircularSupersessions,
+  saveDocument,
+  saveSupersession,
+  updateChunkEmbeddings,
+  type IndexedChunk,
+  type Supersession,
+} from "./knowledgeStore";
+
+export const DATA_DIR = path.join(process.cwd(), "data");
+
+// Share of the final score coming from the dense (semantic) side of the hybrid retriever
+const SEMANTIC_WEIGHT = 0.6;
+
+// Bump when chunking or metadata extraction changes, so files indexed by an older version
+// are re-processed on the next sync even though their content hash is the same
+const INDEX_VERSION = 5;
+
+// Taken off the score, for ranking only, of a notice that may have lapsed by the asOfDate searched for:
+// it still beats a dated notice that matches the query clearly worse
+const UNKNOWN_VALIDITY_PENALTY = 0.1;
+
+// Wait for a burst of file events (copying a large PDF, unzipping a folder) to settle before syncing
+const WATCH_DEBOUNCE_MS = 2000;
+
+export interface ScoredChunk extends IndexedChunk {
+  lexicalScore: number;
+  semanticScore: number;
+  relevanceScore: number;
+  // 1 for the original document, +1 for each revision that superseded it
+  version: number;
+  supersededBy?: string;
+}
+
+export interface DocumentVersion {
+  source: string;
+  version: number;
+  current: boolean;
+  supersededBy?: string;
+  reason?: string;
+  origin?: Supersession["origin"];
+  markedAt?: string;
+}
+
+export interface FileSyncResult {
+  source: string;
+  status: "added" | "updated" | "removed" | "unchanged" | "failed";
+  chunksAdded: number;
+  chunksRemoved: number;
+  error?: string;
+}
+
+export interface SyncReport {
+  files: FileSyncResult[];
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  failed: number;
+  totalChunks: number;
+}
+
+let indexedChunks: IndexedChunk[] = [];
+let bm25Index: Bm25Index = buildBm25Index([]);
+// Superseded document -> the record naming its replacement
+let supersessions = new Map<string, Supersession>();
+let loading: Promise<void> | null = null;
+// Syncs are serialized so the watcher and reload-documents never interleave writes
+let syncQueue: Promise<unknown> = Promise.resolve();
+
+function setIndex(chunks: IndexedChunk[]) {
+  indexedChunks = chunks;
+  bm25Index = buildBm25Index(
+    chunks.map((chunk) => `${chunk.section ?? ""}\n${chunk.content}`),
+  );
+}
+
+async function embedChunks(
+  chunks: DocumentChunk[],
+  logger?: any,
+): Promise<IndexedChunk[]> {
+  const provider = getEmbeddingProvider();
+  let embeddings: number[][] = [];
+
+  if (chunks.length > 0) {
+    try {
+      embeddings = await provider.embed(chunks.map((chunk) => chunk.content));
+    } catch (error: any) {
+      // Keep the lexical index usable even if the embedding model can't be loaded
+      logger?.error(
+        "❌ [RAG] Embedding failed, falling back to lexical-only search",
+        {
+          model: provider.id,
+          error: error.message,
+        },
+      );
+    }
+  }
+
+  return chunks.map((chunk, i) => ({
+    ...chunk,
+    id: chunkId(chunk),
+    embedding: embeddings[i] ?? [],
+    embeddingModel: embeddings[i] ? provider.id : "",
+  }));
+}
+
+function normalizeCircularNumber(number: string): string {
+  return number.toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * A notice that says "in supersession of Circular No. X" supersedes every other document carrying
+ * circular number X. Notices inside the same file are not tracked, only whole documents.
+ */
+function findCircularSupersessions(chunks: IndexedChunk[]): Supersession[] {
+  const sourcesByNumber = new Map<string, Set<string>>();
+  for (const chunk of chunks) {
+    if (!chunk.metadata.circularNumber) continue;
+    const key = normalizeCircularNumber(chunk.metadata.circularNumber);
+    if (!sourcesByNumber.has(key)) sourcesByNumber.set(key, new Set());
+    sourcesByNumber.get(key)!.add(chunk.source);
+  }
+
+  const found = new Map<string, Supersession>();
+  const markedAt = new Date().toISOString();
+  for (const chunk of chunks) {
+    if (!chunk.metadata.supersedes) continue;
+    for (const source of sourcesByNumber.get(
+      normalizeCircularNumber(chunk.metadata.supersedes),
+    ) ?? []) {
+      if (source === chunk.source) continue;
+      found.set(source, {
+        source,
+        supersededBy: chunk.source,
+        reason: `Issued in supersession of circular No. ${chunk.metadata.supersedes}`,
+        origin: "circular",
+        markedAt,
+      });
+    }
+  }
+  return [...found.values()];
+}
+
+async function refreshSupersessions() {
+  await replaceCircularSupersessions(findCircularSupersessions(indexedChunks));
+  supersessions = await loadSupersessions();
+}
+
+function hashFile(filePath: string): { hash: string; size: number } {
+  const bytes = fs.readFileSync(filePath);
+  return {
+    hash: crypto.createHash("sha256").update(bytes).digest("hex"),
+    size: bytes.length,
+  };
+}
+
+function toSource(filePath: string): string {
+  return path.relative(DATA_DIR, filePath).split(path.sep).join("/");
+}
+
+async function runSync(
+  { force }: { force: boolean },
+  logger?: any,
+): Promise<SyncReport> {
+  if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    logger?.info(`📁 [RAG] Created data directory: ${DATA_DIR}`);
+  }
+
+  const indexedFiles = await loadIndexedFiles();
+  const files: FileSyncResult[] = [];
+  const seen = new Set<string>();
+
+  for (const filePath of listDocumentFiles(DATA_DIR)) {
+    const source = toSource(filePath);
+    seen.add(source);
+
+    try {
+      const { hash, size } = hashFile(filePath);
+      const previous = indexedFiles.get(source);
+
+      if (
+        !force &&
+        previous?.hash === hash &&
+        previous.indexVersion === INDEX_VERSION
+      ) {
+        files.push({
+          source,
+          status: "unchanged",
+          chunksAdded: 0,
+          chunksRemoved: 0,
+        });
+        continue;
+      }
+
+      const chunks = await embedChunks(
+        await loadDocument(filePath, DATA_DIR, logger),
+        logger,
+      );
+      await saveDocument(
+        {
+          source,
+          hash,
+          size,
+          chunkCount: chunks.length,
+          indexVersion: INDEX_VERSION,
+        },
+        chunks,
+      );
+
+      files.push({
+        source,
+        status: previous ? "updated" : "added",
+        chunksAdded: chunks.length,
+        chunksRemoved: previous?.chunkCount ?? 0,
+      });
+      logger?.info(
+        `✅ [RAG] ${previous ? "Re-indexed" : "Indexed"} ${source} (${chunks.length} chunks)`,
+      );
+    } catch (error: any) {
+      logger?.error(`❌ [RAG] Error indexing ${source}:`, {
+        error: error.message,
+      });
+      files.push({
+        source,
+        status: "failed",
+        chunksAdded: 0,
+        chunksRemoved: 0,
+        error: error.message,
+      });
+    }
+  }
+
+  for (const [source, previous] of indexedFiles) {
+    if (seen.has(source)) continue;
+    await deleteDocument(source);
+    // A deleted revision makes the version it replaced current again
+    await deleteSupersessions(source, { includeSuccessors: true });
+    files.push({
+      source,
+      status: "removed",
+      chunksAdded: 0,
+      chunksRemoved: previous.chunkCount,
+    });
+    logger?.info(`🗑️ [RAG] Removed ${source} from index`);
+  }
+
+  const changed = files.some(
+    (f) => f.status !== "unchanged" && f.status !== "failed",
+  );
+  if (changed || indexedChunks.length === 0) {
+    setIndex(await loadIndexedChunks());
+    await refreshSupersessions();
+  }
+
+  const count = (status: FileSyncResult["status"]) =>
+    files.filter((f) => f.status === status).length;
+  return {
+    files,
+    added: count("added"),
+    updated: count("updated"),
+    removed: count("removed"),
+    unchanged: count("unchanged"),
+    failed: count("failed"),
+    totalChunks: indexedChunks.length,
+  };
+}
+
+/**
+ * Brings the persisted index in line with data/: only files whose content hash changed are
+ * re-chunked and re-embedded, and chunks of deleted files are dropped. `force` re-indexes everything.
+ */
+export function syncKnowledgeBase(
+  { force = false }: { force?: boolean } = {},
+  logger?: any,
+): Promise<SyncReport> {
+  const run = syncQueue.then(() => runSync({ force }, logger));
+  syncQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function hydrate(logger?: any) {
+  const stored = await loadIndexedChunks();
+
+  const providerId = getEmbeddingProvider().id;
+  const stale = stored.filter((chunk) => chunk.embeddingModel !== providerId);
+  if (stale.length > 0) {
+    logger?.info(
+      `🧮 [RAG] Re-embedding ${stale.length} chunks for model ${providerId}`,
+    );
+    const refreshed = await embedChunks(stale, logger);
+    await updateChunkEmbeddings(refreshed);
+    const byId = new Map(refreshed.map((chunk) => [chunk.id, chunk]));
+    setIndex(stored.map((chunk) => byId.get(chunk.id) ?? chunk));
+  } else {
+    setIndex(stored);
+  }
+
+  await refreshSupersessions();
+  logger?.info(
+    `📚 [RAG] Loaded ${indexedChunks.length} chunks from persistent index`,
+    {
+      superseded: supersessions.size,
+    },
+  );
+
+  // Pick up files added, changed or deleted while the server was down
+  const report = await syncKnowledgeBase({}, logger);
+  if (report.added + report.updated + report.removed > 0) {
+    logger?.info("📚 [RAG] Startup sync applied changes", {
+      added: report.added,
+      updated: report.updated,
+      removed: report.removed,
+    });
+  }
+}
+
+export function ensureKnowledgeBaseLoaded(logger?: any): Promise<void> {
+  if (!loading) {
+    loading = hydrate(logger).catch((error) => {
+      loading = null;
+      throw error;
+    });
+  }
+  return loading;
+}
+
+export function getIndexedChunkCount(): number {
+  return indexedChunks.length;
+}
+
+export function getDocumentChunks(source: string): IndexedChunk[] {
+  return indexedChunks.filter((chunk) => chunk.source === source);
+}
+
+function latestVersionOf(source: string): string {
+  const visited = new Set<string>();
+  let current = source;
+  while (supersessions.has(current) && !visited.has(current)) {
+    visited.add(current);
+    current = supersessions.get(current)!.supersededBy;
+  }
+  return current;
+}
+
+function versionNumber(source: string, visited = new Set<string>()): number {
+  visited.add(source);
+  let version = 1;
+  for (const record of supersessions.values()) {
+    if (record.supersededBy === source && !visited.has(record.source)) {
+      version = Math.max(version, versionNumber(record.source, visited) + 1);
+    }
+  }
+  return version;
+}
+
+export function getSupersession(source: string): Supersession | undefined {
+  return supersessions.get(source);
+}
+
+/**
+ * Every version in the document's lineage, oldest first, whichever version `source` names.
+ */
+export function getDocumentVersions(source: string): DocumentVersion[] {
+  const lineage = new Set<string>();
+  const pending = [latestVersionOf(source)];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (lineage.has(current)) continue;
+    lineage.add(current);
+    for (const record of supersessions.values()) {
+      if (record.supersededBy === current) pending.push(record.source);
+    }
+  }
+
+  return [...lineage]
+    .map((version) => {
+      const record = supersessions.get(version);
+      return {
+        source: version,
+        version: versionNumber(version),
+        current: !record,
+        supersededBy: record?.supersededBy,
+        reason: record?.reason,
+        origin: record?.origin,
+        markedAt: record?.markedAt,
+      };
+    })
+    .sort((a, b) => a.version - b.version || a.source.localeCompare(b.source));
+}
+
+/**
+ * Records that `source` is replaced by `supersededBy`. Callers validate that both are indexed
+ * and that the link does not create a cycle (see wouldCreateSupersessionCycle).
+ */
+export async function markSuperseded(
+  {
+    source,
+    supersededBy,
+    reason,
+  }: { source: string; supersededBy: string; reason?: string },
+  logger?: any,
+): Promise<void> {
+  await ensureKnowledgeBaseLoaded(logger);
+  const record: Supersession = {
+    source,
+    supersededBy,
+    reason,
+    origin: "manual",
+    markedAt: new Date().toISOString(),
+  };
+  await saveSupersession(record);
+  supersessions.set(source, record);
+  logger?.info(`🗂️ [RAG] ${source} superseded by ${supersededBy}`, { reason });
+}
+
+export async function clearSupersession(
+  source: string,
+  logger?: any,
+): Promise<boolean> {
+  await ensureKnowledgeBaseLoaded(logger);
+  if (!supersessions.has(source)) return false;
+  await deleteSupersessions(source);
+  // A circular-number link that still applies comes straight back
+  await refreshSupersessions();
+  logger?.info(`🗂️ [RAG] ${source} no longer marked as superseded`);
+  return true;
+}
+
+export function wouldCreateSupersessionCycle(
+  source: string,
+  supersededBy: string,
+): boolean {
+  return latestVersionOf(supersededBy) === source || supersededBy === source;
+}
+
+let watcher: fs.FSWatcher | null = null;
+
+/**
+ * Watches data/ recursively and runs an incremental sync shortly after files change,
+ * so a circular dropped into the folder is searchable without calling reload-documents.
+ */
+export function watchDataDirectory(logger?: any): void {
+  if (watcher) return;
+  if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
+
+  let timer: NodeJS.Timeout | null = null;
+
+  watcher = fs.watch(DATA_DIR, { recursive: true }, (_event, filename) => {
+    const ext = filename ? path.extname(filename.toString()).toLowerCase() : "";
+    // Directory events have no extension; anything else must be a document type we index
+    if (ext && !SUPPORTED_EXTENSIONS.includes(ext)) return;
+
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(async () => {
+      timer = null;
+      try {
+        await ensureKnowledgeBaseLoaded(logger);
+        const report = await syncKnowledgeBase({}, logger);
+        logger?.info("👀 [RAG] data/ changed, index synced", {
+          added: report.added,
+          updated: report.updated,
+          removed: report.removed,
+          failed: report.failed,
+        });
+      } catch (error: any) {
+        logger?.error("❌ [RAG] Watch-triggered sync failed", {
+          error: error.message,
+        });
+      }
+    }, WATCH_DEBOUNCE_MS);
+  });
+
+  watcher.on("error", (error) => {
+    logger?.error("❌ [RAG] data/ watcher stopped", { error: error.message });
+    watcher = null;
+  });
+
+  logger?.info(`👀 [RAG] Watching ${DATA_DIR} for document changes`);
+}
+
+export interface SearchFilters {
+  collection?: string;
+  // "YYYY-MM-DD"; drops notices that had expired, or had not been issued yet, on that date, and ranks
+  // notices of unknown validity a little lower
+  asOfDate?: string;
+  // Case-insensitive match against the issuing office, e.g. "examination"
+  issuer?: string;
+  // Also return versions that a newer document has replaced, e.g. to see what the previous circular said
+  includeSuperseded?: boolean;
+}
+
+function matchesFilters(
+  chunk: IndexedChunk,
+  { collection, asOfDate, issuer, includeSuperseded }: SearchFilters,
+): boolean {
+  if (!includeSuperseded && supersessions.has(chunk.source)) return false;
+  if (
+    collection &&
+    chunk.collection !== collection &&
+    !chunk.collection.startsWith(`${collection}/`)
+  ) {
+    return false;
+  }
+  if (asOfDate) {
+    if (isExpired(chunk.metadata, asOfDate)) return false;
+    if (chunk.metadata.issueDate && chunk.metadata.issueDate > asOfDate)
+      return false;
+  }
+  if (
+    issuer &&
+    !chunk.metadata.issuer?.toLowerCase().includes(issuer.toLowerCase())
+  ) {
+    return false;
+  }
+  return true;
+}
+
+export async function searchKnowledgeBase(
+  { query, topK, ...filters }: { query: string; topK: number } & SearchFilters,
+  logger?: any,
+): Promise<ScoredChunk[]> {
+  await ensureKnowledgeBaseLoaded(logger);
+
+  const lexicalScores = scoreBm25(bm25Index, query);
+
+  let queryEmbedding: number[] = [];
+  try {
+    [queryEmbedding] = await getEmbeddingProvider().embed([query]);
+  } catch (error: any) {
+    logger?.warn("⚠️ [RAG] Query embedding failed, using lexical score only", {
+      error: error.message,
+    });
+  }
+
+  const normalizedFilters: SearchFilters = {
+    ...filters,
+    collection: filters.collection?.replace(/^\/+|\/+$/g, ""),
+    issuer: filters.issuer?.trim(),
+  };
+
+  const scored: ScoredChunk[] = [];
+  indexedChunks.forEach((chunk, i) => {
+    if (!matchesFilters(chunk, normalizedFilters)) return;
+
+    const lexicalScore = lexicalScores[i];
+    const hasDense = queryEmbedding.length > 0 && chunk.embedding.length > 0;
+    const semanticScore = hasDense
+      ? Math.max(cosineSimilarity(queryEmbedding, chunk.embedding), 0)
+      : 0;
+    const relevanceScore = hasDense
+      ? SEMANTIC_WEIGHT * semanticScore + (1 - SEMANTIC_WEIGHT) * lexicalScore
+      : lexicalScore;
+
+    scored.push({
+      ...chunk,
+      lexicalScore,
+      semanticScore,
+      relevanceScore,
+      version: 0,
+      supersededBy: supersessions.get(chunk.source)?.supersededBy,
+    });
+  });
+
+  const rank = (chunk: ScoredChunk) =>
+    chunk.relevanceScore -
+    (normalizedFilters.asOfDate && chunk.metadata.validityUnknown
+      ? UNKNOWN_VALIDITY_PENALTY
+      : 0);
+  scored.sort((a, b) => rank(b) - rank(a));
+  const top = scored.slice(0, topK);
+  for (const chunk of top) chunk.version = versionNumber(chunk.source);
+  return top;
+}
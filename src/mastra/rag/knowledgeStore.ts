@@ -0,0 +1,360 @@
+import type { InStatement, Row } from "@libsql/client";
+import { sharedLibSQLClient } from "../storage";
+import type { DocumentChunk } from "./documentLoaders";
+
+export interface IndexedChunk extends DocumentChunk {
+  id: string;
+  embedding: number[];
+  embeddingModel: string;
+}
+
+export interface IndexedFile {
+  source: string;
+  // sha256 of the file bytes; a changed hash is what triggers re-chunking
+  hash: string;
+  size: number;
+  chunkCount: number;
+  // Version of the ingestion pipeline the chunks were produced with
+  indexVersion: number;
+}
+
+export interface Supersession {
+  // Document that is no longer current
+  source: string;
+  // Newer document that replaces it
+  supersededBy: string;
+  reason?: string;
+  // "manual" when an admin marked it, "circular" when a notice cited the older circular number
+  origin: "manual" | "circular";
+  markedAt: string;
+}
+
+const CHUNKS_TABLE = "rag_chunks";
+const FILES_TABLE = "rag_files";
+const SUPERSESSIONS_TABLE = "rag_supersessions";
+
+// Columns are added to existing databases on startup, so new ones must be nullable or have a default
+const CHUNK_COLUMNS: Record<string, string> = {
+  id: "TEXT PRIMARY KEY",
+  source: "TEXT NOT NULL",
+  chunk_index: "INTEGER NOT NULL",
+  collection: "TEXT NOT NULL DEFAULT ''",
+  file_type: "TEXT NOT NULL DEFAULT ''",
+  page: "INTEGER",
+  section: "TEXT",
+  title: "TEXT",
+  issuer: "TEXT",
+  circular_number: "TEXT",
+  supersedes: "TEXT",
+  issue_date: "TEXT",
+  valid_from: "TEXT",
+  valid_until: "TEXT",
+  validity_unknown: "INTEGER NOT NULL DEFAULT 0",
+  content: "TEXT NOT NULL",
+  embedding: "BLOB",
+  embedding_model: "TEXT",
+  indexed_at: "TEXT NOT NULL",
+};
+
+const FILE_COLUMNS: Record<string, string> = {
+  source: "TEXT PRIMARY KEY",
+  hash: "TEXT NOT NULL",
+  size: "INTEGER NOT NULL DEFAULT 0",
+  chunk_count: "INTEGER NOT NULL DEFAULT 0",
+  index_version: "INTEGER NOT NULL DEFAULT 0",
+  indexed_at: "TEXT NOT NULL",
+};
+
+// Kept apart from rag_files so that re-indexing a document does not forget that it was superseded
+const SUPERSESSION_COLUMNS: Record<string, string> = {
+  source: "TEXT PRIMARY KEY",
+  superseded_by: "TEXT NOT NULL",
+  reason: "TEXT",
+  origin: "TEXT NOT NULL DEFAULT 'manual'",
+  marked_at: "TEXT NOT NULL",
+};
+
+let schemaReady: Promise<void> | null = null;
+
+async function createOrMigrateTable(
+  table: string,
+  columns: Record<string, string>,
+) {
+  const client = sharedLibSQLClient;
+  const definition = Object.entries(columns)
+    .map(([name, type]) => `${name} ${type}`)
+    .join(", ");
+  await client.execute(`CREATE TABLE IF NOT EXISTS ${table} (${definition})`);
+
+  const existing = await client.execute(`PRAGMA table_info(${table})`);
+  const existingNames = new Set(existing.rows.map((row) => String(row.name)));
+  for (const [name, type] of Object.entries(columns)) {
+    if (!existingNames.has(name)) {
+      await client.execute(
+        `ALTER TABLE ${table} ADD COLUMN ${name} ${type.replace("PRIMARY KEY", "")}`,
+      );
+    }
+  }
+}
+
+export function ensureKnowledgeSchema(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = (async () => {
+      await createOrMigrateTable(CHUNKS_TABLE, CHUNK_COLUMNS);
+      await createOrMigrateTable(FILES_TABLE, FILE_COLUMNS);
+      await createOrMigrateTable(SUPERSESSIONS_TABLE, SUPERSESSION_COLUMNS);
+      await sharedLibSQLClient.execute(
+        `CREATE INDEX IF NOT EXISTS idx_${CHUNKS_TABLE}_source ON ${CHUNKS_TABLE} (source)`,
+      );
+    })().catch((error) => {
+      schemaReady = null;
+      throw error;
+    });
+  }
+  return schemaReady;
+}
+
+export function chunkId(
+  chunk: Pick<DocumentChunk, "source" | "chunkIndex">,
+): string {
+  return `${chunk.source}#${chunk.chunkIndex}`;
+}
+
+function encodeEmbedding(embedding: number[]): Uint8Array | null {
+  if (embedding.length === 0) return null;
+  return new Uint8Array(new Float32Array(embedding).buffer);
+}
+
+function decodeEmbedding(value: unknown): number[] {
+  if (value instanceof ArrayBuffer) return Array.from(new Float32Array(value));
+  if (ArrayBuffer.isView(value)) {
+    const bytes = new Uint8Array(
+      value.buffer,
+      value.byteOffset,
+      value.byteLength,
+    ).slice();
+    return Array.from(new Float32Array(bytes.buffer));
+  }
+  return [];
+}
+
+function optionalText(value: unknown): string | undefined {
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+function rowToChunk(row: Row): IndexedChunk {
+  return {
+    id: String(row.id),
+    source: String(row.source),
+    chunkIndex: Number(row.chunk_index),
+    collection: String(row.collection ?? ""),
+    fileType: String(row.file_type ?? ""),
+    page: row.page === null ? undefined : Number(row.page),
+    section: optionalText(row.section),
+    metadata: {
+      title: optionalText(row.title),
+      issuer: optionalText(row.issuer),
+      circularNumber: optionalText(row.circular_number),
+      supersedes: optionalText(row.supersedes),
+      issueDate: optionalText(row.issue_date),
+      validFrom: optionalText(row.valid_from),
+      validUntil: optionalText(row.valid_until),
+      validityUnknown: Number(row.validity_unknown ?? 0) === 1 || undefined,
+    },
+    content: String(row.content),
+    embedding: decodeEmbedding(row.embedding),
+    embeddingModel: String(row.embedding_model ?? ""),
+  };
+}
+
+function insertStatement(chunk: IndexedChunk, indexedAt: string): InStatement {
+  return {
+    sql: `INSERT OR REPLACE INTO ${CHUNKS_TABLE}
+      (id, source, chunk_index, collection, file_type, page, section, title, issuer, circular_number,
+       supersedes, issue_date, valid_from, valid_until, validity_unknown, content, embedding, embedding_model,
+       indexed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      chunk.id,
+      chunk.source,
+      chunk.chunkIndex,
+      chunk.collection,
+      chunk.fileType,
+      chunk.page ?? null,
+      chunk.section ?? null,
+      chunk.metadata.title ?? null,
+      chunk.metadata.issuer ?? null,
+      chunk.metadata.circularNumber ?? null,
+      chunk.metadata.supersedes ?? null,
+      chunk.metadata.issueDate ?? null,
+      chunk.metadata.validFrom ?? null,
+      chunk.metadata.validUntil ?? null,
+      chunk.metadata.validityUnknown ? 1 : 0,
+      chunk.content,
+      encodeEmbedding(chunk.embedding),
+      chunk.embeddingModel,
+      indexedAt,
+    ],
+  };
+}
+
+export async function loadIndexedChunks(): Promise<IndexedChunk[]> {
+  await ensureKnowledgeSchema();
+  const result = await sharedLibSQLClient.execute(
+    `SELECT * FROM ${CHUNKS_TABLE} ORDER BY source, chunk_index`,
+  );
+  return result.rows.map(rowToChunk);
+}
+
+export async function loadIndexedFiles(): Promise<Map<string, IndexedFile>> {
+  await ensureKnowledgeSchema();
+  const result = await sharedLibSQLClient.execute(
+    `SELECT * FROM ${FILES_TABLE}`,
+  );
+  return new Map(
+    result.rows.map((row) => [
+      String(row.source),
+      {
+        source: String(row.source),
+        hash: String(row.hash),
+        size: Number(row.size),
+        chunkCount: Number(row.chunk_count),
+        indexVersion: Number(row.index_version ?? 0),
+      },
+    ]),
+  );
+}
+
+/**
+ * Replaces one document's chunks and records its hash, in a single transaction.
+ */
+export async function saveDocument(
+  file: IndexedFile,
+  chunks: IndexedChunk[],
+): Promise<void> {
+  await ensureKnowledgeSchema();
+  const indexedAt = new Date().toISOString();
+  await sharedLibSQLClient.batch(
+    [
+      {
+        sql: `DELETE FROM ${CHUNKS_TABLE} WHERE source = ?`,
+        args: [file.source],
+      },
+      ...chunks.map((chunk) => insertStatement(chunk, indexedAt)),
+      {
+        sql: `INSERT OR REPLACE INTO ${FILES_TABLE} (source, hash, size, chunk_count, index_version, indexed_at)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+        args: [
+          file.source,
+          file.hash,
+          file.size,
+          chunks.length,
+          file.indexVersion,
+          indexedAt,
+        ],
+      },
+    ],
+    "write",
+  );
+}
+
+export async function deleteDocument(source: string): Promise<void> {
+  await ensureKnowledgeSchema();
+  await sharedLibSQLClient.batch(
+    [
+      { sql: `DELETE FROM ${CHUNKS_TABLE} WHERE source = ?`, args: [source] },
+      { sql: `DELETE FROM ${FILES_TABLE} WHERE source = ?`, args: [source] },
+    ],
+    "write",
+  );
+}
+
+export async function updateChunkEmbeddings(
+  chunks: IndexedChunk[],
+): Promise<void> {
+  await ensureKnowledgeSchema();
+  await sharedLibSQLClient.batch(
+    chunks.map((chunk) => ({
+      sql: `UPDATE ${CHUNKS_TABLE} SET embedding = ?, embedding_model = ? WHERE id = ?`,
+      args: [encodeEmbedding(chunk.embedding), chunk.embeddingModel, chunk.id],
+    })),
+    "write",
+  );
+}
+
+export async function loadSupersessions(): Promise<Map<string, Supersession>> {
+  await ensureKnowledgeSchema();
+  const result = await sharedLibSQLClient.execute(
+    `SELECT * FROM ${SUPERSESSIONS_TABLE}`,
+  );
+  return new Map(
+    result.rows.map((row) => [
+      String(row.source),
+      {
+        source: String(row.source),
+        supersededBy: String(row.superseded_by),
+        reason: optionalText(row.reason),
+        origin: row.origin === "circular" ? "circular" : "manual",
+        markedAt: String(row.marked_at),
+      },
+    ]),
+  );
+}
+
+export async function saveSupersession(
+  supersession: Supersession,
+): Promise<void> {
+  await ensureKnowledgeSchema();
+  await sharedLibSQLClient.execute({
+    sql: `INSERT OR REPLACE INTO ${SUPERSESSIONS_TABLE} (source, superseded_by, reason, origin, marked_at)
+      VALUES (?, ?, ?, ?, ?)`,
+    args: [
+      supersession.source,
+      supersession.supersededBy,
+      supersession.reason ?? null,
+      supersession.origin,
+      supersession.markedAt,
+    ],
+  });
+}
+
+/**
+ * Removes the record for `source` and, with `includeSuccessors`, every record naming it as the
+ * newer version, so a deleted revision makes the document it replaced current again.
+ */
+export async function deleteSupersessions(
+  source: string,
+  { includeSuccessors = false } = {},
+): Promise<void> {
+  await ensureKnowledgeSchema();
+  await sharedLibSQLClient.execute({
+    sql: includeSuccessors
+      ? `DELETE FROM ${SUPERSESSIONS_TABLE} WHERE source = ? OR superseded_by = ?`
+      : `DELETE FROM ${SUPERSESSIONS_TABLE} WHERE source = ?`,
+    args: includeSuccessors ? [source, source] : [source],
+  });
+}
+
+/**
+ * Swaps the supersessions derived from circular numbers for a freshly computed set. Records an
+ * admin made by hand take precedence and are left untouched.
+ */
+export async function replaceCircularSupersessions(
+  supersessions: Supersession[],
+): Promise<void> {
+  await ensureKnowledgeSchema();
+  await sharedLibSQLClient.batch(
+    [
+      {
+        sql: `DELETE FROM ${SUPERSESSIONS_TABLE} WHERE origin = 'circular'`,
+        args: [],
+      },
+      ...supersessions.map((s) => ({
+        sql: `INSERT OR IGNORE INTO ${SUPERSESSIONS_TABLE} (source, superseded_by, reason, origin, marked_at)
+          VALUES (?, ?, ?, 'circular', ?)`,
+        args: [s.source, s.supersededBy, s.reason ?? null, s.markedAt],
+      })),
+    ],
+    "write",
+  );
+}
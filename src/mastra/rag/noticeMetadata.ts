@@ -0,0 +1,304 @@
+/**
+ * Structured facts about an official notice or circular. Dates are ISO "YYYY-MM-DD" strings so
+ * they compare correctly as plain strings.
+ */
+export interface NoticeMetadata {
+  title?: string;
+  issuer?: string;
+  circularNumber?: string;
+  // Circular number of an earlier notice this one replaces ("in supersession of Circular No. 12/2024")
+  supersedes?: string;
+  issueDate?: string;
+  // Window the notice is in force for; either end may be missing
+  validFrom?: string;
+  validUntil?: string;
+  // The notice gives dates but does not say until when it is in force ("exams commence from 15
+  // December"), or its dates could not be read ("25th Dec"); searches as of a date rank it lower
+  validityUnknown?: boolean;
+}
+
+export interface DateMatch {
+  // First and last day the expression covers ("November 2024" spans the whole month)
+  start: string;
+  end: string;
+  index: number;
+  length: number;
+}
+
+export const MONTHS: Record<string, number> = {
+  jan: 1,
+  january: 1,
+  feb: 2,
+  february: 2,
+  mar: 3,
+  march: 3,
+  apr: 4,
+  april: 4,
+  may: 5,
+  jun: 6,
+  june: 6,
+  jul: 7,
+  july: 7,
+  aug: 8,
+  august: 8,
+  sep: 9,
+  sept: 9,
+  september: 9,
+  oct: 10,
+  october: 10,
+  nov: 11,
+  november: 11,
+  dec: 12,
+  december: 12,
+};
+
+export const MONTH_PATTERN = `(${Object.keys(MONTHS)
+  .sort((a, b) => b.length - a.length)
+  .join("|")})\\.?`;
+
+const DATE_PATTERNS: {
+  regex: RegExp;
+  parts: (m: RegExpMatchArray) => [number, number, number?];
+}[] = [
+  // 2024-12-15
+  {
+    regex: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g,
+    parts: (m) => [+m[1], +m[2], +m[3]],
+  },
+  // 15/12/2024, 15.12.24 (Indian day-first order)
+  {
+    regex: /\b(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})\b/g,
+    parts: (m) => [fullYear(+m[3]), +m[2], +m[1]],
+  },
+  // 15th December 2024, 15 Dec, 2024
+  {
+    regex: new RegExp(
+      `\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN},?\\s+(\\d{4})\\b`,
+      "gi",
+    ),
+    parts: (m) => [+m[3], MONTHS[m[2].toLowerCase()], +m[1]],
+  },
+  // December 15, 2024
+  {
+    regex: new RegExp(
+      `\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`,
+      "gi",
+    ),
+    parts: (m) => [+m[3], MONTHS[m[1].toLowerCase()], +m[2]],
+  },
+  // November 2024
+  {
+    regex: new RegExp(`\\b${MONTH_PATTERN},?\\s+(\\d{4})\\b`, "gi"),
+    parts: (m) => [+m[2], MONTHS[m[1].toLowerCase()]],
+  },
+];
+
+export const NOTICE_TITLE_LINE =
+  /^\s*(?:notice|circular|subject|sub)\b\s*[:.\-–]+\s*(.+)$/im;
+const ISSUER_LINE =
+  /^\s*(?:source|issued by|from|by order of|office of)\b\s*[:\-–]\s*(.+)$/im;
+const ISSUE_DATE_LINE =
+  /^\s*(?:date|dated|issued on|date of issue|ac)\b\s*[:\-–]?\s*(.+)$/im;
+// Signature lines that name the office when there is no explicit "Source:" line
+const SIGNATORY_LINE =
+  /^\s*((?:deputy |assistant |joint )?registrar|controller of examinations|director[\w ,&()]*|dean[\w ,&()]*|principal|vice[- ]chancellor)\s*$/im;
+const CIRCULAR_NUMBER_PATTERNS = [
+  /\b(?:circular|notice|ref(?:erence)?|letter|order|outward)\s*(?:no|number)\.?\s*[:\-–]?\s*([A-Z0-9][\w()/.\-]*\d[\w()/.\-]*)/i,
+  // Mumbai University style: "No. AAMS_UGS/ICC/2023-24/226"
+  /^\s*No\.\s*([A-Z][\w()/.\-]*\/[\w()/.\-]*\d[\w()/.\-]*)/m,
+];
+
+const SUPERSEDES_PATTERN =
+  /\b(?:in\s+supersession\s+of|supersed(?:es|ing)|in\s+place\s+of|replac(?:es|ing))\s+(?:the\s+)?(?:earlier\s+|previous\s+)?(?:circular|notice|notification|order|letter)?\s*(?:no|number)\.?\s*[:\-–]?\s*([A-Z0-9][\w()/.\-]*\d[\w()/.\-]*)/i;
+
+// Day-and-month expressions, read or not: findDates skips those without a year or with an impossible day
+const DATE_LIKE = new RegExp(
+  [
+    `\\b\\d{1,2}[./-]\\d{1,2}[./-]\\d{2,4}\\b`,
+    `\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?![a-z])`,
+    `\\b${MONTH_PATTERN}\\s+\\d{1,2}(?:st|nd|rd|th)?\\b`,
+  ].join("|"),
+  "gi",
+);
+
+const RANGE_JOINER = /^\s*(?:to|till|until|upto|up to|through|-|–)\s*$/i;
+const FROM_CUE =
+  /(?:with effect from|w\.e\.f\.?|effective from|valid from|commenc\w* (?:from|on)|from)\s*$/i;
+const UNTIL_CUE =
+  /(?:valid (?:till|until|upto|up to)|till|until|upto|up to)\s*$/i;
+
+function fullYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+function toIso(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Finds every date expression in the text, in reading order. Overlapping matches keep the
+ * longest one, so "15 December 2024" is not also read as "December 2024".
+ */
+export function findDates(text: string): DateMatch[] {
+  const matches: DateMatch[] = [];
+
+  for (const { regex, parts } of DATE_PATTERNS) {
+    for (const m of text.matchAll(regex)) {
+      const [year, month, day] = parts(m);
+      if (year < 1990 || year > 2100) continue;
+
+      const start = toIso(year, month, day ?? 1);
+      const end = toIso(year, month, day ?? daysInMonth(year, month));
+      if (!start || !end) continue;
+
+      matches.push({ start, end, index: m.index ?? 0, length: m[0].length });
+    }
+  }
+
+  matches.sort((a, b) => a.index - b.index || b.length - a.length);
+  const result: DateMatch[] = [];
+  for (const match of matches) {
+    const last = result[result.length - 1];
+    if (last && match.index < last.index + last.length) continue;
+    result.push(match);
+  }
+  return result;
+}
+
+/**
+ * Like findDates, but "25 December 2024 to 1 January 2025" comes back as one match spanning both days.
+ */
+export function findDateRanges(text: string): DateMatch[] {
+  const dates = findDates(text);
+  const ranges: DateMatch[] = [];
+  for (let i = 0; i < dates.length; i++) {
+    const date = dates[i];
+    const next = dates[i + 1];
+    if (
+      next &&
+      RANGE_JOINER.test(text.slice(date.index + date.length, next.index))
+    ) {
+      ranges.push({
+        start: date.start,
+        end: next.end,
+        index: date.index,
+        length: next.index + next.length - date.index,
+      });
+      i++;
+    } else {
+      ranges.push(date);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Parses a single date expression ("15/12/2024", "December 15, 2024") to "YYYY-MM-DD".
+ */
+export function parseDate(text: string): string | undefined {
+  return findDates(text)[0]?.start;
+}
+
+function hasUnreadableDates(text: string): boolean {
+  const read = findDates(text);
+  return [...text.matchAll(DATE_LIKE)].some((m) => {
+    const index = m.index ?? 0;
+    return !read.some(
+      (date) => index >= date.index && index < date.index + date.length,
+    );
+  });
+}
+
+function firstLine(text: string, pattern: RegExp): string | undefined {
+  const value = text.match(pattern)?.[1]?.replace(/\s+/g, " ").trim();
+  return value || undefined;
+}
+
+/**
+ * Pulls title, issuing office, circular number, issue date and validity window out of the text
+ * of a notice. Anything that can't be found is left undefined.
+ *
+ * The validity window comes from explicit ranges ("from 25 Dec to 1 Jan"), "with effect from"
+ * and "valid till" phrases only. A notice that mentions dates without saying when it lapses is
+ * marked `validityUnknown` rather than given an end: the last date it names may be the first day
+ * of the exams it announces.
+ */
+export function extractNoticeMetadata(
+  text: string,
+  fallbackTitle?: string,
+): NoticeMetadata {
+  const metadata: NoticeMetadata = {
+    title: firstLine(text, NOTICE_TITLE_LINE) ?? fallbackTitle,
+    issuer: firstLine(text, ISSUER_LINE) ?? firstLine(text, SIGNATORY_LINE),
+  };
+
+  const supersedesMatch = text.match(SUPERSEDES_PATTERN);
+  metadata.supersedes = supersedesMatch?.[1].replace(/[.,]+$/, "");
+  // The referenced number belongs to the older notice, not this one
+  const ownText = supersedesMatch ? text.replace(supersedesMatch[0], "") : text;
+
+  for (const pattern of CIRCULAR_NUMBER_PATTERNS) {
+    const number = ownText.match(pattern)?.[1]?.replace(/[.,]+$/, "");
+    if (number) {
+      metadata.circularNumber = number;
+      break;
+    }
+  }
+
+  const issueLine = text.match(ISSUE_DATE_LINE);
+  const issueDates = issueLine ? findDates(issueLine[1]) : [];
+  metadata.issueDate = issueDates[0]?.start;
+  const issueLineStart = issueLine ? (issueLine.index ?? 0) : -1;
+  const issueLineEnd = issueLine ? issueLineStart + issueLine[0].length : -1;
+
+  // Dates in the body; the issue date (often repeated in page headers) only says when it was published
+  const dates = findDates(text).filter(
+    (d) =>
+      (d.index < issueLineStart || d.index >= issueLineEnd) &&
+      d.start !== metadata.issueDate,
+  );
+
+  for (let i = 0; i < dates.length; i++) {
+    const date = dates[i];
+    const before = text.slice(Math.max(0, date.index - 40), date.index);
+    const next = dates[i + 1];
+
+    if (
+      next &&
+      RANGE_JOINER.test(text.slice(date.index + date.length, next.index))
+    ) {
+      metadata.validFrom ??= date.start;
+      metadata.validUntil ??= next.end;
+      i++;
+    } else if (UNTIL_CUE.test(before)) {
+      metadata.validUntil ??= date.end;
+    } else if (FROM_CUE.test(before)) {
+      metadata.validFrom ??= date.start;
+    }
+  }
+
+  if (!metadata.validUntil && (dates.length > 0 || hasUnreadableDates(text))) {
+    metadata.validityUnknown = true;
+  }
+
+  return metadata;
+}
+
+/**
+ * True when the notice's validity ended before the given "YYYY-MM-DD" date.
+ */
+export function isExpired(metadata: NoticeMetadata, asOfDate: string): boolean {
+  return !!metadata.validUntil && metadata.validUntil < asOfDate;
+}
@@ -0,0 +1,133 @@
+import * as fs from "fs";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextSegment } from "./documentLoaders";
+
+interface TextItemLike {
+  str: string;
+  height: number;
+  hasEOL: boolean;
+}
+
+// Heading patterns seen in Mumbai University syllabi and circulars:
+//   "Module 3: Syntax Analysis", "Unit II", "3 Syntax analysis 8" (module no. + title + hours),
+//   "CSC701 Machine Learning" (course code + name), short ALL-CAPS lines like "EXAMINATION SCHEME"
+const HEADING_PATTERNS = [
+  /^(module|unit|chapter|section|part)\s*[-:.]?\s*([0-9]+|[ivx]+)\b/i,
+  /^\d{1,2}\s+[A-Z][A-Za-z&,()\-–' ]{3,80}\s+\d{1,2}$/,
+  /^[A-Z]{2,5}[CLE]?\d{3,4}[A-Z]?\s+[A-Z][A-Za-z&,()\-–' ]{3,80}$/,
+  /^(course (code|name|objectives|outcomes)|semester\s+[ivx0-9]+|examination scheme|assessment|text ?books|references?)\b/i,
+];
+
+function isHeading(line: string, height: number, bodyHeight: number): boolean {
+  const trimmed = line.trim();
+  if (trimmed.length < 3 || trimmed.length > 100) return false;
+
+  // Noticeably larger font than the page body
+  if (bodyHeight > 0 && height >= bodyHeight * 1.2) return true;
+
+  if (HEADING_PATTERNS.some((pattern) => pattern.test(trimmed))) return true;
+
+  // Short ALL-CAPS lines (at least two words, mostly letters)
+  const letters = trimmed.replace(/[^A-Za-z]/g, "");
+  return (
+    letters.length >= 6 &&
+    trimmed.split(/\s+/).length >= 2 &&
+    trimmed.split(/\s+/).length <= 10 &&
+    letters === letters.toUpperCase()
+  );
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function buildPage(
+  items: TextItemLike[],
+  page: number,
+  sectionAtStart?: string,
+): TextSegment {
+  const lines: { text: string; height: number }[] = [];
+  let current = "";
+  let currentHeight = 0;
+
+  for (const item of items) {
+    current += item.str;
+    currentHeight = Math.max(currentHeight, item.height);
+    if (item.hasEOL) {
+      lines.push({ text: current, height: currentHeight });
+      current = "";
+      currentHeight = 0;
+    }
+  }
+  if (current.trim()) {
+    lines.push({ text: current, height: currentHeight });
+  }
+
+  const bodyHeight = median(
+    lines.filter((l) => l.text.trim()).map((l) => l.height),
+  );
+  const headings: { title: string; offset: number }[] = [];
+  let text = "";
+
+  for (const line of lines) {
+    const normalized = line.text.replace(/\s+/g, " ").trim();
+    if (!normalized) continue;
+    if (isHeading(normalized, line.height, bodyHeight)) {
+      headings.push({ title: normalized, offset: text.length });
+    }
+    text += normalized + "\n";
+  }
+
+  return { text: text.trim(), page, sectionAtStart, headings };
+}
+
+/**
+ * Extracts the text layer of a PDF page by page, keeping line breaks and detecting
+ * section headings so chunks can be cited as "<file> p.<page>".
+ * Scanned pages without a text layer come back with empty text.
+ */
+export async function extractPdfPages(
+  filePath: string,
+  logger?: any,
+): Promise<TextSegment[]> {
+  const data = new Uint8Array(fs.readFileSync(filePath));
+  const pdf = await getDocument({
+    data,
+    useSystemFonts: true,
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise;
+
+  const pages: TextSegment[] = [];
+  let currentSection: string | undefined;
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = content.items.filter(
+        (item) => "str" in item,
+      ) as TextItemLike[];
+
+      const parsed = buildPage(items, pageNumber, currentSection);
+      if (parsed.headings.length > 0) {
+        currentSection = parsed.headings[parsed.headings.length - 1].title;
+      }
+      pages.push(parsed);
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  const emptyPages = pages.filter((p) => !p.text).length;
+  if (emptyPages > 0) {
+    logger?.info(
+      `📄 [RAG] ${emptyPages}/${pages.length} pages have no text layer (scanned) and were skipped`,
+    );
+  }
+
+  return pages;
+}
@@ -1,6 +1,12 @@
 import { LibSQLStore } from "@mastra/libsql";
+import { createClient } from "@libsql/client";
 
 // Create a single shared LibSQL (SQLite) storage instance
 export const sharedPostgresStorage = new LibSQLStore({
   url: "file:mastra.db",
 });
+
+// Raw client on the same database for tables Mastra doesn't manage (e.g. the RAG knowledge base)
+export const sharedLibSQLClient = createClient({
+  url: "file:mastra.db",
+});
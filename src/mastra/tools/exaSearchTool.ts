@@ -13,7 +13,11 @@ export const exaSearchTool = createTool({
 
   inputSchema: z.object({
     query: z.string().describe("The search query to find information about"),
-    numResults: z.number().optional().default(5).describe("Number of results to return"),
+    numResults: z
+      .number()
+      .optional()
+      .default(5)
+      .describe("Number of results to return"),
     includeDomains: z
       .array(z.string())
       .optional()
@@ -28,7 +32,7 @@ export const exaSearchTool = createTool({
         content: z.string(),
         publishedDate: z.string().optional(),
         score: z.number().optional(),
-      })
+      }),
     ),
     hasResults: z.boolean(),
     searchQuery: z.string(),
@@ -44,7 +48,9 @@ export const exaSearchTool = createTool({
 
     const apiKey = process.env.EXA_API_KEY;
     if (!apiKey) {
-      logger?.warn("⚠️ [Exa Search] EXA_API_KEY not configured, falling back to basic search");
+      logger?.warn(
+        "⚠️ [Exa Search] EXA_API_KEY not configured, falling back to basic search",
+      );
       return {
         results: [],
         hasResults: false,
@@ -68,7 +74,10 @@ export const exaSearchTool = createTool({
 
       logger?.info("🔍 [Exa Search] Executing search...", { searchOptions });
 
-      const response = await exa.searchAndContents(context.query, searchOptions);
+      const response = await exa.searchAndContents(
+        context.query,
+        searchOptions,
+      );
 
       const results = response.results.map((result: any) => ({
         title: result.title || "No title",
@@ -99,6 +108,38 @@ export const exaSearchTool = createTool({
   },
 });
 
+export const OFFICIAL_DOMAINS: Record<"mumbai" | "ugc" | "general", string[]> =
+  {
+    mumbai: ["mu.ac.in", "mum.digitaluniversity.ac", "mkuniversity.ac.in"],
+    ugc: [
+      "ugc.ac.in",
+      "ugc.gov.in",
+      "education.gov.in",
+      "aicte-india.org",
+      "aicte.gov.in",
+    ],
+    general: [
+      "mu.ac.in",
+      "ugc.ac.in",
+      "ugc.gov.in",
+      "education.gov.in",
+      "aicte-india.org",
+      "aicte.gov.in",
+      "mum.digitaluniversity.ac",
+    ],
+  };
+
+// The domain itself or one of its subdomains; "mu.ac.in.results.xyz" merely contains "mu.ac.in"
+export function isOfficialDomain(
+  hostname: string,
+  domains: string[] = Object.values(OFFICIAL_DOMAINS).flat(),
+): boolean {
+  const host = hostname.toLowerCase().replace(/^www\./, "");
+  return domains.some(
+    (domain) => host === domain || host.endsWith(`.${domain}`),
+  );
+}
+
 export const universitySearchTool = createTool({
   id: "university-web-search",
   description:
@@ -121,7 +162,7 @@ export const universitySearchTool = createTool({
         content: z.string(),
         source: z.string(),
         isOfficial: z.boolean(),
-      })
+      }),
     ),
     hasOfficialInfo: z.boolean(),
     sourcesChecked: z.array(z.string()),
@@ -144,34 +185,16 @@ export const universitySearchTool = createTool({
       };
     }
 
-    const officialDomains: Record<string, string[]> = {
-      mumbai: [
-        "mu.ac.in",
-        "mum.digitaluniversity.ac",
-        "mkuniversity.ac.in",
-      ],
-      ugc: [
-        "ugc.ac.in",
-        "education.gov.in",
-        "aicte-india.org",
-      ],
-      general: [
-        "mu.ac.in",
-        "ugc.ac.in",
-        "education.gov.in",
-        "aicte-india.org",
-        "mum.digitaluniversity.ac",
-      ],
-    };
-
-    const domains = officialDomains[context.university || "general"];
+    const domains = OFFICIAL_DOMAINS[context.university || "general"];
 
     try {
       const exa = new Exa(apiKey);
 
       const enhancedQuery = `${context.query} official notice announcement circular`;
 
-      logger?.info("🔍 [University Search] Searching official domains", { domains });
+      logger?.info("🔍 [University Search] Searching official domains", {
+        domains,
+      });
 
       const response = await exa.searchAndContents(enhancedQuery, {
         numResults: 8,
@@ -184,7 +207,7 @@ export const universitySearchTool = createTool({
       const results = response.results.map((result: any) => {
         const url = result.url || "";
         const domain = new URL(url).hostname;
-        const isOfficial = domains.some((d) => domain.includes(d));
+        const isOfficial = isOfficialDomain(domain, domains);
 
         return {
           title: result.title || "No title",
@@ -195,7 +218,9 @@ export const universitySearchTool = createTool({
         };
       });
 
-      const hasOfficialInfo = results.some((r) => r.isOfficial && r.content.length > 100);
+      const hasOfficialInfo = results.some(
+        (r) => r.isOfficial && r.content.length > 100,
+      );
 
       logger?.info("✅ [University Search] Search complete", {
         resultCount: results.length,
@@ -209,7 +234,9 @@ export const universitySearchTool = createTool({
         sourcesChecked: domains,
       };
     } catch (error: any) {
-      logger?.error("❌ [University Search] Search failed", { error: error.message });
+      logger?.error("❌ [University Search] Search failed", {
+        error: error.message,
+      });
       return {
         results: [],
         hasOfficialInfo: false,
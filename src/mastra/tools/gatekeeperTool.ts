@@ -1,165 +1,118 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-
-const CASUAL_WORDS = [
-  "hi",
-  "hello",
-  "hey",
-  "thanks",
-  "thank",
-  "ok",
-  "okay",
-  "bot",
-  "bye",
-  "good",
-  "nice",
-  "cool",
-  "yes",
-  "no",
-  "maybe",
-  "sure",
-  "great",
-  "awesome",
-  "lol",
-  "haha",
-  "hmm",
-  "oh",
-  "ah",
-  "wow",
-];
-
-const PANIC_KEYWORDS = [
-  "postponed",
-  "postpone",
-  "exam",
-  "exams",
-  "syllabus",
-  "leaked",
-  "leak",
-  "cancel",
-  "cancelled",
-  "canceled",
-  "holiday",
-  "holidays",
-  "notice",
-  "timetable",
-  "schedule",
-  "fake",
-  "true?",
-  "is it true",
-  "confirm",
-  "rumor",
-  "rumour",
-  "official",
-  "circular",
-  "announcement",
-  "deadline",
-  "extended",
-  "extension",
-  "results",
-  "result",
-  "marks",
-  "grade",
-  "grades",
-  "revaluation",
-  "supplementary",
-  "backlog",
-  "attendance",
-  "semester",
-  "fee",
-  "fees",
-  "admission",
-  "placement",
-  "internship",
-  "hostel",
-  "mess",
-  "library",
-  "lab",
-  "practical",
-  "viva",
-  "project",
-  "thesis",
-  "dissertation",
-  "convocation",
-  "degree",
-  "certificate",
-  "transcript",
-  "migration",
-  "transfer",
-  "re-exam",
-  "reexam",
-  "compartment",
-  "detained",
-  "suspended",
-  "expelled",
-  "rusticated",
-];
-
-// Levenshtein distance for fuzzy matching (spelling mistakes)
-function levenshteinDistance(a: string, b: string): number {
-  const matrix: number[][] = [];
-
-  for (let i = 0; i <= b.length; i++) {
-    matrix[i] = [i];
-  }
-
-  for (let j = 0; j <= a.length; j++) {
-    matrix[0][j] = j;
-  }
-
-  for (let i = 1; i <= b.length; i++) {
-    for (let j = 1; j <= a.length; j++) {
-      if (b.charAt(i - 1) === a.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j] + 1
-        );
-      }
-    }
-  }
-
-  return matrix[b.length][a.length];
-}
-
-// Fuzzy keyword matching with spelling tolerance
-function fuzzyMatchKeyword(word: string, keyword: string, maxDistance: number = 2): boolean {
-  // Exact match
-  if (word === keyword) return true;
-
-  // Contains match
-  if (word.includes(keyword) || keyword.includes(word)) return true;
-
-  // Fuzzy match for spelling mistakes
-  if (word.length >= 4 && keyword.length >= 4) {
-    const distance = levenshteinDistance(word, keyword);
-    const threshold = Math.min(maxDistance, Math.floor(keyword.length * 0.3));
-    return distance <= threshold;
-  }
-
-  return false;
-}
+import { getGatekeeperRules } from "../gatekeeper/gatekeeperRules";
+import { analyzeLinks } from "../gatekeeper/linkAnalysis";
+import { assessMessageRisk } from "../gatekeeper/riskModel";
+import {
+  getSenderHistory,
+  recordSenderAssessment,
+} from "../gatekeeper/senderHistory";
 
 export const gatekeeperTool = createTool({
   id: "gatekeeper-filter",
   description:
-    "Pre-filters incoming messages to determine if they need verification. Activates for messages with panic keywords (including spelling mistakes), images, or potential misinformation.",
+    'Pre-filters incoming messages to determine if they need verification. Combines panic keywords (including spelling mistakes, and Hindi, Marathi or Hinglish phrasings such as "pariksha radd"), urgency phrases, forwarding, images, links (flagging lookalikes of official university domains, with short links expanded), ALL-CAPS text and the sender\'s history into a risk score.',
 
   inputSchema: z.object({
+    chatId: z
+      .string()
+      .optional()
+      .describe(
+        "Chat the message was posted in; selects that group's filtering rules",
+      ),
+    senderId: z
+      .string()
+      .optional()
+      .describe(
+        "Stable ID of the sender, used to weigh their earlier messages",
+      ),
     message: z.string().describe("The text message to analyze"),
-    caption: z.string().optional().default("").describe("Caption from image/document if any"),
+    caption: z
+      .string()
+      .optional()
+      .default("")
+      .describe("Caption from image/document if any"),
     hasPhoto: z.boolean().describe("Whether the message contains a photo"),
-    hasDocument: z.boolean().describe("Whether the message contains a document"),
+    hasDocument: z
+      .boolean()
+      .describe("Whether the message contains a document"),
     isForwarded: z.boolean().describe("Whether the message is forwarded"),
   }),
 
   outputSchema: z.object({
-    shouldProcess: z.boolean().describe("Whether the message should be processed by the AI"),
+    shouldProcess: z
+      .boolean()
+      .describe("Whether the message should be processed by the AI"),
     reason: z.string().describe("Reason for the decision"),
-    detectedKeywords: z.array(z.string()).describe("Panic keywords found in the message"),
-    priority: z.enum(["high", "medium", "low", "skip"]).describe("Priority level for processing"),
+    detectedKeywords: z
+      .array(z.string())
+      .describe("Panic keywords found in the message"),
+    keywordMatches: z
+      .array(
+        z.object({
+          keyword: z.string(),
+          surface: z.string().describe("The words in the message that matched"),
+          kind: z.enum(["exact", "stem", "typo", "phrase", "translation"]),
+          distance: z
+            .number()
+            .describe("Edits between the word and the keyword, for typos"),
+        }),
+      )
+      .describe("Which words matched which keyword"),
+    suspiciousLinks: z
+      .array(
+        z.object({
+          url: z.string(),
+          resolvedUrl: z
+            .string()
+            .optional()
+            .describe("Where a shortened link leads"),
+          domain: z.string(),
+          reason: z.enum([
+            "lookalike",
+            "impersonation",
+            "punycode",
+            "ip-address",
+            "unresolved-shortener",
+          ]),
+          imitates: z
+            .string()
+            .optional()
+            .describe("The official domain it imitates"),
+          detail: z.string(),
+        }),
+      )
+      .describe(
+        "Links that imitate official domains or hide their destination",
+      ),
+    priority: z
+      .enum(["high", "medium", "low", "skip"])
+      .describe("Priority level for processing"),
+    profile: z
+      .string()
+      .describe('Rules profile applied: the chat ID, or "default"'),
+    riskScore: z.number().describe("Weighted sum of the signals below, 0-1"),
+    signals: z.array(
+      z.object({
+        signal: z.enum([
+          "keywords",
+          "urgency",
+          "forwarded",
+          "media",
+          "links",
+          "suspiciousLinks",
+          "caps",
+          "senderHistory",
+          "casual",
+        ]),
+        strength: z
+          .number()
+          .describe("How strongly the message shows this signal, 0-1"),
+        weight: z.number(),
+        contribution: z.number().describe("strength x weight"),
+        detail: z.string().optional(),
+      }),
+    ),
   }),
 
   execute: async ({ context, mastra }) => {
@@ -171,84 +124,57 @@ export const gatekeeperTool = createTool({
       isForwarded: context.isForwarded,
     });
 
-    const textToAnalyze = `${context.message || ""} ${context.caption || ""}`.toLowerCase().trim();
-    const words = textToAnalyze.split(/\s+/).filter((w) => w.length > 0);
-    const wordCount = words.length;
-
-    logger?.info("🔍 [Gatekeeper] Text analysis", { textToAnalyze, wordCount });
-
-    // STRICT FILTERING - Only process suspicious/malicious content
-
-    // 1. Check for media (Always process - could be fake documents)
-    if (context.hasPhoto || context.hasDocument) {
-      logger?.info("📷 [Gatekeeper] Media detected - HIGH priority activation");
-      return {
-        shouldProcess: true,
-        reason: "Message contains media (potential fake document)",
-        detectedKeywords: [],
-        priority: "high" as const,
-      };
-    }
-
-    // 2. Check for forwarded messages (Higher chance of rumors)
-    if (context.isForwarded) {
-      logger?.info("📤 [Gatekeeper] Forwarded message - MEDIUM priority activation");
-      return {
-        shouldProcess: true,
-        reason: "Forwarded message (potential rumor)",
-        detectedKeywords: [],
-        priority: "medium" as const,
-      };
-    }
-
-    // 3. Check for very short casual greetings (Skip these)
-    if (wordCount <= 3) {
-      const isCasual = words.every((word) =>
-        CASUAL_WORDS.some((casual) => word.includes(casual))
+    const { rules, profile } = await getGatekeeperRules(context.chatId);
+    const senderHistory = context.senderId
+      ? await getSenderHistory(context.senderId)
+      : undefined;
+    const linkReport = await analyzeLinks(
+      `${context.message || ""} ${context.caption || ""}`,
+      rules.trustedDomains,
+      logger,
+    );
+    const assessment = assessMessageRisk(
+      { ...context, suspiciousLinks: linkReport.suspicious },
+      rules,
+      senderHistory,
+    );
+
+    if (context.senderId) {
+      await recordSenderAssessment(
+        context.senderId,
+        assessment.riskScore,
+        assessment.priority === "high",
       );
-      if (isCasual) {
-        logger?.info("⏭️ [Gatekeeper] Casual greeting - SKIP");
-        return {
-          shouldProcess: false,
-          reason: "Casual greeting/chat",
-          detectedKeywords: [],
-          priority: "skip" as const,
-        };
-      }
     }
 
-    // 4. ENHANCED: Check for PANIC KEYWORDS with fuzzy matching (catches spelling mistakes)
-    const detectedKeywords: string[] = [];
-
-    for (const word of words) {
-      for (const keyword of PANIC_KEYWORDS) {
-        if (fuzzyMatchKeyword(word, keyword.toLowerCase())) {
-          if (!detectedKeywords.includes(keyword)) {
-            detectedKeywords.push(keyword);
-          }
-        }
-      }
-    }
-
-    if (detectedKeywords.length > 0) {
-      logger?.info("⚠️ [Gatekeeper] Panic keywords detected (fuzzy match) - HIGH priority activation", {
-        keywords: detectedKeywords
-      });
-      return {
-        shouldProcess: true,
-        reason: `Contains suspicious keywords: ${detectedKeywords.join(", ")}`,
-        detectedKeywords,
-        priority: "high" as const,
-      };
-    }
+    const icon =
+      assessment.priority === "skip"
+        ? "⏭️"
+        : assessment.priority === "high"
+          ? "⚠️"
+          : "📤";
+    logger?.info(
+      `${icon} [Gatekeeper] ${assessment.priority.toUpperCase()} (risk ${assessment.riskScore})`,
+      {
+        profile,
+        reason: assessment.reason,
+        signals: assessment.signals.filter((s) => s.strength > 0),
+        suspiciousLinks: linkReport.suspicious.map(
+          (link) => `${link.domain} (${link.reason})`,
+        ),
+      },
+    );
 
-    // 5. Skip regular neutral conversations
-    logger?.info("⏭️ [Gatekeeper] Regular conversation - SKIP");
     return {
-      shouldProcess: false,
-      reason: "Regular neutral message (no suspicious content)",
-      detectedKeywords: [],
-      priority: "skip" as const,
+      shouldProcess: assessment.shouldProcess,
+      reason: assessment.reason,
+      detectedKeywords: assessment.detectedKeywords,
+      keywordMatches: assessment.keywordMatches,
+      suspiciousLinks: linkReport.suspicious,
+      priority: assessment.priority,
+      profile,
+      riskScore: assessment.riskScore,
+      signals: assessment.signals,
     };
   },
 });
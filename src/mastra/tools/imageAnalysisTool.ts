@@ -4,6 +4,181 @@ config({ path: path.resolve(process.cwd(), ".env") });
 
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
+import {
+  findImageVerdict,
+  rememberImage,
+  type ImageEvidence,
+} from "../claims/imageVerdicts";
+
+export type ImageAnalysis = ImageEvidence & {
+  success: boolean;
+  error?: string;
+};
+
+function analysisFailure(error: string): ImageAnalysis {
+  return {
+    success: false,
+    extractedText: "",
+    imageDescription: "",
+    containsOfficial: false,
+    confidence: 0,
+    error,
+  };
+}
+
+/**
+ * Reads an image with Gemini Vision: its text, what kind of document it is and whether it looks
+ * official. A copy of an image analyzed before (re-saved, recompressed or slightly cropped) gets the
+ * stored analysis instead, and a fresh analysis is stored for the copies that follow.
+ */
+export async function analyzeImage(
+  image: { data: Buffer; mimeType: string; fileUniqueId?: string },
+  caption?: string,
+  logger?: any,
+): Promise<ImageAnalysis> {
+  const googleApiKey = process.env.GOOGLE_API_KEY;
+  if (!googleApiKey) {
+    logger?.error("❌ [Image Analysis] GOOGLE_API_KEY not configured");
+    return analysisFailure("Google API key not configured");
+  }
+
+  try {
+    // A re-saved, recompressed or slightly cropped copy of an analyzed image gets the same analysis
+    const knownImage = await findImageVerdict(image, logger).catch(
+      () => undefined,
+    );
+    if (knownImage?.evidence) {
+      logger?.info("♻️ [Image Analysis] Reusing analysis of a matching image", {
+        imageId: knownImage.id,
+        distance: knownImage.distance,
+      });
+      await rememberImage(image, {}, logger).catch(() => undefined);
+      return { success: true, ...knownImage.evidence };
+    }
+
+    logger?.info("📸 [Image Analysis] Sending to Gemini Vision API", {
+      imageSize: image.data.byteLength,
+      contentType: image.mimeType,
+    });
+
+    const prompt = `Analyze this image carefully. This may be a screenshot of a university notice, circular, or official document.
+
+Your task:
+1. Extract ALL text visible in the image (OCR)
+2. Describe what type of document or image this is
+3. Identify if it appears to be an official university document (look for letterheads, stamps, signatures, official formatting)
+4. Note any signs that might indicate the document is fake or manipulated
+
+${caption ? `The user provided this caption: "${caption}"` : ""}
+
+Respond in this exact format:
+EXTRACTED_TEXT: [All text you can read from the image]
+DOCUMENT_TYPE: [What kind of document/image is this]
+APPEARS_OFFICIAL: [YES/NO/UNCERTAIN]
+CONFIDENCE: [0.0 to 1.0]
+OBSERVATIONS: [Any notable observations about authenticity]`;
+
+    const geminiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${googleApiKey}`;
+
+    const geminiPayload = {
+      contents: [
+        {
+          parts: [
+            {
+              inline_data: {
+                mime_type: image.mimeType,
+                data: image.data.toString("base64"),
+              },
+            },
+            {
+              text: prompt,
+            },
+          ],
+        },
+      ],
+      generationConfig: {
+        temperature: 0.2,
+        maxOutputTokens: 2048,
+      },
+    };
+
+    const geminiResponse = await fetch(geminiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(geminiPayload),
+    });
+
+    if (!geminiResponse.ok) {
+      const errorText = await geminiResponse.text();
+      logger?.error("❌ [Image Analysis] Gemini API error", {
+        status: geminiResponse.status,
+        error: errorText,
+      });
+      return analysisFailure(`Gemini API error: ${geminiResponse.status}`);
+    }
+
+    const geminiResult = await geminiResponse.json();
+    const responseText =
+      geminiResult.candidates?.[0]?.content?.parts?.[0]?.text || "";
+
+    logger?.info("📸 [Image Analysis] Gemini response received", {
+      responseLength: responseText.length,
+    });
+
+    const extractedTextMatch = responseText.match(
+      /EXTRACTED_TEXT:\s*([\s\S]*?)(?=DOCUMENT_TYPE:|$)/i,
+    );
+    const documentTypeMatch = responseText.match(
+      /DOCUMENT_TYPE:\s*([\s\S]*?)(?=APPEARS_OFFICIAL:|$)/i,
+    );
+    const appearsOfficialMatch = responseText.match(
+      /APPEARS_OFFICIAL:\s*(YES|NO|UNCERTAIN)/i,
+    );
+    const confidenceMatch = responseText.match(/CONFIDENCE:\s*([\d.]+)/i);
+    const observationsMatch = responseText.match(
+      /OBSERVATIONS:\s*([\s\S]*?)$/i,
+    );
+
+    const extractedText = extractedTextMatch?.[1]?.trim() || responseText;
+    const documentType =
+      documentTypeMatch?.[1]?.trim() || "Unknown document type";
+    const appearsOfficial = appearsOfficialMatch?.[1]?.toUpperCase() === "YES";
+    const confidence = parseFloat(confidenceMatch?.[1] || "0.5");
+    const observations = observationsMatch?.[1]?.trim() || "";
+
+    const imageDescription = `${documentType}. ${observations}`;
+
+    logger?.info("✅ [Image Analysis] Analysis complete", {
+      extractedTextLength: extractedText.length,
+      appearsOfficial,
+      confidence,
+    });
+
+    const evidence = {
+      extractedText,
+      imageDescription,
+      containsOfficial: appearsOfficial,
+      confidence: Math.min(Math.max(confidence, 0), 1),
+    };
+    await rememberImage(image, { evidence }, logger).catch(
+      (storeError: any) => {
+        logger?.warn("⚠️ [Image Analysis] Could not store analysis", {
+          error: storeError.message,
+        });
+      },
+    );
+
+    return {
+      success: true,
+      ...evidence,
+    };
+  } catch (error) {
+    logger?.error("❌ [Image Analysis] Error analyzing image", { error });
+    return analysisFailure(`Failed to analyze image: ${error}`);
+  }
+}
 
 export const imageAnalysisTool = createTool({
   id: "image-analysis",
@@ -36,26 +211,12 @@ export const imageAnalysisTool = createTool({
 
     if (!botToken) {
       logger?.error("❌ [Image Analysis] TELEGRAM_BOT_TOKEN not configured");
-      return {
-        success: false,
-        extractedText: "",
-        imageDescription: "",
-        containsOfficial: false,
-        confidence: 0,
-        error: "Telegram bot token not configured",
-      };
+      return analysisFailure("Telegram bot token not configured");
     }
 
     if (!googleApiKey) {
       logger?.error("❌ [Image Analysis] GOOGLE_API_KEY not configured");
-      return {
-        success: false,
-        extractedText: "",
-        imageDescription: "",
-        containsOfficial: false,
-        confidence: 0,
-        error: "Google API key not configured",
-      };
+      return analysisFailure("Google API key not configured");
     }
 
     try {
@@ -66,161 +227,59 @@ export const imageAnalysisTool = createTool({
       const fileInfo = await fileInfoResponse.json();
 
       if (!fileInfo.ok || !fileInfo.result?.file_path) {
-        logger?.error("❌ [Image Analysis] Failed to get file info", { fileInfo });
-        return {
-          success: false,
-          extractedText: "",
-          imageDescription: "",
-          containsOfficial: false,
-          confidence: 0,
-          error: "Failed to get file info from Telegram",
-        };
+        logger?.error("❌ [Image Analysis] Failed to get file info", {
+          fileInfo,
+        });
+        return analysisFailure("Failed to get file info from Telegram");
       }
 
       const filePath = fileInfo.result.file_path;
+      const fileUniqueId: string | undefined = fileInfo.result.file_unique_id;
       const fileUrl = `https://api.telegram.org/file/bot${botToken}/${filePath}`;
 
+      // Forwards of one upload share a file_unique_id; no need to download or analyze them again
+      const knownFile = fileUniqueId
+        ? await findImageVerdict({ fileUniqueId }, logger).catch(
+            () => undefined,
+          )
+        : undefined;
+      if (knownFile?.evidence) {
+        logger?.info("♻️ [Image Analysis] Reusing analysis of the same image", {
+          imageId: knownFile.id,
+        });
+        return { success: true, ...knownFile.evidence };
+      }
+
       logger?.info("📸 [Image Analysis] Downloading image from Telegram");
 
       const imageResponse = await fetch(fileUrl);
       if (!imageResponse.ok) {
         logger?.error("❌ [Image Analysis] Failed to download image");
-        return {
-          success: false,
-          extractedText: "",
-          imageDescription: "",
-          containsOfficial: false,
-          confidence: 0,
-          error: "Failed to download image from Telegram",
-        };
+        return analysisFailure("Failed to download image from Telegram");
       }
 
       const imageBuffer = await imageResponse.arrayBuffer();
-      const base64Image = Buffer.from(imageBuffer).toString("base64");
 
-      let contentType = imageResponse.headers.get("content-type") || "image/jpeg";
+      let contentType =
+        imageResponse.headers.get("content-type") || "image/jpeg";
 
       // Fix for Telegram returning application/octet-stream
       if (contentType === "application/octet-stream") {
-        const ext = filePath.split('.').pop()?.toLowerCase();
+        const ext = filePath.split(".").pop()?.toLowerCase();
         if (ext === "png") contentType = "image/png";
         else if (ext === "jpg" || ext === "jpeg") contentType = "image/jpeg";
         else if (ext === "webp") contentType = "image/webp";
         else contentType = "image/jpeg"; // Default fallback
       }
 
-      logger?.info("📸 [Image Analysis] Sending to Gemini Vision API", {
-        imageSize: imageBuffer.byteLength,
-        contentType,
-      });
-
-      const prompt = `Analyze this image carefully. This may be a screenshot of a university notice, circular, or official document.
-
-Your task:
-1. Extract ALL text visible in the image (OCR)
-2. Describe what type of document or image this is
-3. Identify if it appears to be an official university document (look for letterheads, stamps, signatures, official formatting)
-4. Note any signs that might indicate the document is fake or manipulated
-
-${context.caption ? `The user provided this caption: "${context.caption}"` : ""}
-
-Respond in this exact format:
-EXTRACTED_TEXT: [All text you can read from the image]
-DOCUMENT_TYPE: [What kind of document/image is this]
-APPEARS_OFFICIAL: [YES/NO/UNCERTAIN]
-CONFIDENCE: [0.0 to 1.0]
-OBSERVATIONS: [Any notable observations about authenticity]`;
-
-      const geminiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${googleApiKey}`;
-
-      const geminiPayload = {
-        contents: [
-          {
-            parts: [
-              {
-                inline_data: {
-                  mime_type: contentType,
-                  data: base64Image,
-                },
-              },
-              {
-                text: prompt,
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.2,
-          maxOutputTokens: 2048,
-        },
-      };
-
-      const geminiResponse = await fetch(geminiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(geminiPayload),
-      });
-
-      if (!geminiResponse.ok) {
-        const errorText = await geminiResponse.text();
-        logger?.error("❌ [Image Analysis] Gemini API error", { status: geminiResponse.status, error: errorText });
-        return {
-          success: false,
-          extractedText: "",
-          imageDescription: "",
-          containsOfficial: false,
-          confidence: 0,
-          error: `Gemini API error: ${geminiResponse.status}`,
-        };
-      }
-
-      const geminiResult = await geminiResponse.json();
-      const responseText = geminiResult.candidates?.[0]?.content?.parts?.[0]?.text || "";
-
-      logger?.info("📸 [Image Analysis] Gemini response received", {
-        responseLength: responseText.length,
-      });
-
-      const extractedTextMatch = responseText.match(/EXTRACTED_TEXT:\s*([\s\S]*?)(?=DOCUMENT_TYPE:|$)/i);
-      const documentTypeMatch = responseText.match(/DOCUMENT_TYPE:\s*([\s\S]*?)(?=APPEARS_OFFICIAL:|$)/i);
-      const appearsOfficialMatch = responseText.match(/APPEARS_OFFICIAL:\s*(YES|NO|UNCERTAIN)/i);
-      const confidenceMatch = responseText.match(/CONFIDENCE:\s*([\d.]+)/i);
-      const observationsMatch = responseText.match(/OBSERVATIONS:\s*([\s\S]*?)$/i);
-
-      const extractedText = extractedTextMatch?.[1]?.trim() || responseText;
-      const documentType = documentTypeMatch?.[1]?.trim() || "Unknown document type";
-      const appearsOfficial = appearsOfficialMatch?.[1]?.toUpperCase() === "YES";
-      const confidence = parseFloat(confidenceMatch?.[1] || "0.5");
-      const observations = observationsMatch?.[1]?.trim() || "";
-
-      const imageDescription = `${documentType}. ${observations}`;
-
-      logger?.info("✅ [Image Analysis] Analysis complete", {
-        extractedTextLength: extractedText.length,
-        appearsOfficial,
-        confidence,
-      });
-
-      return {
-        success: true,
-        extractedText,
-        imageDescription,
-        containsOfficial: appearsOfficial,
-        confidence: Math.min(Math.max(confidence, 0), 1),
-      };
-
+      return await analyzeImage(
+        { data: Buffer.from(imageBuffer), mimeType: contentType, fileUniqueId },
+        context.caption,
+        logger,
+      );
     } catch (error) {
       logger?.error("❌ [Image Analysis] Error analyzing image", { error });
-      return {
-        success: false,
-        extractedText: "",
-        imageDescription: "",
-        containsOfficial: false,
-        confidence: 0,
-        error: `Failed to analyze image: ${error}`,
-      };
+      return analysisFailure(`Failed to analyze image: ${error}`);
     }
   },
 });
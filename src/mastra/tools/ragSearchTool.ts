@@ -1,133 +1,70 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import * as fs from "fs";
 import * as path from "path";
-
-interface DocumentChunk {
-  content: string;
-  source: string;
-  chunkIndex: number;
-}
-
-let documentChunks: DocumentChunk[] = [];
-let isInitialized = false;
-
-function chunkText(text: string, chunkSize: number = 500, overlap: number = 100): string[] {
-  const chunks: string[] = [];
-  let start = 0;
-
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    let chunkEnd = end;
-    
-    if (end < text.length) {
-      const lastPeriod = text.lastIndexOf(".", end);
-      const lastNewline = text.lastIndexOf("\n", end);
-      const breakPoint = Math.max(lastPeriod, lastNewline);
-      if (breakPoint > start + chunkSize / 2) {
-        chunkEnd = breakPoint + 1;
-      }
-    }
-
-    chunks.push(text.slice(start, chunkEnd).trim());
-    start = chunkEnd - overlap;
-  }
-
-  return chunks.filter((chunk) => chunk.length > 50);
-}
-
-function simpleTokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^\w\s]/g, " ")
-    .split(/\s+/)
-    .filter((word) => word.length > 2);
-}
-
-function calculateSimilarity(query: string, document: string): number {
-  const queryTokens = new Set(simpleTokenize(query));
-  const docTokens = simpleTokenize(document);
-  const docTokenSet = new Set(docTokens);
-
-  let matchCount = 0;
-  for (const token of queryTokens) {
-    if (docTokenSet.has(token)) {
-      matchCount++;
-    }
-    for (const docToken of docTokenSet) {
-      if (docToken.includes(token) || token.includes(docToken)) {
-        matchCount += 0.5;
-      }
-    }
-  }
-
-  const score = matchCount / Math.max(queryTokens.size, 1);
-  return score;
-}
-
-async function loadPDFsFromDirectory(dataDir: string, logger?: any): Promise<DocumentChunk[]> {
-  const chunks: DocumentChunk[] = [];
-
-  if (!fs.existsSync(dataDir)) {
-    logger?.warn(`📁 [RAG] Data directory not found: ${dataDir}`);
-    fs.mkdirSync(dataDir, { recursive: true });
-    logger?.info(`📁 [RAG] Created data directory: ${dataDir}`);
-    return chunks;
-  }
-
-  const files = fs.readdirSync(dataDir);
-  const pdfFiles = files.filter((file) => file.toLowerCase().endsWith(".pdf"));
-  const txtFiles = files.filter((file) => file.toLowerCase().endsWith(".txt"));
-
-  logger?.info(`📚 [RAG] Found ${pdfFiles.length} PDF files and ${txtFiles.length} TXT files`);
-
-  for (const file of txtFiles) {
-    try {
-      const filePath = path.join(dataDir, file);
-      const content = fs.readFileSync(filePath, "utf-8");
-      const textChunks = chunkText(content);
-
-      textChunks.forEach((chunk, index) => {
-        chunks.push({
-          content: chunk,
-          source: file,
-          chunkIndex: index,
-        });
-      });
-
-      logger?.info(`✅ [RAG] Loaded ${textChunks.length} chunks from ${file}`);
-    } catch (error) {
-      logger?.error(`❌ [RAG] Error loading ${file}:`, { error });
-    }
-  }
-
-  for (const file of pdfFiles) {
-    try {
-      const filePath = path.join(dataDir, file);
-      
-      logger?.info(`📄 [RAG] PDF file found: ${file}. Note: For full PDF parsing, add text extracts to data/*.txt files.`);
-      
-      chunks.push({
-        content: `[PDF Document: ${file}] - This is a placeholder. For better results, extract text content to a .txt file.`,
-        source: file,
-        chunkIndex: 0,
-      });
-    } catch (error) {
-      logger?.error(`❌ [RAG] Error processing ${file}:`, { error });
-    }
-  }
-
-  return chunks;
-}
+import {
+  ensureKnowledgeBaseLoaded,
+  getIndexedChunkCount,
+  searchKnowledgeBase,
+  syncKnowledgeBase,
+} from "../rag/knowledgeBase";
+import { classifyStance } from "../rag/claimStance";
+import { isExpired } from "../rag/noticeMetadata";
+
+// Minimum fused score for a passage to count as evidence
+export const RELEVANCE_THRESHOLD = 0.35;
+
+const stanceSpanSchema = z.object({
+  kind: z.enum(["date", "status", "amount", "percentage"]),
+  claim: z.string().describe("Wording in the claim"),
+  passage: z.string().describe("Wording in the passage"),
+});
 
 export const ragSearchTool = createTool({
   id: "rag-search",
   description:
-    "Searches the official university document database (PDFs and text files in data/ folder) to find relevant facts for verification.",
+    "Searches the official university document database (PDF, TXT, Markdown, HTML, DOCX and CSV files anywhere under the data/ folder) to find relevant facts for verification.",
 
   inputSchema: z.object({
-    query: z.string().describe("The search query to find relevant official documents"),
-    topK: z.number().optional().default(3).describe("Number of top results to return"),
+    query: z
+      .string()
+      .describe("The search query to find relevant official documents"),
+    claim: z
+      .string()
+      .optional()
+      .describe(
+        'The claim being verified, e.g. "Exams postponed to Dec 5". Each passage is labelled SUPPORTS / REFUTES / NEUTRAL against it; defaults to the query',
+      ),
+    topK: z
+      .number()
+      .optional()
+      .default(3)
+      .describe("Number of top results to return"),
+    collection: z
+      .string()
+      .optional()
+      .describe(
+        'Only search documents in this data/ sub-folder, e.g. "syllabus", "notices" or "calendars"',
+      ),
+    asOfDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional()
+      .describe(
+        "YYYY-MM-DD. Only return notices in force on this date; pass today's date when checking a claim about the present so expired notices are excluded",
+      ),
+    issuer: z
+      .string()
+      .optional()
+      .describe(
+        'Only return notices from this issuing office, e.g. "Examination" or "Registrar"',
+      ),
+    includeSuperseded: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "Also search older versions that a revised document has replaced, e.g. to answer what the previous circular said",
+      ),
   }),
 
   outputSchema: z.object({
@@ -135,90 +72,239 @@ export const ragSearchTool = createTool({
       z.object({
         content: z.string(),
         source: z.string(),
-        relevanceScore: z.number(),
-      })
+        collection: z
+          .string()
+          .describe(
+            'data/ sub-folder of the document ("" for top-level files)',
+          ),
+        page: z
+          .number()
+          .optional()
+          .describe("PDF page number the passage was taken from"),
+        section: z
+          .string()
+          .optional()
+          .describe("Nearest section heading above the passage"),
+        citation: z
+          .string()
+          .describe('Human-readable reference, e.g. "syllabus.pdf p.14"'),
+        title: z.string().optional().describe("Notice title or subject"),
+        issuer: z.string().optional().describe("Issuing office"),
+        circularNumber: z.string().optional(),
+        supersedes: z
+          .string()
+          .optional()
+          .describe("Circular number of the earlier notice this one replaces"),
+        issueDate: z.string().optional().describe("YYYY-MM-DD"),
+        validFrom: z.string().optional().describe("YYYY-MM-DD"),
+        validUntil: z.string().optional().describe("YYYY-MM-DD"),
+        validityUnknown: z
+          .boolean()
+          .optional()
+          .describe(
+            "The notice does not say until when it is in force, so it may have lapsed; ranked a little lower",
+          ),
+        version: z
+          .number()
+          .describe("1 for the original document, higher for each revision"),
+        supersededBy: z
+          .string()
+          .optional()
+          .describe(
+            "Newer document that replaces this one; only set when includeSuperseded is true",
+          ),
+        expired: z
+          .boolean()
+          .describe(
+            "Whether the notice's validity ended before asOfDate (or today)",
+          ),
+        stance: z
+          .enum(["SUPPORTS", "REFUTES", "NEUTRAL"])
+          .describe("What the passage says about the claim"),
+        stanceConfidence: z
+          .number()
+          .describe("Confidence in the stance label (0-1)"),
+        conflicts: z
+          .array(stanceSpanSchema)
+          .describe(
+            'Facts that contradict the claim, e.g. claim "Dec 5" vs passage "December 15, 2024"',
+          ),
+        agreements: z
+          .array(stanceSpanSchema)
+          .describe("Facts in the passage that match the claim"),
+        relevanceScore: z.number().describe("Fused hybrid score (0-1)"),
+        lexicalScore: z
+          .number()
+          .describe("Normalised BM25 keyword score (0-1)"),
+        semanticScore: z
+          .number()
+          .describe("Cosine similarity of the embeddings (0-1)"),
+      }),
     ),
     totalDocuments: z.number(),
     hasRelevantResults: z.boolean(),
+    supportingCount: z
+      .number()
+      .describe("Relevant passages that support the claim"),
+    refutingCount: z
+      .number()
+      .describe("Relevant passages that contradict the claim"),
   }),
 
   execute: async ({ context, mastra }) => {
     const logger = mastra?.getLogger();
-    logger?.info("🔍 [RAG Search] Starting search", { query: context.query, topK: context.topK });
-
-    const dataDir = path.join(process.cwd(), "data");
+    logger?.info("🔍 [RAG Search] Starting search", {
+      query: context.query,
+      topK: context.topK,
+      collection: context.collection,
+      claim: context.claim,
+      asOfDate: context.asOfDate,
+      issuer: context.issuer,
+      includeSuperseded: context.includeSuperseded,
+    });
 
-    if (!isInitialized || documentChunks.length === 0) {
-      logger?.info("📚 [RAG Search] Initializing document index...");
-      documentChunks = await loadPDFsFromDirectory(dataDir, logger);
-      isInitialized = true;
-      logger?.info(`📚 [RAG Search] Loaded ${documentChunks.length} total chunks`);
-    }
+    await ensureKnowledgeBaseLoaded(logger);
+    const totalChunks = getIndexedChunkCount();
 
-    if (documentChunks.length === 0) {
-      logger?.warn("⚠️ [RAG Search] No documents loaded. Add PDF or TXT files to the data/ folder.");
+    if (totalChunks === 0) {
+      logger?.warn(
+        "⚠️ [RAG Search] No documents loaded. Add official documents (PDF, TXT, MD, HTML, DOCX, CSV) to the data/ folder.",
+      );
       return {
         results: [],
         totalDocuments: 0,
         hasRelevantResults: false,
+        supportingCount: 0,
+        refutingCount: 0,
       };
     }
 
-    const scoredChunks = documentChunks.map((chunk) => ({
-      ...chunk,
-      relevanceScore: calculateSimilarity(context.query, chunk.content),
-    }));
-
-    scoredChunks.sort((a, b) => b.relevanceScore - a.relevanceScore);
-
-    const topK = context.topK || 3;
-    const topResults = scoredChunks.slice(0, topK);
-    const hasRelevantResults = topResults.some((r) => r.relevanceScore > 0.1);
+    const topResults = await searchKnowledgeBase(
+      {
+        query: context.query,
+        topK: context.topK || 3,
+        collection: context.collection,
+        asOfDate: context.asOfDate,
+        issuer: context.issuer,
+        includeSuperseded: context.includeSuperseded,
+      },
+      logger,
+    );
+    const referenceDate =
+      context.asOfDate ?? new Date().toISOString().slice(0, 10);
+    const hasRelevantResults = topResults.some(
+      (r) => r.relevanceScore >= RELEVANCE_THRESHOLD,
+    );
+
+    const claim = context.claim || context.query;
+    const stances = topResults.map((r) => classifyStance(claim, r.content));
+    const countRelevant = (stance: string) =>
+      topResults.filter(
+        (r, i) =>
+          r.relevanceScore >= RELEVANCE_THRESHOLD &&
+          stances[i].stance === stance,
+      ).length;
 
     logger?.info("✅ [RAG Search] Search complete", {
-      totalChunks: documentChunks.length,
+      totalChunks,
       topResultScore: topResults[0]?.relevanceScore,
+      topLexicalScore: topResults[0]?.lexicalScore,
+      topSemanticScore: topResults[0]?.semanticScore,
       hasRelevantResults,
+      stances: stances.map((s) => s.stance),
     });
 
     return {
-      results: topResults.map((r) => ({
+      results: topResults.map((r, i) => ({
         content: r.content,
         source: r.source,
+        collection: r.collection,
+        page: r.page,
+        section: r.section,
+        citation: r.page
+          ? `${path.basename(r.source)} p.${r.page}`
+          : path.basename(r.source),
+        ...r.metadata,
+        version: r.version,
+        supersededBy: r.supersededBy,
+        expired: isExpired(r.metadata, referenceDate),
         relevanceScore: Math.round(r.relevanceScore * 100) / 100,
+        lexicalScore: Math.round(r.lexicalScore * 100) / 100,
+        semanticScore: Math.round(r.semanticScore * 100) / 100,
+        stance: stances[i].stance,
+        stanceConfidence: Math.round(stances[i].confidence * 100) / 100,
+        conflicts: stances[i].conflicts,
+        agreements: stances[i].agreements,
       })),
-      totalDocuments: documentChunks.length,
+      totalDocuments: totalChunks,
       hasRelevantResults,
+      supportingCount: countRelevant("SUPPORTS"),
+      refutingCount: countRelevant("REFUTES"),
     };
   },
 });
 
 export const reloadDocumentsTool = createTool({
   id: "reload-documents",
-  description: "Reloads the document index from the data/ folder. Use when new documents are added.",
+  description:
+    "Incrementally re-indexes the data/ folder: only new or changed files are re-chunked and chunks of deleted files are removed. Use when new documents are added.",
 
-  inputSchema: z.object({}),
+  inputSchema: z.object({
+    force: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Re-index every file even if its content is unchanged"),
+  }),
 
   outputSchema: z.object({
     success: z.boolean(),
     documentCount: z.number(),
+    added: z.number(),
+    updated: z.number(),
+    removed: z.number(),
+    unchanged: z.number(),
+    files: z.array(
+      z.object({
+        source: z.string(),
+        status: z.enum(["added", "updated", "removed", "unchanged", "failed"]),
+        chunksAdded: z.number(),
+        chunksRemoved: z.number(),
+        error: z.string().optional(),
+      }),
+    ),
     message: z.string(),
   }),
 
-  execute: async ({ mastra }) => {
+  execute: async ({ context, mastra }) => {
     const logger = mastra?.getLogger();
-    logger?.info("🔄 [RAG] Reloading document index...");
+    logger?.info("🔄 [RAG] Syncing document index...", {
+      force: context.force,
+    });
 
-    const dataDir = path.join(process.cwd(), "data");
-    documentChunks = await loadPDFsFromDirectory(dataDir, logger);
-    isInitialized = true;
+    await ensureKnowledgeBaseLoaded(logger);
+    const report = await syncKnowledgeBase({ force: context.force }, logger);
 
-    logger?.info(`✅ [RAG] Reloaded ${documentChunks.length} chunks`);
+    logger?.info(`✅ [RAG] Index synced, ${report.totalChunks} chunks`, {
+      added: report.added,
+      updated: report.updated,
+      removed: report.removed,
+      failed: report.failed,
+    });
 
     return {
-      success: true,
-      documentCount: documentChunks.length,
-      message: `Successfully loaded ${documentChunks.length} document chunks from data/ folder`,
+      success: report.failed === 0,
+      documentCount: report.totalChunks,
+      added: report.added,
+      updated: report.updated,
+      removed: report.removed,
+      unchanged: report.unchanged,
+      // Unchanged files are summarised in the count only, to keep the output short
+      files: report.files.filter((f) => f.status !== "unchanged"),
+      message:
+        `Index has ${report.totalChunks} chunks: ${report.added} added, ${report.updated} updated, ` +
+        `${report.removed} removed, ${report.unchanged} unchanged` +
+        (report.failed > 0 ? `, ${report.failed} failed` : ""),
     };
   },
 });
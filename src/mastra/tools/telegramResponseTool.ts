@@ -1,5 +1,6 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
+import { telegramAdapter } from "../channels/telegramAdapter";
 
 export const telegramResponseTool = createTool({
   id: "telegram-response",
@@ -10,7 +11,11 @@ export const telegramResponseTool = createTool({
     chatId: z.number().describe("The Telegram chat ID to send the message to"),
     message: z.string().describe("The verification response message to send"),
     replyToMessageId: z.number().optional().describe("Message ID to reply to"),
-    parseMode: z.enum(["HTML", "Markdown", "MarkdownV2"]).optional().default("HTML").describe("Message parse mode"),
+    parseMode: z
+      .enum(["HTML", "Markdown", "MarkdownV2"])
+      .optional()
+      .default("HTML")
+      .describe("Message parse mode"),
   }),
 
   outputSchema: z.object({
@@ -27,50 +32,30 @@ export const telegramResponseTool = createTool({
       replyTo: context.replyToMessageId,
     });
 
-    const botToken = process.env.TELEGRAM_BOT_TOKEN;
-    if (!botToken) {
-      logger?.error("❌ [Telegram Response] TELEGRAM_BOT_TOKEN is missing!");
-      return { success: false, error: "Bot token missing" };
-    }
-
     try {
-      const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
-      const body = {
-        chat_id: context.chatId,
-        text: context.message,
-        reply_to_message_id: context.replyToMessageId,
-        parse_mode: "Markdown",
-      };
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(body),
-      });
-
-      const responseData = await response.json();
-
-      if (!response.ok) {
-        logger?.error("❌ [Telegram Response] API Error", {
-          status: response.status,
-          error: responseData,
-        });
-        return {
-          success: false,
-          error: `Telegram API Error: ${JSON.stringify(responseData)}`,
-        };
-      }
+      const messageId = await telegramAdapter.sendReply(
+        {
+          chatId: String(context.chatId),
+          messageId:
+            context.replyToMessageId === undefined
+              ? undefined
+              : String(context.replyToMessageId),
+        },
+        context.message,
+      );
 
       logger?.info("✅ [Telegram Response] Message sent successfully", {
-        messageId: responseData.result?.message_id,
+        messageId,
       });
 
       return {
         success: true,
-        messageId: responseData.result?.message_id,
+        messageId: messageId === undefined ? undefined : Number(messageId),
       };
     } catch (error: any) {
-      logger?.error("❌ [Telegram Response] Network/System Error", { error: error.message });
+      logger?.error("❌ [Telegram Response] Failed to send message", {
+        error: error.message,
+      });
       return {
         success: false,
         error: error.message,
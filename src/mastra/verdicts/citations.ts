@@ -0,0 +1,201 @@
+import path from "path";
+import { RELEVANCE_THRESHOLD } from "../tools/ragSearchTool";
+import type { Evidence, Verdict } from "./verdict";
+
+// What the search tools of one agent run actually returned
+export interface RunSources {
+  // Normalized URLs of every result, citation and video
+  urls: Set<string>;
+  // Lowercased names a local document can be cited by: file name, citation, circular number, title
+  documents: Set<string>;
+  // Lowercased source names of tools whose own answer counts as a source (see TOOL_SOURCES)
+  toolAnswers: Set<string>;
+  // Results from the university's own documents and websites, for verdicts resting on what they lack
+  official: Evidence[];
+}
+
+// Tools are reported under their key in the agent's tools map; older runs used their ids
+const TOOL_NAMES = {
+  exa: ["exaSearchTool", "exa-web-search"],
+  university: ["universitySearchTool", "university-web-search"],
+  perplexity: ["perplexitySearchTool"],
+  rag: ["ragSearchTool", "rag-search"],
+  image: ["imageAnalysisTool", "image-analysis"],
+  youtube: ["youtubeVerificationTool", "youtube-verification"],
+};
+
+// The source name a tool's own answer is cited by when it has no link to give, as the agent is told
+// to write it: Perplexity's synthesis, the text read off the image. Videos are cited by their URL
+export const TOOL_SOURCES = {
+  perplexity: "Perplexity",
+  image: "Image analysis",
+} as const;
+
+// Official results named when a verdict rests on their silence
+const MAX_OFFICIAL = 3;
+
+/**
+ * Host without "www." plus path without trailing slash and the query, so the same page cited with
+ * or without tracking fragments and slashes compares equal. Undefined for text that is not a URL.
+ */
+export function normalizeUrl(url: string): string | undefined {
+  try {
+    const parsed = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+    if (!host.includes(".")) return undefined;
+    return `${host}${parsed.pathname.replace(/\/+$/, "")}${parsed.search}`;
+  } catch {
+    return undefined;
+  }
+}
+
+function sourceName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function addDocumentName(documents: Set<string>, name: unknown): void {
+  if (typeof name === "string" && name.trim()) documents.add(sourceName(name));
+}
+
+/**
+ * Collects the sources an agent run's tool calls returned, from `response.toolResults`.
+ */
+export function runSources(toolResults: any[] | undefined): RunSources {
+  const sources: RunSources = {
+    urls: new Set(),
+    documents: new Set(),
+    toolAnswers: new Set(),
+    official: [],
+  };
+  const addUrl = (url: unknown) => {
+    const normalized = typeof url === "string" ? normalizeUrl(url) : undefined;
+    if (normalized) sources.urls.add(normalized);
+  };
+
+  for (const chunk of toolResults ?? []) {
+    const payload = chunk?.payload ?? chunk;
+    const toolName = payload?.toolName;
+    const output = payload?.result;
+    if (!toolName || !output) continue;
+
+    if (TOOL_NAMES.exa.includes(toolName)) {
+      for (const result of output.results ?? []) addUrl(result.url);
+    } else if (TOOL_NAMES.university.includes(toolName)) {
+      for (const result of output.results ?? []) {
+        addUrl(result.url);
+        if (result.isOfficial) {
+          sources.official.push({
+            source: result.title || result.source,
+            url: result.url,
+            stance: "neutral",
+          });
+        }
+      }
+    } else if (TOOL_NAMES.perplexity.includes(toolName)) {
+      for (const citation of output.citations ?? []) addUrl(citation);
+      // Failures come back as a "⚠️" notice in place of an answer
+      if (output.content && !String(output.content).startsWith("⚠️"))
+        sources.toolAnswers.add(sourceName(TOOL_SOURCES.perplexity));
+    } else if (TOOL_NAMES.rag.includes(toolName)) {
+      // Low-scoring passages are what the search fell back on, not documents about the claim
+      for (const result of output.results ?? []) {
+        if (!(result.relevanceScore >= RELEVANCE_THRESHOLD)) continue;
+        addDocumentName(sources.documents, result.citation);
+        addDocumentName(
+          sources.documents,
+          result.source && path.basename(result.source),
+        );
+        addDocumentName(
+          sources.documents,
+          result.source && path.parse(result.source).name,
+        );
+        addDocumentName(sources.documents, result.circularNumber);
+        addDocumentName(sources.documents, result.title);
+        sources.official.push({
+          source: result.title || result.citation,
+          ...(result.circularNumber && { documentRef: result.circularNumber }),
+          stance: "neutral",
+        });
+      }
+    } else if (TOOL_NAMES.image.includes(toolName)) {
+      if (output.success)
+        sources.toolAnswers.add(sourceName(TOOL_SOURCES.image));
+    } else if (TOOL_NAMES.youtube.includes(toolName)) {
+      addUrl(payload.args?.videoUrl);
+    }
+  }
+
+  // Documents rank above web pages, which come in search order
+  sources.official = [
+    ...sources.official.filter((evidence) => !evidence.url),
+    ...sources.official.filter((evidence) => evidence.url),
+  ].slice(0, MAX_OFFICIAL);
+  return sources;
+}
+
+/**
+ * Whether a piece of evidence names exactly something this run's tools returned: one of its result
+ * URLs, one of its local documents, or a tool whose own answer it cites. A source that merely
+ * mentions a document's title or a tool's name, or links elsewhere on a result's site, is not backed.
+ */
+export function isBacked(evidence: Evidence, sources: RunSources): boolean {
+  if (evidence.url) {
+    const cited = normalizeUrl(evidence.url);
+    return !!cited && sources.urls.has(cited);
+  }
+
+  // A circular number or document name must be one the run's searches turned up
+  if (evidence.documentRef)
+    return sources.documents.has(sourceName(evidence.documentRef));
+  const source = sourceName(evidence.source);
+  return sources.documents.has(source) || sources.toolAnswers.has(source);
+}
+
+/**
+ * Checks every source a verdict cites against what the run's tools returned. Sources no tool
+ * returned are moved to `unverifiedEvidence`, and a VERIFIED or HOAX verdict left without a single
+ * backed source falls back to UNCERTAIN: the agent made its sources up, so its conclusion cannot be
+ * trusted either.
+ */
+export function checkCitations(
+  verdict: Verdict,
+  sources: RunSources,
+  logger?: any,
+): Verdict {
+  if (verdict.label === "SKIPPED") return verdict;
+
+  const backed = verdict.evidence.filter((evidence) =>
+    isBacked(evidence, sources),
+  );
+  const unverified = verdict.evidence.filter(
+    (evidence) => !isBacked(evidence, sources),
+  );
+  const checked: Verdict = {
+    ...verdict,
+    evidence: backed,
+    unverifiedEvidence: unverified.length ? unverified : undefined,
+  };
+
+  if (unverified.length) {
+    logger?.warn("⚠️ [Citations] Verdict cites sources no tool returned", {
+      label: verdict.label,
+      unverified: unverified.map(
+        (evidence) => evidence.url ?? evidence.documentRef ?? evidence.source,
+      ),
+    });
+  }
+  if (verdict.label === "UNCERTAIN" || backed.length) return checked;
+
+  logger?.warn(
+    "⚠️ [Citations] No cited source checks out, downgrading to UNCERTAIN",
+    { label: verdict.label },
+  );
+  return {
+    ...checked,
+    label: "UNCERTAIN",
+    confidence: Math.min(verdict.confidence, 0.4),
+    reasoning: unverified.length
+      ? "The sources given for this could not be confirmed."
+      : "No source was found that settles this claim.",
+  };
+}
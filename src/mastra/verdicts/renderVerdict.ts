@@ -0,0 +1,135 @@
+import type { Evidence, Verdict, VerdictLabel } from "./verdict";
+
+// "plain" is unformatted text, for the API and anything without markup; "email" is plain text too,
+// with room for the whole verdict
+export type VerdictChannel =
+  | "telegram"
+  | "whatsapp"
+  | "slack"
+  | "discord"
+  | "email"
+  | "plain";
+
+const HEADLINES: Record<Exclude<VerdictLabel, "SKIPPED">, string> = {
+  HOAX: "🚨 HOAX",
+  VERIFIED: "✅ VERIFIED",
+  UNCERTAIN: "ℹ️ UNABLE TO VERIFY",
+};
+
+// Sources named in a reply; the rest stay in the structured verdict
+const MAX_SOURCES = 3;
+
+// Telegram's legacy Markdown: these start an entity unless escaped
+function escapeTelegram(text: string): string {
+  return text.replace(/([_*`[])/g, "\\$1");
+}
+
+// Slack mrkdwn only reserves these three, for links and mentions
+function escapeSlack(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// Discord markdown: emphasis, code, spoilers, quotes and masked links
+function escapeDiscord(text: string): string {
+  return text.replace(/([\\*_~`|>[\]])/g, "\\$1");
+}
+
+function escapeFor(text: string, channel: VerdictChannel): string {
+  if (channel === "telegram") return escapeTelegram(text);
+  if (channel === "slack") return escapeSlack(text);
+  if (channel === "discord") return escapeDiscord(text);
+  return text;
+}
+
+function sourceName(evidence: Evidence): string {
+  return evidence.documentRef && !evidence.source.includes(evidence.documentRef)
+    ? `${evidence.source} ${evidence.documentRef}`
+    : evidence.source;
+}
+
+function renderSource(evidence: Evidence, channel: VerdictChannel): string {
+  const name = sourceName(evidence);
+  if (channel === "telegram") {
+    return evidence.url
+      ? `[${escapeTelegram(name)}](${evidence.url.replace(/\)/g, "%29")})`
+      : escapeTelegram(name);
+  }
+  if (channel === "discord") {
+    // <url> keeps Discord from unfurling a preview of every source
+    return evidence.url
+      ? `[${escapeDiscord(name)}](<${evidence.url.replace(/>/g, "%3E")}>)`
+      : escapeDiscord(name);
+  }
+  if (channel === "slack") {
+    return evidence.url
+      ? `<${evidence.url.replace(/[|>]/g, (char) => encodeURIComponent(char))}|${escapeSlack(name)}>`
+      : escapeSlack(name);
+  }
+  return evidence.url ? `${name} (${evidence.url})` : name;
+}
+
+const STANCES: Record<Evidence["stance"], string> = {
+  supports: "supports the claim",
+  refutes: "refutes the claim",
+  neutral: "background",
+};
+
+// An email has no length limit to keep to, so it lists every source and what each one says
+function renderEmail(verdict: Verdict): string {
+  const lines = [
+    `${HEADLINES[verdict.label as Exclude<VerdictLabel, "SKIPPED">]} - ${verdict.reasoning}`,
+    "",
+    `Claim checked: ${verdict.claimSummary}`,
+    `Confidence: ${Math.round(verdict.confidence * 100)}%`,
+  ];
+  if (verdict.evidence.length) {
+    lines.push("", "Sources:");
+    for (const evidence of verdict.evidence) {
+      lines.push(
+        `- ${renderSource(evidence, "email")} (${STANCES[evidence.stance]})`,
+      );
+      if (evidence.excerpt) lines.push(`  "${evidence.excerpt}"`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * The chat message for a verdict: the label, the reasoning and the main sources, marked up for the
+ * channel. Empty for SKIPPED, which is never answered.
+ */
+export function renderVerdict(
+  verdict: Verdict,
+  channel: VerdictChannel,
+): string {
+  if (verdict.label === "SKIPPED") return "";
+  if (channel === "email") return renderEmail(verdict);
+
+  const headline = HEADLINES[verdict.label];
+  const reasoning = escapeFor(verdict.reasoning, channel);
+  const lines = [
+    channel === "plain"
+      ? `${headline} - ${reasoning}`
+      : channel === "discord"
+        ? `**${headline}** - ${reasoning}`
+        : `*${headline}* - ${reasoning}`,
+  ];
+
+  // Sources that settle the claim come first; background ones only when nothing else was found
+  const decisive = verdict.evidence.filter(
+    (evidence) => evidence.stance !== "neutral",
+  );
+  const sources = (decisive.length ? decisive : verdict.evidence).slice(
+    0,
+    MAX_SOURCES,
+  );
+  if (sources.length) {
+    lines.push(
+      `Source: ${sources.map((evidence) => renderSource(evidence, channel)).join(", ")}`,
+    );
+  }
+  return lines.join("\n");
+}
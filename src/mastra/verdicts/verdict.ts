@@ -0,0 +1,192 @@
+import { z } from "zod";
+
+// SKIPPED: the gatekeeper judged the message not worth checking; nothing is sent back
+export const VERDICT_LABELS = [
+  "VERIFIED",
+  "HOAX",
+  "UNCERTAIN",
+  "SKIPPED",
+] as const;
+
+export type VerdictLabel = (typeof VERDICT_LABELS)[number];
+
+export const evidenceSchema = z.object({
+  source: z
+    .string()
+    .describe(
+      'Who says so, e.g. "Mumbai University website", "UGC notice", "Perplexity"',
+    ),
+  url: z
+    .string()
+    .optional()
+    .describe("Link to the page or notice, when there is one"),
+  documentRef: z
+    .string()
+    .optional()
+    .describe(
+      "Circular or notice number, or the name of the local document the passage came from",
+    ),
+  excerpt: z
+    .string()
+    .optional()
+    .describe("The sentence from the source that settles the claim"),
+  stance: z
+    .enum(["supports", "refutes", "neutral"])
+    .describe("Whether this source supports or refutes the claim"),
+});
+
+export const verdictSchema = z.object({
+  label: z
+    .enum(VERDICT_LABELS)
+    .describe(
+      "VERIFIED, HOAX, UNCERTAIN, or SKIPPED when the gatekeeper said to skip",
+    ),
+  confidence: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe("How sure the verdict is, from 0 to 1"),
+  claimSummary: z
+    .string()
+    .describe("The claim being checked, in one neutral sentence"),
+  evidence: z
+    .array(evidenceSchema)
+    .describe("The sources the verdict rests on, most important first"),
+  reasoning: z
+    .string()
+    .describe("One or two sentences on why, as they would be told to the user"),
+  unverifiedEvidence: z
+    .array(evidenceSchema)
+    .optional()
+    .describe(
+      "Filled in after the run with cited sources no tool returned; leave empty",
+    ),
+});
+
+export type Evidence = z.infer<typeof evidenceSchema>;
+export type Verdict = z.infer<typeof verdictSchema>;
+
+// Claims so consequential that an official notice would certainly exist if they were true
+const DRAMATIC_CLAIMS = [
+  "university shut",
+  "university closed",
+  "college shut",
+  "college closed",
+  "exam cancel",
+  "exam postpone",
+  "holiday declared",
+  "classes cancel",
+  "result declared",
+  "admission close",
+];
+
+/**
+ * Turns an UNCERTAIN verdict on a dramatic claim ("university shut", "exam cancelled") into a HOAX:
+ * such announcements are always made officially, so finding none means the claim is false. Only
+ * when the run actually read official documents or pages (`officialSources`, see runSources), which
+ * become the verdict's evidence; with nothing checked the verdict stays UNCERTAIN.
+ */
+export function hoaxIfUnconfirmedDramaticClaim(
+  verdict: Verdict,
+  claimText: string,
+  officialSources: Evidence[],
+  logger?: any,
+): Verdict {
+  if (verdict.label !== "UNCERTAIN") return verdict;
+  const text = claimText.toLowerCase();
+  if (!DRAMATIC_CLAIMS.some((keyword) => text.includes(keyword)))
+    return verdict;
+  if (officialSources.length === 0) {
+    logger?.info(
+      "ℹ️ [Verdict] Dramatic claim but no official source was checked; leaving it UNCERTAIN",
+    );
+    return verdict;
+  }
+
+  logger?.warn("⚠️ [Verdict] Overriding UNCERTAIN to HOAX for dramatic claim");
+  return {
+    ...verdict,
+    label: "HOAX",
+    confidence: Math.max(verdict.confidence, 0.7),
+    reasoning: "No official announcement found for this claim.",
+    evidence: verdict.evidence.length ? verdict.evidence : officialSources,
+  };
+}
+
+/**
+ * Reads a verdict written as text in the agent's emoji format ("🚨 HOAX - No such circular.
+ * Source: MU website"), for runs whose structured output failed and verdicts stored before they
+ * were structured. Empty text is a skip.
+ */
+export function verdictFromText(
+  text: string | undefined,
+  claimText = "",
+): Verdict {
+  const trimmed = (text ?? "").trim();
+  if (!trimmed) {
+    return {
+      label: "SKIPPED",
+      confidence: 1,
+      claimSummary: claimText,
+      evidence: [],
+      reasoning: "",
+    };
+  }
+
+  const label: VerdictLabel = /\bHOAX\b/i.test(trimmed)
+    ? "HOAX"
+    : /\bVERIFIED\b/i.test(trimmed)
+      ? "VERIFIED"
+      : "UNCERTAIN";
+  const [body, sourceText] = trimmed.split(/\bSources?:\s*/i);
+  const reasoning = body
+    .replace(
+      /^[\s*_\p{Extended_Pictographic}\uFE0F]*(?:HOAX(?: DETECTED)?|VERIFIED|UNCERTAIN|UNABLE TO VERIFY)\b[\s*.:-]*/iu,
+      "",
+    )
+    .trim()
+    .replace(/[\s.]+$/, "");
+  const evidence: Evidence[] = (sourceText ?? "")
+    .split(/\s*(?:\+|,|;|\band\b)\s*/)
+    .map((source) => source.trim().replace(/[\s.]+$/, ""))
+    .filter(Boolean)
+    .map((source) => {
+      const url = source.match(/https?:\/\/[^\s)]+/)?.[0];
+      const name = url
+        ? source
+            .replace(url, "")
+            .replace(/\(\s*\)/, "")
+            .trim() || url
+        : source;
+      const stance =
+        label === "VERIFIED"
+          ? "supports"
+          : label === "HOAX"
+            ? "refutes"
+            : "neutral";
+      return { source: name, ...(url && { url }), stance } as Evidence;
+    });
+
+  return {
+    label,
+    confidence: label === "UNCERTAIN" ? 0.5 : 0.7,
+    claimSummary: claimText,
+    evidence,
+    reasoning: reasoning ? `${reasoning}.` : "",
+  };
+}
+
+/**
+ * Verdicts are stored as JSON; older rows hold the agent's text instead.
+ */
+export function parseStoredVerdict(stored: string): Verdict {
+  if (stored.startsWith("{")) {
+    try {
+      const parsed = verdictSchema.safeParse(JSON.parse(stored));
+      if (parsed.success) return parsed.data;
+    } catch {
+      // Not JSON after all; read it as text
+    }
+  }
+  return verdictFromText(stored);
+}
@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+export const CHANNELS = [
+  "telegram",
+  "whatsapp",
+  "slack",
+  "discord",
+  "email",
+] as const;
+
+export type Channel = (typeof CHANNELS)[number];
+
+/**
+ * A message to verify, whatever chat app it came from. Each channel's adapter turns its trigger
+ * payload into one of these; the verification pipeline only ever sees this shape.
+ */
+export const incomingMessageSchema = z.object({
+  channel: z.enum(CHANNELS),
+  chatId: z
+    .string()
+    .describe(
+      "Where to reply: the Telegram chat ID, the sender's WhatsApp number, the Slack or Discord channel ID, or the address an email is answered at",
+    ),
+  messageId: z
+    .string()
+    .describe(
+      "Telegram message ID, Twilio message SID, Slack message timestamp, Discord message ID or email Message-ID",
+    ),
+  senderId: z
+    .string()
+    .describe("Stable ID of the sender, for the gatekeeper's sender history"),
+  senderName: z
+    .string()
+    .describe("How the sender is named in the agent's prompt"),
+  text: z.string().describe("The message text, or the caption of its media"),
+  isForwarded: z.boolean(),
+  replyToText: z
+    .string()
+    .optional()
+    .describe("Content of the message this one replies to"),
+  media: z
+    .object({
+      kind: z.enum(["photo", "document"]),
+      ref: z
+        .string()
+        .describe(
+          "Telegram file_id, Twilio media URL, Slack private file URL, Discord attachment URL or data: URL of an email attachment",
+        ),
+      uniqueId: z
+        .string()
+        .optional()
+        .describe(
+          "Telegram file_unique_id, Slack file ID or Discord attachment ID, the same across forwards",
+        ),
+      mimeType: z.string().optional(),
+    })
+    .optional()
+    .describe("The first photo or document attached; others are ignored"),
+  replyThread: z
+    .string()
+    .optional()
+    .describe(
+      "Thread the reply goes in (Slack thread_ts, or the subject an email reply keeps)",
+    ),
+  replyToken: z
+    .string()
+    .optional()
+    .describe("Token the reply is sent with (Discord interaction token)"),
+  threadId: z.string().describe("Agent memory thread for the judgment"),
+});
+
+export type IncomingMessage = z.infer<typeof incomingMessageSchema>;
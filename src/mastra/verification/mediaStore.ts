@@ -0,0 +1,83 @@
+import * as crypto from "crypto";
+import { sharedLibSQLClient } from "../storage";
+
+const MEDIA_TABLE = "verification_media";
+
+// Media of a run that never reached delivery (it failed, or the server stopped) is dropped after this
+const MEDIA_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredMedia {
+  mimeType: string;
+  data: Buffer;
+}
+
+let schemaReady: Promise<void> | null = null;
+
+function ensureMediaTable(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = sharedLibSQLClient
+      .batch(
+        [
+          `CREATE TABLE IF NOT EXISTS ${MEDIA_TABLE}
+            (id TEXT PRIMARY KEY, mime_type TEXT NOT NULL, data BLOB NOT NULL, stored_at TEXT NOT NULL)`,
+          `CREATE INDEX IF NOT EXISTS idx_${MEDIA_TABLE}_stored_at ON ${MEDIA_TABLE} (stored_at)`,
+        ],
+        "write",
+      )
+      .then(() => undefined)
+      .catch((error) => {
+        schemaReady = null;
+        throw error;
+      });
+  }
+  return schemaReady;
+}
+
+/**
+ * Keeps a message's photo or PDF for the rest of its verification run and returns the key the
+ * pipeline state carries instead of the bytes, which would otherwise be copied into every step's output.
+ */
+export async function storeMedia(media: StoredMedia): Promise<string> {
+  await ensureMediaTable();
+  const id = crypto.randomUUID();
+  const now = new Date();
+  await sharedLibSQLClient.batch(
+    [
+      {
+        sql: `DELETE FROM ${MEDIA_TABLE} WHERE stored_at < ?`,
+        args: [new Date(now.getTime() - MEDIA_TTL_MS).toISOString()],
+      },
+      {
+        sql: `INSERT INTO ${MEDIA_TABLE} (id, mime_type, data, stored_at) VALUES (?, ?, ?, ?)`,
+        args: [id, media.mimeType, media.data, now.toISOString()],
+      },
+    ],
+    "write",
+  );
+  return id;
+}
+
+export async function loadMedia(id: string): Promise<StoredMedia | undefined> {
+  await ensureMediaTable();
+  const { rows } = await sharedLibSQLClient.execute({
+    sql: `SELECT mime_type, data FROM ${MEDIA_TABLE} WHERE id = ?`,
+    args: [id],
+  });
+  if (rows.length === 0) return undefined;
+  const data: unknown = rows[0].data;
+  return {
+    mimeType: String(rows[0].mime_type),
+    data:
+      data instanceof ArrayBuffer
+        ? Buffer.from(data)
+        : Buffer.from(data as Uint8Array),
+  };
+}
+
+export async function deleteMedia(id: string): Promise<void> {
+  await ensureMediaTable();
+  await sharedLibSQLClient.execute({
+    sql: `DELETE FROM ${MEDIA_TABLE} WHERE id = ?`,
+    args: [id],
+  });
+}
@@ -0,0 +1,1008 @@
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import { cloneStep, createStep, createWorkflow } from "../inngest";
+import { z } from "zod";
+import { truthSentinelAgent, verdictModel } from "../agents/truthSentinelAgent";
+import { adapterFor, type ChannelAdapter } from "../channels";
+import {
+  claimClusterSchema,
+  freshVerdict,
+  recordClaim,
+  verifyOnce,
+} from "../claims/claimClusters";
+import {
+  findImageVerdict,
+  rememberImage,
+  type ImageRef,
+} from "../claims/imageVerdicts";
+import { universitySearchTool } from "../tools/exaSearchTool";
+import { gatekeeperTool } from "../tools/gatekeeperTool";
+import { analyzeImage } from "../tools/imageAnalysisTool";
+import { perplexitySearchTool } from "../tools/perplexitySearchTool";
+import { ragSearchTool } from "../tools/ragSearchTool";
+import { youtubeVerificationTool } from "../tools/youtubeVerificationTool";
+import { checkCitations, runSources } from "../verdicts/citations";
+import {
+  hoaxIfUnconfirmedDramaticClaim,
+  verdictFromText,
+  verdictSchema,
+} from "../verdicts/verdict";
+import { incomingMessageSchema, type IncomingMessage } from "./incomingMessage";
+import { deleteMedia, loadMedia, storeMedia } from "./mediaStore";
+
+/**
+ * Verification of a message from any channel as a fixed pipeline:
+ *
+ *   gatekeeper -> media analysis -> recall verdict -> YouTube -> routed RAG -> official search
+ *     -> Perplexity -> aggregation -> delivery
+ *
+ * The chat triggers run the stages in-process. With VERIFICATION_RUNNER=workflow they start a run of
+ * the channel's workflow instead, in which every stage after the gatekeeper is a branch that either
+ * runs or passes the state through, so each shows up (or shows up skipped) in the run and can be
+ * retried on its own. The stages call their tools directly; the agent is only asked for the
+ * judgment, in the aggregation stage, with everything the searches found in its prompt.
+ */
+
+// "workflow" verifies each message as a run of its channel's Inngest workflow; otherwise the stages
+// run in-process, so a reply does not depend on an Inngest server being reachable
+const RUN_ON_WORKFLOW = process.env.VERIFICATION_RUNNER === "workflow";
+
+// What the stages have found so far; each one adds its part and hands the whole state on
+const pipelineSchema = z.object({
+  message: incomingMessageSchema,
+  shouldVerify: z
+    .boolean()
+    .describe("Whether the gatekeeper passed the message on"),
+  skipReason: z.string().optional(),
+  attachment: z
+    .object({
+      mimeType: z.string(),
+      mediaId: z.string().describe("Key of the bytes in the media store"),
+    })
+    .optional()
+    .describe("The photo or PDF, shown to the agent with the findings"),
+  imageEvidence: z
+    .object({
+      extractedText: z.string(),
+      imageDescription: z.string(),
+      containsOfficial: z.boolean(),
+      confidence: z.number(),
+    })
+    .optional(),
+  knownVerdict: verdictSchema
+    .optional()
+    .describe("Verdict of an earlier copy, reused without searching"),
+  reusedFrom: z.enum(["image", "cluster"]).optional(),
+  cluster: claimClusterSchema
+    .optional()
+    .describe("Claim cluster of the message, see claimClusters"),
+  youtube: youtubeVerificationTool
+    .outputSchema!.extend({ videoUrl: z.string() })
+    .optional()
+    .describe("youtube-verification output plus the videoUrl checked"),
+  rag: ragSearchTool.outputSchema!.optional().describe("rag-search output"),
+  officialSearch: universitySearchTool
+    .outputSchema!.optional()
+    .describe("university-web-search output"),
+  perplexity: perplexitySearchTool
+    .outputSchema!.optional()
+    .describe("perplexitySearchTool output"),
+  verdict: verdictSchema.optional(),
+});
+
+export const verificationResultSchema = z.object({
+  processed: z.boolean(),
+  response: z.string().optional(),
+  verdict: verdictSchema.optional(),
+  skipped: z.boolean(),
+  skipReason: z.string().optional(),
+});
+
+type PipelineState = z.infer<typeof pipelineSchema>;
+
+export type VerificationResult = z.infer<typeof verificationResultSchema>;
+
+interface Stage {
+  id: string;
+  description: string;
+  // Whether the stage has anything to do; otherwise the state passes through unchanged
+  when: (state: PipelineState) => boolean;
+  run: (params: {
+    inputData: PipelineState;
+    mastra?: any;
+  }) => Promise<PipelineState>;
+  retries?: number;
+}
+
+const CHANNEL_NAMES: Record<IncomingMessage["channel"], string> = {
+  telegram: "Telegram",
+  whatsapp: "WhatsApp",
+  slack: "Slack",
+  discord: "Discord",
+  email: "email",
+};
+
+// Agent memory of each channel's conversations stays under the resource it was first stored under
+const AGENT_RESOURCES: Record<IncomingMessage["channel"], string> = {
+  telegram: "truth-sentinel-bot",
+  whatsapp: "truth-sentinel-whatsapp",
+  slack: "truth-sentinel-slack",
+  discord: "truth-sentinel-discord",
+  email: "truth-sentinel-email",
+};
+
+const YOUTUBE_LINK =
+  /https?:\/\/(?:www\.|m\.)?(?:youtube\.com\/(?:watch\?\S*v=|shorts\/)|youtu\.be\/)[\w-]{11}\S*/i;
+
+// data/ sub-folders searched first for claims on their topic; everything else searches all documents
+const RAG_ROUTES: Array<{ pattern: RegExp; collection: string }> = [
+  {
+    pattern:
+      /\b(syllabus|syllabi|curriculum|course|unit|paper pattern|marking scheme)\b/i,
+    collection: "syllabus",
+  },
+  {
+    pattern:
+      /\b(holiday|vacation|calendar|term (?:begins|starts|ends)|academic year)\b/i,
+    collection: "calendars",
+  },
+  {
+    pattern:
+      /\b(exam|result|admission|circular|notice|fee|hall ticket|timetable)s?\b/i,
+    collection: "notices",
+  },
+];
+
+// Searches get the claim, not a whole screenshot's worth of text
+const MAX_QUERY_LENGTH = 300;
+
+// Longest excerpt of each finding put in front of the agent
+const MAX_EXCERPT = 400;
+
+function claimText(state: PipelineState): string {
+  return [state.message.text, state.imageEvidence?.extractedText]
+    .filter(Boolean)
+    .join("\n")
+    .slice(0, MAX_QUERY_LENGTH)
+    .trim();
+}
+
+// The photo, with its bytes read back from the media store
+async function imageRefOf(state: PipelineState): Promise<ImageRef | undefined> {
+  if (!state.attachment?.mimeType.startsWith("image/")) return undefined;
+  const media = await loadMedia(state.attachment.mediaId);
+  if (!media) return undefined;
+  return {
+    data: media.data,
+    mimeType: media.mimeType,
+    fileUniqueId: state.message.media?.uniqueId,
+  };
+}
+
+const needsVerdict = (state: PipelineState) =>
+  state.shouldVerify && !state.knownVerdict;
+const needsSearch = (state: PipelineState) =>
+  needsVerdict(state) && claimText(state).length > 0;
+
+const gatekeeperLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: IncomingMessage;
+  mastra?: any;
+}) => {
+  const logger = mastra?.getLogger();
+  logger?.info("🚀 [Truth Sentinel] Starting verification", {
+    channel: inputData.channel,
+    chatId: inputData.chatId,
+    messageId: inputData.messageId,
+    sender: inputData.senderName,
+    media: inputData.media?.kind,
+  });
+
+  if (!inputData.text && !inputData.media) {
+    logger?.info("⏭️ [Truth Sentinel] Empty message, skipping");
+    return {
+      message: inputData,
+      shouldVerify: false,
+      skipReason: "Empty message with no media",
+    };
+  }
+
+  const gate = await gatekeeperTool.execute!({
+    context: {
+      chatId: inputData.chatId,
+      senderId: inputData.senderId,
+      message: inputData.text,
+      caption: "",
+      hasPhoto: inputData.media?.kind === "photo",
+      hasDocument: inputData.media?.kind === "document",
+      isForwarded: inputData.isForwarded,
+    },
+    mastra,
+    runtimeContext: new RuntimeContext(),
+  });
+
+  return {
+    message: inputData,
+    shouldVerify: gate.shouldProcess,
+    skipReason: gate.shouldProcess ? undefined : gate.reason,
+  };
+};
+
+// Downloads the photo or PDF, and reads the photo with image analysis unless a copy was checked before
+const mediaAnalysisLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: PipelineState;
+  mastra?: any;
+}) => {
+  const logger = mastra?.getLogger();
+  const media = inputData.message.media!;
+
+  // A photo checked before (this upload forwarded again) is answered from its stored verdict
+  // without downloading it or sending it to Gemini again
+  let knownImage =
+    media.kind === "photo" && media.uniqueId
+      ? await findImageVerdict({ fileUniqueId: media.uniqueId }, logger).catch(
+          (lookupError: any) => {
+            logger?.warn(
+              "⚠️ [Truth Sentinel] Could not look up image verdict",
+              { error: lookupError.message },
+            );
+            return undefined;
+          },
+        )
+      : undefined;
+
+  let state = inputData;
+  let imageRef: ImageRef | undefined;
+  if (!knownImage?.verdict) {
+    try {
+      const { bytes, mimeType } = await adapterFor(
+        inputData.message.channel,
+      ).downloadMedia(inputData.message);
+      if (!mimeType.startsWith("image/") && mimeType !== "application/pdf") {
+        logger?.warn(
+          "⚠️ [Truth Sentinel] Media is neither an image nor a PDF, skipping attachment",
+          { mimeType },
+        );
+        return inputData;
+      }
+      logger?.info("✅ [Truth Sentinel] Media downloaded successfully", {
+        mimeType,
+      });
+      state = {
+        ...inputData,
+        attachment: {
+          mimeType,
+          mediaId: await storeMedia({ mimeType, data: bytes }),
+        },
+      };
+      if (mimeType.startsWith("image/"))
+        imageRef = { data: bytes, mimeType, fileUniqueId: media.uniqueId };
+    } catch (downloadError: any) {
+      logger?.error("❌ [Truth Sentinel] Failed to download media", {
+        error: downloadError.message,
+      });
+      return inputData;
+    }
+
+    // A re-saved, recompressed or slightly cropped copy of a checked photo gets the same verdict
+    if (imageRef) {
+      knownImage = await findImageVerdict(imageRef, logger).catch(
+        (lookupError: any) => {
+          logger?.warn("⚠️ [Truth Sentinel] Could not look up image verdict", {
+            error: lookupError.message,
+          });
+          return undefined;
+        },
+      );
+    }
+  }
+
+  if (knownImage?.verdict) {
+    logger?.info("♻️ [Truth Sentinel] Reusing verdict of a known image", {
+      imageId: knownImage.id,
+      distance: knownImage.distance,
+      analyzedAt: knownImage.analyzedAt,
+      imageDescription: knownImage.evidence?.imageDescription,
+    });
+    return {
+      ...state,
+      knownVerdict: knownImage.verdict,
+      reusedFrom: "image" as const,
+    };
+  }
+
+  if (!imageRef) return state;
+  const analysis = await analyzeImage(
+    {
+      data: imageRef.data!,
+      mimeType: imageRef.mimeType!,
+      fileUniqueId: imageRef.fileUniqueId,
+    },
+    inputData.message.text || undefined,
+    logger,
+  );
+  if (!analysis.success) {
+    logger?.warn("⚠️ [Truth Sentinel] Image analysis failed", {
+      error: analysis.error,
+    });
+    return state;
+  }
+  const { extractedText, imageDescription, containsOfficial, confidence } =
+    analysis;
+  return {
+    ...state,
+    imageEvidence: {
+      extractedText,
+      imageDescription,
+      containsOfficial,
+      confidence,
+    },
+  };
+};
+
+// The same forwarded rumor reaches many chats; copies reuse the verdict of the first one
+const recallVerdictLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: PipelineState;
+  mastra?: any;
+}) => {
+  const logger = mastra?.getLogger();
+  const cluster = await recordClaim(
+    {
+      text: inputData.message.text,
+      image: (await imageRefOf(inputData)) as
+        | { data: Buffer; mimeType?: string }
+        | undefined,
+      channel: inputData.message.channel,
+      chatId: inputData.message.chatId,
+      messageId: inputData.message.messageId,
+    },
+    logger,
+  ).catch((clusterError: any) => {
+    logger?.warn("⚠️ [Truth Sentinel] Could not fingerprint message", {
+      error: clusterError.message,
+    });
+    return undefined;
+  });
+
+  const reusable =
+    !inputData.knownVerdict && cluster ? freshVerdict(cluster) : undefined;
+  if (reusable) {
+    logger?.info(
+      "♻️ [Truth Sentinel] Reusing verdict of a near-duplicate message",
+      {
+        clusterId: cluster?.id,
+        size: cluster?.size,
+        chatCount: cluster?.chatCount,
+      },
+    );
+    return {
+      ...inputData,
+      cluster,
+      knownVerdict: reusable,
+      reusedFrom: "cluster" as const,
+    };
+  }
+  return { ...inputData, cluster };
+};
+
+const youtubeLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: PipelineState;
+  mastra?: any;
+}) => {
+  const logger = mastra?.getLogger();
+  const videoUrl = inputData.message.text.match(YOUTUBE_LINK)![0];
+  try {
+    const youtube = await youtubeVerificationTool.execute!({
+      context: { videoUrl, claim: claimText(inputData) },
+      mastra,
+      runtimeContext: new RuntimeContext(),
+    });
+    return { ...inputData, youtube: { ...youtube, videoUrl } };
+  } catch (youtubeError: any) {
+    logger?.warn("⚠️ [Truth Sentinel] YouTube check failed", {
+      error: youtubeError.message,
+    });
+    return inputData;
+  }
+};
+
+// Searches the documents on the claim's topic first, and all of them when those have nothing
+const ragLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: PipelineState;
+  mastra?: any;
+}) => {
+  const logger = mastra?.getLogger();
+  const claim = claimText(inputData);
+  const search = (collection?: string) =>
+    ragSearchTool.execute!({
+      context: {
+        query: claim,
+        claim,
+        topK: 3,
+        collection,
+        asOfDate: new Date().toISOString().slice(0, 10),
+        includeSuperseded: false,
+      },
+      mastra,
+      runtimeContext: new RuntimeContext(),
+    });
+
+  const route = RAG_ROUTES.find(({ pattern }) => pattern.test(claim));
+  let rag = await search(route?.collection);
+  if (route && !rag.hasRelevantResults) {
+    logger?.info(
+      "🔀 [Truth Sentinel] Nothing relevant in the routed collection, searching all documents",
+      {
+        collection: route.collection,
+      },
+    );
+    rag = await search();
+  }
+  return { ...inputData, rag };
+};
+
+const officialSearchLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: PipelineState;
+  mastra?: any;
+}) => {
+  const claim = claimText(inputData);
+  const university = /\bugc\b/i.test(claim)
+    ? "ugc"
+    : /\b(mumbai|mu)\b/i.test(claim)
+      ? "mumbai"
+      : "general";
+  const officialSearch = await universitySearchTool.execute!({
+    context: { query: claim, university },
+    mastra,
+    runtimeContext: new RuntimeContext(),
+  });
+  return { ...inputData, officialSearch };
+};
+
+const perplexityLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: PipelineState;
+  mastra?: any;
+}) => {
+  const perplexity = await perplexitySearchTool.execute!({
+    context: {
+      query: `Is this claim about an Indian university true? "${claimText(inputData)}"`,
+    },
+    mastra,
+    runtimeContext: new RuntimeContext(),
+  });
+  return { ...inputData, perplexity };
+};
+
+function excerpt(text: string | undefined): string {
+  const flat = (text ?? "").replace(/\s+/g, " ").trim();
+  return flat.length > MAX_EXCERPT ? `${flat.slice(0, MAX_EXCERPT)}...` : flat;
+}
+
+// The findings in the prompt, named the way the agent has to cite them
+function describeFindings(state: PipelineState): string {
+  const sections: string[] = [];
+
+  if (state.imageEvidence) {
+    sections.push(`IMAGE (image analysis):
+- Text in the image: "${excerpt(state.imageEvidence.extractedText)}"
+- ${excerpt(state.imageEvidence.imageDescription)}
+- Looks like an official document: ${state.imageEvidence.containsOfficial ? "yes" : "no"}`);
+  }
+  if (state.youtube) {
+    sections.push(`YOUTUBE VIDEO ${state.youtube.videoUrl}:
+- "${state.youtube.videoTitle}" by ${state.youtube.channelName}
+- ${excerpt(state.youtube.summary)}
+- Matches the claim: ${state.youtube.isValid ? "yes" : "no"}`);
+  }
+  if (state.rag) {
+    const results = (state.rag.results ?? []).map(
+      (r: any) =>
+        `- [${r.citation}${r.circularNumber ? `, ${r.circularNumber}` : ""}] ${r.stance}${r.expired ? " (expired)" : ""}: "${excerpt(r.content)}"`,
+    );
+    sections.push(
+      `OFFICIAL DOCUMENTS (rag-search):\n${results.join("\n") || "- Nothing found"}`,
+    );
+  }
+  if (state.officialSearch) {
+    const results = (state.officialSearch.results ?? []).map(
+      (r: any) =>
+        `- ${r.title} (${r.url})${r.isOfficial ? " [official]" : ""}: "${excerpt(r.content)}"`,
+    );
+    sections.push(
+      `UNIVERSITY WEBSITES (university-web-search):\n${results.join("\n") || "- Nothing found"}`,
+    );
+  }
+  if (state.perplexity) {
+    const citations = state.perplexity.citations ?? [];
+    sections.push(
+      `PERPLEXITY:\n${excerpt(state.perplexity.content)}\nCitations: ${citations.join(", ") || "none"}`,
+    );
+  }
+  return sections.join("\n\n") || "No search could be run.";
+}
+
+// The findings as the tool results runSources reads, to check the agent's citations against
+function findingsAsToolResults(state: PipelineState): any[] {
+  return [
+    state.imageEvidence && {
+      toolName: "imageAnalysisTool",
+      result: { success: true, ...state.imageEvidence },
+    },
+    state.youtube && {
+      toolName: "youtubeVerificationTool",
+      result: state.youtube,
+      args: { videoUrl: state.youtube.videoUrl },
+    },
+    state.rag && { toolName: "ragSearchTool", result: state.rag },
+    state.officialSearch && {
+      toolName: "universitySearchTool",
+      result: state.officialSearch,
+    },
+    state.perplexity && {
+      toolName: "perplexitySearchTool",
+      result: state.perplexity,
+    },
+  ].filter(Boolean);
+}
+
+const aggregationLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: PipelineState;
+  mastra?: any;
+}) => {
+  const logger = mastra?.getLogger();
+  const { message, attachment } = inputData;
+  const prompt = `Judge this ${CHANNEL_NAMES[message.channel]} message against the findings below. The searches have already been run; do not call any tools.
+
+MESSAGE:
+- From: ${message.senderName}
+- Text: "${message.text}"
+${message.isForwarded ? "- This is a FORWARDED message (higher chance of being a rumor)" : ""}
+${message.replyToText ? `- Reply to: "${message.replyToText}"` : ""}
+${attachment ? `- The attached ${attachment.mimeType === "application/pdf" ? "PDF" : "image"} came with the message` : ""}
+
+FINDINGS:
+${describeFindings(inputData)}
+
+Decide whether the claim is VERIFIED, a HOAX or UNCERTAIN. As evidence, cite only URLs, documents and circular numbers that appear in the findings; any other source is discarded.`;
+
+  logger?.info("🤖 [Truth Sentinel] Asking the agent for a verdict", {
+    promptLength: prompt.length,
+  });
+  const media = attachment && (await loadMedia(attachment.mediaId));
+
+  // Copies arriving while this one was being searched wait for one judgment
+  const { verdict, reused } = await verifyOnce(
+    inputData.cluster,
+    async () => {
+      const response = await truthSentinelAgent.generate(prompt, {
+        resourceId: AGENT_RESOURCES[message.channel],
+        threadId: message.threadId,
+        maxSteps: 1,
+        toolChoice: "none",
+        structuredOutput: {
+          schema: verdictSchema,
+          model: verdictModel,
+          errorStrategy: "warn",
+        },
+        ...(media && {
+          experimental_attachments: [
+            {
+              contentType: media.mimeType,
+              url: `data:${media.mimeType};base64,${media.data.toString("base64")}`,
+            },
+          ],
+        }),
+      });
+
+      logger?.info("✅ [Truth Sentinel] Agent processing complete", {
+        responseLength: response.text?.length,
+        label: response.object?.label,
+      });
+
+      // The text answer is still usable when structuring it failed
+      const sources = runSources(findingsAsToolResults(inputData));
+      const agentVerdict = checkCitations(
+        response.object ?? verdictFromText(response.text, message.text),
+        sources,
+        logger,
+      );
+      return hoaxIfUnconfirmedDramaticClaim(
+        agentVerdict,
+        message.text,
+        sources.official,
+        logger,
+      );
+    },
+    logger,
+  );
+
+  if (reused) {
+    logger?.info(
+      "♻️ [Truth Sentinel] Reusing verdict of a near-duplicate verified meanwhile",
+      {
+        clusterId: inputData.cluster?.id,
+      },
+    );
+  }
+  return { ...inputData, verdict };
+};
+
+const deliveryLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: PipelineState;
+  mastra?: any;
+}) => {
+  const logger = mastra?.getLogger();
+  const { message } = inputData;
+
+  if (!inputData.shouldVerify) {
+    if (!message.text && !message.media) {
+      return {
+        processed: false,
+        skipped: true,
+        skipReason: inputData.skipReason,
+      };
+    }
+    logger?.info(
+      "⏭️ [Truth Sentinel] Gatekeeper skipped the message, not replying",
+      {
+        reason: inputData.skipReason,
+      },
+    );
+    const skippedVerdict = {
+      ...verdictFromText("", message.text),
+      reasoning: inputData.skipReason ?? "",
+    };
+    return {
+      processed: true,
+      verdict: skippedVerdict,
+      skipped: true,
+      skipReason: inputData.skipReason || "Skipped by the gatekeeper",
+    };
+  }
+
+  const verdict = inputData.verdict ?? inputData.knownVerdict;
+  const adapter = adapterFor(message.channel);
+  const finalResponse = verdict ? adapter.formatVerdict(verdict) : "";
+
+  // Store the verdict with the image for later copies; a reused one only gets this file id linked
+  const imageRef = await imageRefOf(inputData);
+  if (finalResponse && imageRef) {
+    await rememberImage(
+      imageRef,
+      inputData.reusedFrom === "image"
+        ? {}
+        : { verdict, evidence: inputData.imageEvidence },
+      logger,
+    ).catch((storeError: any) => {
+      logger?.warn("⚠️ [Truth Sentinel] Could not store image verdict", {
+        error: storeError.message,
+      });
+    });
+  }
+  if (inputData.attachment) {
+    await deleteMedia(inputData.attachment.mediaId).catch(
+      (deleteError: any) => {
+        logger?.warn("⚠️ [Truth Sentinel] Could not delete stored media", {
+          error: deleteError.message,
+        });
+      },
+    );
+  }
+
+  if (!finalResponse) {
+    logger?.warn("⚠️ [Truth Sentinel] Agent returned empty response");
+    return {
+      processed: true,
+      response:
+        "I encountered an internal error while processing your request. Please try again.",
+      skipped: false,
+    };
+  }
+
+  logger?.info("📤 [Truth Sentinel] Sending response", {
+    channel: message.channel,
+  });
+  try {
+    await adapter.sendReply(message, finalResponse);
+    logger?.info("✅ [Truth Sentinel] Response sent successfully");
+  } catch (sendError: any) {
+    logger?.error("❌ [Truth Sentinel] Failed to send response", {
+      error: sendError.message,
+    });
+  }
+
+  return {
+    processed: true,
+    response: finalResponse,
+    verdict,
+    skipped: false,
+  };
+};
+
+// In pipeline order, between the gatekeeper and delivery
+const STAGES: Stage[] = [
+  {
+    id: "media-analysis",
+    description:
+      "Downloads the photo or PDF and reads the photo with image analysis, or finds the verdict of a copy",
+    when: (state) => state.shouldVerify && !!state.message.media,
+    run: mediaAnalysisLogic,
+  },
+  {
+    id: "recall-verdict",
+    description:
+      "Files the message under its claim cluster and reuses a fresh verdict of a near-duplicate",
+    when: (state) => state.shouldVerify,
+    run: recallVerdictLogic,
+  },
+  {
+    id: "youtube-check",
+    description: "Checks a linked YouTube video against the claim",
+    when: (state) =>
+      needsSearch(state) && YOUTUBE_LINK.test(state.message.text),
+    run: youtubeLogic,
+  },
+  {
+    id: "rag-search",
+    description: "Searches the official documents, on the claim's topic first",
+    when: needsSearch,
+    run: ragLogic,
+  },
+  {
+    id: "official-search",
+    description: "Searches the university and UGC websites",
+    when: needsSearch,
+    run: officialSearchLogic,
+  },
+  {
+    id: "perplexity-search",
+    description: "Asks Perplexity about the claim",
+    when: needsSearch,
+    run: perplexityLogic,
+  },
+  {
+    id: "aggregate-verdict",
+    description:
+      "Has the agent judge the claim from the findings, then checks the sources it cites",
+    when: needsVerdict,
+    run: aggregationLogic,
+    retries: 2,
+  },
+];
+
+const gatekeeperStep = createStep({
+  id: "gatekeeper",
+  description:
+    "Drops empty messages and asks the gatekeeper whether the message needs verification",
+  inputSchema: incomingMessageSchema,
+  outputSchema: pipelineSchema,
+  execute: gatekeeperLogic,
+});
+
+// The branch taken when a stage has nothing to do
+const passThroughStep = createStep({
+  id: "pass-through",
+  description: "Hands the state on unchanged",
+  inputSchema: pipelineSchema,
+  outputSchema: pipelineSchema,
+  execute: async ({ inputData }: { inputData: PipelineState }) => inputData,
+});
+
+const stageSteps = STAGES.map((stage) => ({
+  stage,
+  step: createStep({
+    id: stage.id,
+    description: stage.description,
+    inputSchema: pipelineSchema,
+    outputSchema: pipelineSchema,
+    execute: stage.run,
+    retries: stage.retries,
+  }),
+  skip: cloneStep(passThroughStep, { id: `skip-${stage.id}` }),
+}));
+
+const deliveryStep = createStep({
+  id: "deliver-verdict",
+  description:
+    "Replies to the message with the verdict and stores it with the image for later copies",
+  inputSchema: pipelineSchema,
+  outputSchema: verificationResultSchema,
+  execute: deliveryLogic,
+});
+
+// A branch outputs { [stepId]: output } for the step that ran; the next stage wants the state itself
+const branchOutput = async ({
+  inputData,
+}: {
+  inputData: Record<string, PipelineState | undefined>;
+}) => Object.values(inputData).find(Boolean) as PipelineState;
+
+type StageStep = (typeof stageSteps)[number];
+
+// The stage's step when it has something to do, its pass-through otherwise
+function stageBranch({
+  stage,
+  step,
+  skip,
+}: StageStep): Array<
+  [
+    ({ inputData }: { inputData: PipelineState }) => Promise<boolean>,
+    StageStep["step"] | StageStep["skip"],
+  ]
+> {
+  return [
+    [
+      async ({ inputData }: { inputData: PipelineState }) =>
+        stage.when(inputData),
+      step,
+    ],
+    [
+      async ({ inputData }: { inputData: PipelineState }) =>
+        !stage.when(inputData),
+      skip,
+    ],
+  ];
+}
+
+/**
+ * A channel's verification workflow: its adapter turns the trigger's payload into an
+ * IncomingMessage, and the shared stages do the rest.
+ */
+export function createVerificationWorkflow<TInbound>({
+  id,
+  adapter,
+}: {
+  id: string;
+  adapter: ChannelAdapter<TInbound>;
+}) {
+  const normalizeStep = createStep({
+    id: "normalize-message",
+    description:
+      "Turns the channel's message into the shape the verification stages share",
+    inputSchema: adapter.inboundSchema,
+    outputSchema: incomingMessageSchema,
+    execute: async ({ inputData }: { inputData: TInbound }) =>
+      adapter.parseInbound(inputData),
+  });
+  const [media, recall, youtube, rag, official, perplexity, aggregate] =
+    stageSteps;
+
+  return createWorkflow({
+    id,
+    inputSchema: adapter.inboundSchema,
+    outputSchema: verificationResultSchema,
+  })
+    .then(normalizeStep)
+    .then(gatekeeperStep)
+    .branch(stageBranch(media))
+    .map(branchOutput)
+    .branch(stageBranch(recall))
+    .map(branchOutput)
+    .branch(stageBranch(youtube))
+    .map(branchOutput)
+    .branch(stageBranch(rag))
+    .map(branchOutput)
+    .branch(stageBranch(official))
+    .map(branchOutput)
+    .branch(stageBranch(perplexity))
+    .map(branchOutput)
+    .branch(stageBranch(aggregate))
+    .map(branchOutput)
+    .then(deliveryStep)
+    .commit();
+}
+
+// The same stages as the workflow, one after another in this process
+async function runStagesInProcess(
+  message: IncomingMessage,
+  mastra?: any,
+): Promise<VerificationResult> {
+  const logger = mastra?.getLogger();
+  let state: PipelineState = await gatekeeperLogic({
+    inputData: message,
+    mastra,
+  });
+  for (const stage of STAGES) {
+    if (!stage.when(state)) continue;
+    logger?.info(`▶️ [Truth Sentinel] Stage ${stage.id}`);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        state = await stage.run({ inputData: state, mastra });
+        break;
+      } catch (stageError: any) {
+        if (attempt >= (stage.retries ?? 0)) throw stageError;
+        logger?.warn(`⚠️ [Truth Sentinel] Stage ${stage.id} failed, retrying`, {
+          error: stageError.message,
+        });
+      }
+    }
+  }
+  return deliveryLogic({ inputData: state, mastra });
+}
+
+async function runStagesOnWorkflow<TInbound>(
+  workflow: ReturnType<typeof createVerificationWorkflow<TInbound>>,
+  inbound: TInbound,
+): Promise<VerificationResult> {
+  const run = await workflow.createRunAsync();
+  const result = await run.start({ inputData: inbound });
+  // A failed step's error may come back as its stack trace, as text
+  if (result.status === "failed") {
+    throw result.error instanceof Error
+      ? result.error
+      : new Error(
+          String(result.error)
+            .split("\n")[0]
+            .replace(/^Error: /, ""),
+        );
+  }
+  if (result.status !== "success")
+    throw new Error(`Verification run ${result.status}`);
+  return result.result;
+}
+
+/**
+ * Verifies one message and waits for the result; the chat triggers call this. The stages run
+ * in-process unless VERIFICATION_RUNNER=workflow, in which case `workflow` runs them. When
+ * verification fails the sender gets an apology rather than silence.
+ */
+export async function runVerification<TInbound>(
+  workflow: ReturnType<typeof createVerificationWorkflow<TInbound>>,
+  adapter: ChannelAdapter<TInbound>,
+  inbound: TInbound,
+  mastra?: any,
+): Promise<VerificationResult> {
+  const logger = mastra?.getLogger();
+  try {
+    return RUN_ON_WORKFLOW
+      ? await runStagesOnWorkflow(workflow, inbound)
+      : await runStagesInProcess(adapter.parseInbound(inbound), mastra);
+  } catch (error: any) {
+    logger?.error("❌ [Truth Sentinel] Error in verification", {
+      channel: adapter.channel,
+      error: error.message,
+    });
+
+    // FALLBACK: Try to send a generic error message to the user so they aren't left hanging
+    try {
+      await adapter.sendError(adapter.parseInbound(inbound));
+      logger?.info("✅ [Truth Sentinel] Fallback error message sent");
+    } catch (fallbackError: any) {
+      logger?.error(
+        "❌ [Truth Sentinel] Failed to send fallback error message",
+        { error: fallbackError.message },
+      );
+    }
+
+    return {
+      processed: false,
+      skipped: false,
+      skipReason: `Error processing message: ${error.message}`,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { discordAdapter } from "../channels";
+import {
+  createVerificationWorkflow,
+  runVerification,
+} from "../verification/pipeline";
+
+/**
+ * Verification of a Discord message through the shared pipeline (see verification/pipeline), with
+ * the Discord adapter turning the trigger's message into an IncomingMessage.
+ */
+
+export const discordVerificationWorkflow = createVerificationWorkflow({
+  id: "discord-verification-workflow",
+  adapter: discordAdapter,
+});
+
+// Verifies a message and waits for the result; used by the Discord trigger
+export const verifyDiscordMessageLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: any;
+  mastra?: any;
+}) =>
+  runVerification(
+    discordVerificationWorkflow,
+    discordAdapter,
+    inputData,
+    mastra,
+  );
@@ -0,0 +1,25 @@
+import { emailAdapter } from "../channels";
+import {
+  createVerificationWorkflow,
+  runVerification,
+} from "../verification/pipeline";
+
+/**
+ * Verification of an emailed message through the shared pipeline (see verification/pipeline),
+ * with the email adapter turning the parsed email into an IncomingMessage.
+ */
+
+export const emailVerificationWorkflow = createVerificationWorkflow({
+  id: "email-verification-workflow",
+  adapter: emailAdapter,
+});
+
+// Verifies a message and waits for the result; used by the email trigger
+export const verifyEmailMessageLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: any;
+  mastra?: any;
+}) =>
+  runVerification(emailVerificationWorkflow, emailAdapter, inputData, mastra);
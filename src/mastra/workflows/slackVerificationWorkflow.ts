@@ -0,0 +1,25 @@
+import { slackAdapter } from "../channels";
+import {
+  createVerificationWorkflow,
+  runVerification,
+} from "../verification/pipeline";
+
+/**
+ * Verification of a Slack message through the shared pipeline (see verification/pipeline), with
+ * the Slack adapter turning the trigger's message into an IncomingMessage.
+ */
+
+export const slackVerificationWorkflow = createVerificationWorkflow({
+  id: "slack-verification-workflow",
+  adapter: slackAdapter,
+});
+
+// Verifies a message and waits for the result; used by the Slack trigger
+export const verifySlackMessageLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: any;
+  mastra?: any;
+}) =>
+  runVerification(slackVerificationWorkflow, slackAdapter, inputData, mastra);
@@ -0,0 +1,222 @@
+import * as path from "path";
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import {
+  downloadTelegramFile,
+  telegramAdapter,
+} from "../channels/telegramAdapter";
+import {
+  storeDocument,
+  type DocumentChangeResult,
+} from "../rag/documentLibrary";
+import { getDocumentChunks } from "../rag/knowledgeBase";
+import { imageAnalysisTool } from "../tools/imageAnalysisTool";
+
+// data/ sub-folder for documents sent without a #collection tag in the caption
+const DEFAULT_COLLECTION = "notices";
+
+/**
+ * Admins are listed by numeric Telegram user ID in TELEGRAM_ADMIN_USER_IDS (comma-separated).
+ * Usernames are not used because users can change them.
+ */
+export function isTelegramAdmin(userId?: number): boolean {
+  if (userId === undefined) return false;
+  const adminIds = (process.env.TELEGRAM_ADMIN_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return adminIds.includes(String(userId));
+}
+
+/**
+ * "#notices/2025 Exam timetable" -> collection "notices/2025", title "Exam timetable"
+ */
+function parseCaption(caption: string): { collection: string; title: string } {
+  const tag = caption.match(/#([\w\-/]+)/);
+  return {
+    collection: tag ? tag[1] : DEFAULT_COLLECTION,
+    title: caption
+      .replace(/#[\w\-/]+/g, "")
+      .replace(/\s+/g, " ")
+      .trim(),
+  };
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+}
+
+function formatConfirmation(
+  result: DocumentChangeResult,
+  notes: string[],
+): string {
+  if (!result.success) {
+    const hint =
+      result.status === 409 && result.existingSource
+        ? "\nUse the admin upload API to replace it."
+        : "";
+    return `❌ Could not add this document: ${result.error}${hint}`;
+  }
+
+  const heading = {
+    added: "📥 Added to the knowledge base",
+    updated: "🔄 Knowledge base document updated",
+    unchanged: "ℹ️ This document is already up to date",
+    removed: "🗑️ Document removed",
+    failed: "❌ Indexing failed",
+  }[result.status];
+
+  const chunks = getDocumentChunks(result.source);
+  const notices = [
+    ...new Map(
+      chunks
+        .filter((c) => c.metadata.title)
+        .map((c) => [c.metadata.title, c.metadata]),
+    ).values(),
+  ];
+  const lines = [heading];
+
+  if (notices.length > 1) {
+    lines.push(
+      `📄 ${notices.length} notices: ${notices.map((n) => n.title).join("; ")}`,
+    );
+  } else {
+    const metadata = notices[0] ?? chunks[0]?.metadata ?? {};
+    if (metadata.title) lines.push(`📄 Title: ${metadata.title}`);
+    if (metadata.issueDate) lines.push(`📅 Issued: ${metadata.issueDate}`);
+    if (metadata.validFrom || metadata.validUntil) {
+      lines.push(
+        `⏳ In force: ${metadata.validFrom ?? "?"} to ${metadata.validUntil ?? "?"}`,
+      );
+    }
+    if (metadata.issuer) lines.push(`🏢 Issued by: ${metadata.issuer}`);
+    if (metadata.circularNumber)
+      lines.push(`🔢 Circular no.: ${metadata.circularNumber}`);
+  }
+
+  lines.push(`🧩 Chunks indexed: ${result.chunkCount}`);
+  lines.push(`📁 ${result.source}`);
+  if (result.warning) lines.push(`⚠️ ${result.warning}`);
+  lines.push(...notes.map((note) => `⚠️ ${note}`));
+  return lines.join("\n");
+}
+
+/**
+ * Stores a PDF, document or image sent by an admin in a private chat into the knowledge base
+ * instead of fact-checking it. Images are transcribed with Gemini Vision and stored as text.
+ * Replies with what was extracted so the admin can spot a wrong date or title straight away.
+ */
+export const ingestTelegramDocumentLogic = async ({
+  inputData,
+  mastra,
+}: {
+  inputData: any;
+  mastra?: any;
+}) => {
+  const logger = mastra?.getLogger();
+  logger?.info("📥 [Telegram Admin] Ingesting document from admin", {
+    chatId: inputData.chatId,
+    userId: inputData.userId,
+    hasPhoto: inputData.hasPhoto,
+    hasDocument: inputData.hasDocument,
+    documentFileName: inputData.documentFileName,
+  });
+
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+  if (!botToken) {
+    logger?.error("❌ [Telegram Admin] TELEGRAM_BOT_TOKEN not configured");
+    return {
+      processed: false,
+      skipped: false,
+      skipReason: "Telegram bot token not configured",
+    };
+  }
+
+  const { collection, title } = parseCaption(inputData.caption || "");
+  const imageFileId = inputData.hasPhoto
+    ? inputData.photoFileId
+    : inputData.documentMimeType?.startsWith("image/")
+      ? inputData.documentFileId
+      : undefined;
+  const notes: string[] = [];
+  let result: DocumentChangeResult;
+
+  try {
+    if (imageFileId) {
+      // Photos carry no text layer, so store Gemini's transcription of the notice instead
+      const analysis = await imageAnalysisTool.execute!({
+        context: { fileId: imageFileId, caption: title || undefined },
+        mastra,
+        runtimeContext: new RuntimeContext(),
+      });
+
+      if (!analysis.success || !analysis.extractedText.trim()) {
+        result = {
+          success: false,
+          status: 422,
+          error: analysis.error || "No text could be read from the image",
+        };
+      } else {
+        if (!analysis.containsOfficial) {
+          notes.push(
+            "This image doesn't look like an official document; double-check it before relying on it.",
+          );
+        }
+        const fileName = `${slugify(title) || `telegram-${inputData.chatId}-${inputData.messageId}`}.txt`;
+        result = await storeDocument(
+          {
+            fileName,
+            collection,
+            bytes: Buffer.from(analysis.extractedText.trim() + "\n", "utf-8"),
+          },
+          logger,
+        );
+      }
+    } else if (inputData.documentFileId) {
+      const { bytes, filePath } = await downloadTelegramFile(
+        inputData.documentFileId,
+        botToken,
+      );
+      const fileName = inputData.documentFileName || path.basename(filePath);
+      result = await storeDocument({ fileName, collection, bytes }, logger);
+    } else {
+      result = {
+        success: false,
+        status: 400,
+        error: "Send a PDF, document or photo to add it to the knowledge base",
+      };
+    }
+  } catch (error: any) {
+    logger?.error("❌ [Telegram Admin] Ingestion failed", {
+      error: error.message,
+    });
+    result = { success: false, status: 500, error: error.message };
+  }
+
+  const reply = formatConfirmation(result, notes);
+  logger?.info("✅ [Telegram Admin] Ingestion finished", {
+    success: result.success,
+    reply,
+  });
+
+  try {
+    // Plain text: file names and titles are full of characters Markdown would try to interpret
+    await telegramAdapter.sendReply(
+      {
+        chatId: String(inputData.chatId),
+        messageId: String(inputData.messageId),
+      },
+      reply,
+      { markdown: false },
+    );
+  } catch (sendError: any) {
+    logger?.error("❌ [Telegram Admin] Failed to send confirmation", {
+      error: sendError.message,
+    });
+  }
+
+  return { processed: result.success, response: reply, skipped: false };
+};
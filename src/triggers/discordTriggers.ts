@@ -0,0 +1,241 @@
+import * as crypto from "crypto";
+
+import { registerApiRoute } from "../mastra/inngest";
+import { Mastra } from "@mastra/core";
+
+if (!process.env.DISCORD_PUBLIC_KEY || !process.env.DISCORD_APPLICATION_ID) {
+  console.warn(
+    "Trying to initialize Discord triggers without DISCORD_PUBLIC_KEY and DISCORD_APPLICATION_ID. Can you confirm that the Discord integration is configured correctly?",
+  );
+}
+
+// https://discord.com/developers/docs/interactions/receiving-and-responding
+const INTERACTION_PING = 1;
+const INTERACTION_APPLICATION_COMMAND = 2;
+const COMMAND_CHAT_INPUT = 1;
+const COMMAND_MESSAGE = 3;
+const RESPONSE_PONG = 1;
+const RESPONSE_CHANNEL_MESSAGE = 4;
+const RESPONSE_DEFERRED_CHANNEL_MESSAGE = 5;
+const FLAG_EPHEMERAL = 64;
+
+// Ed25519 public keys in SPKI form are this prefix followed by the 32 raw key bytes
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+export type DiscordAttachment = {
+  id: string;
+  url: string;
+  filename: string;
+  contentType?: string;
+};
+
+export type TriggerInfoDiscordOnNewMessage = {
+  type: "discord/interaction";
+  params: {
+    interactionToken: string;
+    guildId?: string;
+    channelId: string;
+    // The message picked with the "Verify" command, or the interaction itself for /verify
+    messageId: string;
+    userId: string;
+    userName: string;
+    content: string;
+    isForwarded: boolean;
+    attachments?: DiscordAttachment[];
+  };
+  payload: any;
+};
+
+/**
+ * Checks the Ed25519 signature Discord puts on every interaction request. Discord sends invalid
+ * signatures on purpose now and then, and disables the endpoint if they are accepted.
+ */
+export function verifyDiscordSignature(
+  publicKeyHex: string,
+  signatureHex: string,
+  timestamp: string,
+  body: string,
+): boolean {
+  try {
+    const publicKey = crypto.createPublicKey({
+      key: Buffer.concat([
+        ED25519_SPKI_PREFIX,
+        Buffer.from(publicKeyHex, "hex"),
+      ]),
+      format: "der",
+      type: "spki",
+    });
+    return crypto.verify(
+      null,
+      Buffer.from(timestamp + body),
+      publicKey,
+      Buffer.from(signatureHex, "hex"),
+    );
+  } catch {
+    return false;
+  }
+}
+
+function toAttachment(attachment: any): DiscordAttachment {
+  return {
+    id: attachment.id,
+    url: attachment.url,
+    filename: attachment.filename,
+    contentType: attachment.content_type,
+  };
+}
+
+// What to verify from a command: the picked message with whatever it forwards, or /verify's claim and image
+function commandParams(
+  interaction: any,
+): TriggerInfoDiscordOnNewMessage["params"] | undefined {
+  const data = interaction.data;
+  const invoker = interaction.member?.user ?? interaction.user;
+  const common = {
+    interactionToken: interaction.token,
+    guildId: interaction.guild_id,
+    channelId: interaction.channel_id ?? interaction.channel?.id,
+  };
+
+  if (data?.type === COMMAND_MESSAGE) {
+    const target = data.resolved?.messages?.[data.target_id];
+    if (!target) return undefined;
+    // Forwarded messages carry their content in snapshots, not in the message itself
+    const forwarded = (target.message_snapshots ?? [])
+      .map((snapshot: any) => snapshot.message)
+      .filter(Boolean);
+    const attachments = [target, ...forwarded].flatMap(
+      (message: any) => message.attachments ?? [],
+    );
+    return {
+      ...common,
+      messageId: target.id,
+      userId: target.author?.id ?? invoker?.id,
+      userName: target.author?.username ?? invoker?.username ?? "unknown",
+      content: [
+        target.content,
+        ...forwarded.map((message: any) => message.content),
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      isForwarded: forwarded.length > 0,
+      attachments:
+        attachments.length > 0 ? attachments.map(toAttachment) : undefined,
+    };
+  }
+
+  if (data?.type === COMMAND_CHAT_INPUT) {
+    const option = (name: string) =>
+      data.options?.find((candidate: any) => candidate.name === name)?.value;
+    const image = data.resolved?.attachments?.[option("image")];
+    return {
+      ...common,
+      messageId: interaction.id,
+      userId: invoker?.id,
+      userName: invoker?.username ?? "unknown",
+      content: option("claim") ?? "",
+      isForwarded: false,
+      attachments: image ? [toAttachment(image)] : undefined,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Discord interactions endpoint: a "Verify" message command (right-click > Apps) or a
+ * `/verify claim:<text> image:<attachment>` slash command. Discord wants an answer within three
+ * seconds, so the interaction is deferred and the handler replies through it when done.
+ */
+export function registerDiscordTrigger({
+  triggerType,
+  handler,
+}: {
+  triggerType: string;
+  handler: (
+    mastra: Mastra,
+    triggerInfo: TriggerInfoDiscordOnNewMessage,
+  ) => Promise<void>;
+}) {
+  return [
+    registerApiRoute("/webhooks/discord/interactions", {
+      method: "POST",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra.getLogger();
+        try {
+          const body = await c.req.text();
+          const publicKey = process.env.DISCORD_PUBLIC_KEY;
+          const signature = c.req.header("X-Signature-Ed25519");
+          const timestamp = c.req.header("X-Signature-Timestamp");
+
+          if (
+            !publicKey ||
+            !signature ||
+            !timestamp ||
+            !verifyDiscordSignature(publicKey, signature, timestamp, body)
+          ) {
+            logger?.warn(
+              "🚫 [Discord] Rejected interaction with an invalid signature",
+              {
+                configured: !!publicKey,
+              },
+            );
+            return c.text("invalid request signature", 401);
+          }
+
+          const interaction = JSON.parse(body);
+
+          if (interaction.type === INTERACTION_PING) {
+            return c.json({ type: RESPONSE_PONG });
+          }
+          if (interaction.type !== INTERACTION_APPLICATION_COMMAND) {
+            logger?.info("📝 [Discord] Ignoring interaction", {
+              type: interaction.type,
+            });
+            return c.json({ error: "Unsupported interaction type" }, 400);
+          }
+
+          const params = commandParams(interaction);
+
+          if (!params || (!params.content && !params.attachments)) {
+            return c.json({
+              type: RESPONSE_CHANNEL_MESSAGE,
+              data: {
+                content: "Nothing to verify in this message.",
+                flags: FLAG_EPHEMERAL,
+              },
+            });
+          }
+
+          const triggerInfo: TriggerInfoDiscordOnNewMessage = {
+            type: triggerType as "discord/interaction",
+            params,
+            payload: interaction,
+          };
+
+          logger?.info("🎯 [Discord Trigger] Processing message", {
+            command: interaction.data?.name,
+            channelId: params.channelId,
+            userName: params.userName,
+            hasAttachments: !!params.attachments,
+            isForwarded: params.isForwarded,
+          });
+
+          // Not awaited: the reply goes through the interaction once verification is done
+          handler(mastra, triggerInfo).catch((handlerError: any) => {
+            logger?.error("❌ [Discord Trigger] Error in workflow handler", {
+              error: handlerError.message,
+              stack: handlerError.stack,
+            });
+          });
+
+          return c.json({ type: RESPONSE_DEFERRED_CHANNEL_MESSAGE });
+        } catch (error) {
+          logger?.error("Error handling Discord webhook:", { error });
+          return c.text("Internal Server Error", 500);
+        }
+      },
+    }),
+  ];
+}
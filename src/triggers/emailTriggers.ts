@@ -0,0 +1,206 @@
+import * as crypto from "crypto";
+
+import { registerApiRoute } from "../mastra/inngest";
+import { Mastra } from "@mastra/core";
+import { parseEmail, type ParsedEmail } from "../mastra/channels/email/mime";
+
+if (!process.env.EMAIL_WEBHOOK_TOKEN || !process.env.SMTP_HOST) {
+  console.warn(
+    "Trying to initialize email triggers without EMAIL_WEBHOOK_TOKEN and SMTP_HOST. Can you confirm that the email integration is configured correctly?",
+  );
+}
+
+// Mail servers commonly cap messages at 25 MB; base64 makes that a little more on the wire
+const MAX_EMAIL_BYTES = 35 * 1024 * 1024;
+
+export type EmailAttachment = {
+  filename: string;
+  mimeType: string;
+  // Base64 content
+  data: string;
+};
+
+export type TriggerInfoEmailOnNewMessage = {
+  type: "email/message";
+  params: {
+    from: string;
+    fromName?: string;
+    replyTo?: string;
+    subject: string;
+    messageId?: string;
+    // The body text, followed by that of emails forwarded as attachments
+    text: string;
+    isForwarded: boolean;
+    attachments?: EmailAttachment[];
+  };
+  payload: ParsedEmail;
+};
+
+// Forwarded inline ("---------- Forwarded message ---------", "Begin forwarded message:") or as a subject prefix
+const FORWARD_MARKERS =
+  /^(fwd?|wg|tr)\s*:|-{2,}\s*(forwarded|original) message\s*-{2,}|^begin forwarded message:/im;
+
+// Out-of-office replies, bounces and mailing lists would otherwise get a verdict back, and reply again
+function isAutomated(email: ParsedEmail): boolean {
+  const autoSubmitted = email.headers["auto-submitted"]?.toLowerCase();
+  const precedence = email.headers["precedence"]?.toLowerCase();
+  const ownAddress =
+    process.env.EMAIL_FROM?.match(/<([^>]+)>/)?.[1] ?? process.env.EMAIL_FROM;
+  return (
+    (!!autoSubmitted && autoSubmitted !== "no") ||
+    precedence === "bulk" ||
+    precedence === "junk" ||
+    precedence === "list" ||
+    !!email.headers["list-id"] ||
+    /^(mailer-daemon|postmaster|no-?reply)@/i.test(email.from?.address ?? "") ||
+    (!!ownAddress && email.from?.address === ownAddress.toLowerCase())
+  );
+}
+
+function hasValidToken(
+  expected: string,
+  authorization: string | undefined,
+): boolean {
+  const provided = Buffer.from(authorization?.replace(/^Bearer\s+/i, "") ?? "");
+  const token = Buffer.from(expected);
+  return (
+    provided.length === token.length && crypto.timingSafeEqual(provided, token)
+  );
+}
+
+// What to verify: the email's own text and files, plus those of every email it carries as an attachment
+function emailParams(
+  email: ParsedEmail,
+): TriggerInfoEmailOnNewMessage["params"] | undefined {
+  if (!email.from) return undefined;
+  const attached = email.attachedMessages;
+  const attachments = [email, ...attached].flatMap(
+    (message) => message.attachments,
+  );
+
+  return {
+    from: email.from.address,
+    fromName: email.from.name,
+    replyTo: email.replyTo?.address,
+    subject: email.subject,
+    messageId: email.messageId,
+    text: [
+      email.text,
+      ...attached.map((message) =>
+        [message.subject && `Subject: ${message.subject}`, message.text]
+          .filter(Boolean)
+          .join("\n"),
+      ),
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    isForwarded:
+      attached.length > 0 ||
+      FORWARD_MARKERS.test(`${email.subject}\n${email.text}`),
+    attachments:
+      attachments.length > 0
+        ? attachments.map((attachment) => ({
+            filename: attachment.filename,
+            mimeType: attachment.mimeType,
+            data: attachment.data.toString("base64"),
+          }))
+        : undefined,
+  };
+}
+
+/**
+ * Inbound email endpoint for an SMTP-to-HTTP bridge, which posts each received email as the raw
+ * MIME message in the request body. The bridge must send EMAIL_WEBHOOK_TOKEN as a Bearer token;
+ * without one configured the endpoint answers 503. The bridge gets its answer straight away; the
+ * verdict goes back by email.
+ */
+export function registerEmailTrigger({
+  triggerType,
+  handler,
+}: {
+  triggerType: string;
+  handler: (
+    mastra: Mastra,
+    triggerInfo: TriggerInfoEmailOnNewMessage,
+  ) => Promise<void>;
+}) {
+  return [
+    registerApiRoute("/webhooks/email/inbound", {
+      method: "POST",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra.getLogger();
+        try {
+          // Every accepted email makes the server send one, so the endpoint stays shut until it has a token
+          const expected = process.env.EMAIL_WEBHOOK_TOKEN;
+          if (!expected) {
+            logger?.warn(
+              "🚫 [Email] Rejected inbound email: EMAIL_WEBHOOK_TOKEN is not set",
+            );
+            return c.text(
+              "Email webhook is disabled (EMAIL_WEBHOOK_TOKEN is not set)",
+              503,
+            );
+          }
+          if (!hasValidToken(expected, c.req.header("Authorization"))) {
+            logger?.warn(
+              "🚫 [Email] Rejected inbound email with an invalid token",
+            );
+            return c.text("Unauthorized", 401);
+          }
+
+          const raw = Buffer.from(await c.req.arrayBuffer());
+          if (raw.length > MAX_EMAIL_BYTES) {
+            return c.text("Email too large", 413);
+          }
+
+          const email = parseEmail(raw);
+
+          if (isAutomated(email)) {
+            logger?.info("📝 [Email] Ignoring automated email", {
+              from: email.from?.address,
+              subject: email.subject,
+            });
+            return c.text("OK", 200);
+          }
+
+          const params = emailParams(email);
+
+          if (!params || (!params.text && !params.attachments)) {
+            logger?.info(
+              "📝 [Email] No sender or nothing to verify, skipping",
+              { subject: email.subject },
+            );
+            return c.text("OK", 200);
+          }
+
+          const triggerInfo: TriggerInfoEmailOnNewMessage = {
+            type: triggerType as "email/message",
+            params,
+            payload: email,
+          };
+
+          logger?.info("🎯 [Email Trigger] Processing message", {
+            from: params.from,
+            subject: params.subject,
+            attachments: params.attachments?.length ?? 0,
+            isForwarded: params.isForwarded,
+          });
+
+          // Not awaited: verification outlasts the bridge's timeout, and a retried delivery would be checked twice
+          handler(mastra, triggerInfo).catch((handlerError: any) => {
+            logger?.error("❌ [Email Trigger] Error in workflow handler", {
+              error: handlerError.message,
+              stack: handlerError.stack,
+            });
+          });
+
+          return c.text("Accepted", 202);
+        } catch (error) {
+          logger?.error("Error handling email webhook:", { error });
+          return c.text("Internal Server Error", 500);
+        }
+      },
+    }),
+  ];
+}
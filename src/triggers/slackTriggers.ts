@@ -1,6 +1,7 @@
 import { format, promisify } from "node:util";
 import { execFile } from "node:child_process";
-import { Mastra, type WorkflowResult, type Step } from "@mastra/core";
+import * as crypto from "node:crypto";
+import { Mastra } from "@mastra/core";
 import { IMastraLogger } from "@mastra/core/logger";
 import {
   type AuthTestResponse,
@@ -14,10 +15,18 @@ import {
 } from "@slack/web-api";
 import type { Context, Handler, MiddlewareHandler } from "hono";
 import { streamSSE } from "hono/streaming";
-import type { z } from "zod";
 
 import { registerApiRoute } from "../mastra/inngest";
 
+if (!process.env.SLACK_SIGNING_SECRET) {
+  console.warn(
+    "Trying to initialize Slack triggers without SLACK_SIGNING_SECRET. Can you confirm that the Slack integration is configured correctly?",
+  );
+}
+
+// Slack signs each request with its timestamp; older requests are refused so they can't be replayed
+const SLACK_SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+
 export type Methods = "GET" | "POST" | "PUT" | "DELETE" | "PATCH" | "ALL";
 
 // TODO: Remove when Mastra exports this type.
@@ -44,6 +53,20 @@ export type TriggerInfoSlackOnNewMessage = {
   payload: any;
 };
 
+// What the handler did with a message, for the reaction left on it; null when it was ignored
+export type SlackHandlerResult = {
+  processed: boolean;
+  skipped: boolean;
+  verdict?: { label: string };
+} | null;
+
+// The reaction left on a message once it is verified; failures get "alarm_clock"
+const VERDICT_REACTIONS: Record<string, string> = {
+  VERIFIED: "white_check_mark",
+  HOAX: "x",
+  UNCERTAIN: "hourglass",
+};
+
 type DiagnosisStep =
   | {
       status: "pending";
@@ -122,6 +145,39 @@ export async function getClient() {
   return { slack, auth: response, user };
 }
 
+/**
+ * Checks the HMAC-SHA256 signature Slack puts on every request: "v0=" and the hex digest of
+ * "v0:{timestamp}:{body}" keyed with the app's signing secret.
+ * https://api.slack.com/authentication/verifying-requests-from-slack
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  signature: string,
+  timestamp: string,
+  body: string,
+  now = Date.now(),
+): boolean {
+  const sentAt = Number(timestamp);
+  if (
+    !Number.isFinite(sentAt) ||
+    Math.abs(now / 1000 - sentAt) > SLACK_SIGNATURE_MAX_AGE_SECONDS
+  ) {
+    return false;
+  }
+  const expected = Buffer.from(
+    "v0=" +
+      crypto
+        .createHmac("sha256", signingSecret)
+        .update(`v0:${timestamp}:${body}`)
+        .digest("hex"),
+  );
+  const provided = Buffer.from(signature);
+  return (
+    provided.length === expected.length &&
+    crypto.timingSafeEqual(provided, expected)
+  );
+}
+
 // Keep up to 200 recent events, to prevent duplicates
 const recentEvents: string[] = [];
 
@@ -142,12 +198,13 @@ function checkDuplicateEvent(eventName: string) {
   return false;
 }
 
-function createReactToMessage<
-  TState extends z.ZodObject<any>,
-  TInput extends z.ZodType<any>,
-  TOutput extends z.ZodType<any>,
-  TSteps extends Step<string, any, any>[],
->({ slack, logger }: { slack: WebClient; logger: IMastraLogger }) {
+function createReactToMessage({
+  slack,
+  logger,
+}: {
+  slack: WebClient;
+  logger: IMastraLogger;
+}) {
   const addReaction = async (
     channel: string,
     timestamp: string,
@@ -203,29 +260,30 @@ function createReactToMessage<
     }
   };
 
-  return async function reactToMessage(
-    channel: string,
-    timestamp: string,
-    result: WorkflowResult<TState, TInput, TOutput, TSteps> | null,
-  ) {
-    // Remove all of our reactions.
-    await removeAllReactions(channel, timestamp);
-    if (result?.status === "success") {
-      await addReaction(channel, timestamp, "white_check_mark");
-    } else if (result?.status === "failed") {
-      await addReaction(channel, timestamp, "x");
-    } else if (result !== null) {
-      await addReaction(channel, timestamp, "alarm_clock");
-    }
+  return {
+    // Shown while the message is being verified
+    markPending: (channel: string, timestamp: string) =>
+      addReaction(channel, timestamp, "hourglass_flowing_sand"),
+
+    async reactToMessage(
+      channel: string,
+      timestamp: string,
+      result: SlackHandlerResult,
+    ) {
+      // Remove all of our reactions.
+      await removeAllReactions(channel, timestamp);
+      if (result === null || result.skipped) return;
+      const reaction =
+        result.processed && result.verdict
+          ? VERDICT_REACTIONS[result.verdict.label]
+          : "alarm_clock";
+      if (reaction) await addReaction(channel, timestamp, reaction);
+    },
   };
 }
 
 export function registerSlackTrigger<
   Env extends { Variables: { mastra: Mastra } },
-  TState extends z.ZodObject<any>,
-  TInput extends z.ZodType<any>,
-  TOutput extends z.ZodType<any>,
-  TSteps extends Step<string, any, any>[],
 >({
   triggerType,
   handler,
@@ -234,7 +292,7 @@ export function registerSlackTrigger<
   handler: (
     mastra: Mastra,
     triggerInfo: TriggerInfoSlackOnNewMessage,
-  ) => Promise<WorkflowResult<TState, TInput, TOutput, TSteps> | null>;
+  ) => Promise<SlackHandlerResult>;
 }): Array<ApiRoute> {
   return [
     registerApiRoute("/webhooks/slack/action", {
@@ -242,20 +300,17 @@ export function registerSlackTrigger<
       handler: async (c) => {
         const mastra = c.get("mastra");
         const logger = mastra.getLogger();
-        try {
-          const payload = await c.req.json();
-          const { slack, auth } = await getClient();
-          const reactToMessage = createReactToMessage({ slack, logger });
-
-          // Handle challenge
-          if (payload && payload["challenge"]) {
-            return c.text(payload["challenge"], 200);
-          }
 
-          logger?.info("📝 [Slack] payload", { payload });
+        // Everything past the ack: verification takes far longer than the three seconds Slack waits
+        const processEvent = async (payload: any) => {
+          const { slack, auth } = await getClient();
+          const { markPending, reactToMessage } = createReactToMessage({
+            slack,
+            logger,
+          });
 
           // Augment event with channel info
-          if (payload && payload.event && payload.event.channel) {
+          if (payload.event.channel) {
             try {
               const result = await slack.conversations.info({
                 channel: payload.event.channel,
@@ -270,18 +325,10 @@ export function registerSlackTrigger<
             }
           }
 
-          // Check subtype
           if (
-            payload.event?.subtype === "message_changed" ||
-            payload.event?.subtype === "message_deleted"
-          ) {
-            return c.text("OK", 200);
-          }
-
-          if (
-            (payload.event?.channel_type === "im" &&
-              payload.event?.text === "test:ping") ||
-            payload.event?.text === `<@${auth.user_id}> test:ping`
+            (payload.event.channel_type === "im" &&
+              payload.event.text === "test:ping") ||
+            payload.event.text === `<@${auth.user_id}> test:ping`
           ) {
             // This is a test message to the bot saying just "test:ping", or a mention that contains "test:ping".
             // We'll reply in the same thread.
@@ -291,27 +338,83 @@ export function registerSlackTrigger<
               thread_ts: payload.event.ts,
             });
             logger?.info("📝 [Slack] pong");
-            return c.text("OK", 200);
+            return;
           }
 
-          if (payload.event?.bot_id) {
-            return c.text("OK", 200);
+          if (payload.event.bot_id) {
+            return;
           }
 
-          if (checkDuplicateEvent(payload.event_id)) {
-            return c.text("OK", 200);
-          }
+          await markPending(payload.event.channel, payload.event.ts);
 
           const result = await handler(mastra, {
             type: triggerType,
             params: {
               channel: payload.event.channel,
-              channelDisplayName: payload.channel.name,
+              channelDisplayName: payload.channel?.name,
             },
             payload,
           } as TriggerInfoSlackOnNewMessage);
 
           await reactToMessage(payload.event.channel, payload.event.ts, result);
+        };
+
+        try {
+          const body = await c.req.text();
+          const signingSecret = process.env.SLACK_SIGNING_SECRET;
+          const signature = c.req.header("X-Slack-Signature");
+          const timestamp = c.req.header("X-Slack-Request-Timestamp");
+
+          if (
+            !signingSecret ||
+            !signature ||
+            !timestamp ||
+            !verifySlackSignature(signingSecret, signature, timestamp, body)
+          ) {
+            logger?.warn(
+              "🚫 [Slack] Rejected request with an invalid signature",
+              { configured: !!signingSecret },
+            );
+            return c.text("invalid request signature", 401);
+          }
+
+          const payload = JSON.parse(body);
+
+          // Handle challenge
+          if (payload && payload["challenge"]) {
+            return c.text(payload["challenge"], 200);
+          }
+
+          // A retry means an earlier delivery was slow to be acked; that one is already being handled
+          if (c.req.header("X-Slack-Retry-Num")) {
+            logger?.info("📝 [Slack] Ignoring retried delivery", {
+              retryNum: c.req.header("X-Slack-Retry-Num"),
+              retryReason: c.req.header("X-Slack-Retry-Reason"),
+            });
+            return c.text("OK", 200);
+          }
+
+          logger?.info("📝 [Slack] payload", { payload });
+
+          // Check subtype
+          if (
+            !payload.event ||
+            payload.event.subtype === "message_changed" ||
+            payload.event.subtype === "message_deleted"
+          ) {
+            return c.text("OK", 200);
+          }
+
+          if (checkDuplicateEvent(payload.event_id)) {
+            return c.text("OK", 200);
+          }
+
+          // Not awaited: Slack is acked straight away and the verdict lands as a thread reply
+          processEvent(payload).catch((error) => {
+            logger?.error("❌ [Slack] Error in workflow handler", {
+              error: format(error),
+            });
+          });
 
           return c.text("OK", 200);
         } catch (error) {
@@ -29,7 +29,10 @@ export type TriggerInfoTelegramOnNewMessage = {
   type: "telegram/message";
   params: {
     chatId: number;
+    // "private", "group", "supergroup" or "channel"
+    chatType?: string;
     messageId: number;
+    userId?: number;
     userName: string;
     firstName: string;
     message: string;
@@ -65,7 +68,8 @@ export function registerTelegramTrigger({
 
           logger?.info("📝 [Telegram] Incoming payload", { payload });
 
-          const message = payload.message || payload.edited_message || payload.channel_post;
+          const message =
+            payload.message || payload.edited_message || payload.channel_post;
 
           if (!message) {
             logger?.info("📝 [Telegram] No message found in payload, skipping");
@@ -83,7 +87,9 @@ export function registerTelegramTrigger({
             type: triggerType as "telegram/message",
             params: {
               chatId: message.chat?.id,
+              chatType: message.chat?.type,
               messageId: message.message_id,
+              userId: message.from?.id,
               userName: message.from?.username || "unknown",
               firstName: message.from?.first_name || "User",
               message: text,
@@ -120,7 +126,7 @@ export function registerTelegramTrigger({
           } catch (handlerError: any) {
             logger?.error("❌ [Telegram Trigger] Error in workflow handler", {
               error: handlerError.message,
-              stack: handlerError.stack
+              stack: handlerError.stack,
             });
             // Don't rethrow, just log so we return 200 OK to Telegram
           }